@@ -2,17 +2,41 @@ import React, { useState, useEffect, useRef, useCallback } from 'react';
 import { 
   AppPhase, 
   AppState, 
+  ConsentRecord,
   IdentityDoc, 
+  IdentityField,
   VerificationStatus, 
+  VerificationResult,
   DigiLockerState,
-  SaveAadharArgs,
-  SavePanArgs,
-  VerifyDetailsArgs,
-  CreateDigilockerArgs
+  DocumentType,
+  PinHash,
+  ReenterDocumentArgs,
+  AadhaarOtpState,
+  TranscriptEntry,
+  InputMode,
+  ConnectionState,
+  ConnectionStateChange,
+  SavedCheckpoint,
+  SessionSnapshot,
+  LanguageCode,
+  VerificationReport
 } from './types';
 import { GeminiLiveService } from './services/geminiLiveService';
+import { createVerificationBackend } from './services/backend';
+import { createToolExecutor } from './services/session';
+import { TokenError } from './services/live';
+import { INITIAL_OTP_STATE } from './services/aadhaarOtp';
+import { CheckpointStore } from './services/checkpointStore';
+import { AuditLog } from './services/auditLog';
+import { buildVerificationReport, renderReportPdf } from './services/verificationReport';
+import { DocumentScanner } from './services/documentScanner';
+import { readOfflineKyc } from './services/offlineKyc';
+import { DEFAULT_LANGUAGE, LANGUAGES, isLanguageCode } from './i18n/languages';
+import { UI_STRINGS } from './i18n/strings';
 import InfoCard from './components/InfoCard';
 import Visualizer from './components/Visualizer';
+import TranscriptPanel from './components/TranscriptPanel';
+import ChatInput from './components/ChatInput';
 import { 
   Mic, 
   MicOff, 
@@ -22,27 +46,104 @@ import {
   AlertCircle, 
   Lock,
   Cpu,
-  Key
+  Key,
+  Keyboard,
+  History,
+  Languages,
+  BadgeCheck,
+  ShieldCheck,
+  Download,
+  FileText
 } from 'lucide-react';
 
+// Saved details stay editable on screen until the account is created
+const EDITABLE_PHASES = [AppPhase.AADHAR_OTP, AppPhase.PAN, AppPhase.VERIFY, AppPhase.DIGILOCKER];
+
+// Header badge style for each live connection state
+const CONNECTION_BADGES: Record<ConnectionState, { className: string; dot: string }> = {
+  [ConnectionState.CONNECTING]: { className: 'bg-blue-500/10 border-blue-500/20 text-blue-400', dot: 'bg-blue-500 animate-pulse' },
+  [ConnectionState.OPEN]: { className: 'bg-green-500/10 border-green-500/20 text-green-400', dot: 'bg-green-500 animate-pulse' },
+  [ConnectionState.RECONNECTING]: { className: 'bg-yellow-500/10 border-yellow-500/20 text-yellow-400', dot: 'bg-yellow-500 animate-pulse' },
+  [ConnectionState.CLOSED]: { className: 'bg-slate-800 border-slate-700 text-slate-400', dot: 'bg-slate-500' },
+  [ConnectionState.FAILED]: { className: 'bg-red-500/10 border-red-500/20 text-red-400', dot: 'bg-red-500' }
+};
+
+const LANGUAGE_STORAGE_KEY = 'digiverifier.language';
+
+// Saves a generated file through a temporary download link
+const downloadFile = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// AppState fields of a verification that has not started
+const NO_PROGRESS: Omit<AppState, 'isConnected' | 'isAudioPlaying'> = {
+  phase: AppPhase.IDLE,
+  consent: null,
+  aadhar: null,
+  aadhaarOtp: INITIAL_OTP_STATE,
+  pan: null,
+  pending: {},
+  verification: VerificationStatus.PENDING,
+  verificationResult: null,
+  digilocker: { isCreated: false, accountId: null, pinAlgorithm: null }
+};
+
+// AppState fields restored from a checkpoint
+const stateFromSnapshot = (snapshot: SessionSnapshot): Partial<AppState> => ({
+  phase: snapshot.phase,
+  consent: snapshot.consent ?? null,
+  aadhar: snapshot.aadhar,
+  aadhaarOtp: snapshot.aadhaarOtp,
+  pan: snapshot.pan,
+  pending: snapshot.pending ?? {},
+  verification: snapshot.verificationResult?.status ?? VerificationStatus.PENDING,
+  verificationResult: snapshot.verificationResult,
+  digilocker: { isCreated: !!snapshot.digilockerAccountId, accountId: snapshot.digilockerAccountId, pinAlgorithm: null }
+});
+
 const App: React.FC = () => {
   // --- State ---
   const [appState, setAppState] = useState<AppState>({
-    phase: AppPhase.IDLE,
-    aadhar: null,
-    pan: null,
-    verification: VerificationStatus.PENDING,
-    digilocker: { isCreated: false, pin: null },
+    ...NO_PROGRESS,
     isConnected: false,
     isAudioPlaying: true
   });
 
   const [micMuted, setMicMuted] = useState(false);
+  const [inputMode, setInputMode] = useState<InputMode>('voice');
+  const [language, setLanguage] = useState<LanguageCode>(() => {
+    const saved = localStorage.getItem(LANGUAGE_STORAGE_KEY);
+    return isLanguageCode(saved) ? saved : DEFAULT_LANGUAGE;
+  });
+  const strings = UI_STRINGS[language];
+  const [notice, setNotice] = useState<string | null>(null);
+  const [resumeExpired, setResumeExpired] = useState(false);
+  const [connection, setConnection] = useState<ConnectionStateChange>({ state: ConnectionState.CLOSED });
+  const [lastInterruptAt, setLastInterruptAt] = useState<number | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [requiresKeySelection, setRequiresKeySelection] = useState(false);
+  const [transcript, setTranscript] = useState<TranscriptEntry[]>([]);
 
   // Service Ref
   const geminiServiceRef = useRef<GeminiLiveService | null>(null);
+
+  // Encrypted checkpoints, so a reload can resume the verification
+  const checkpointStoreRef = useRef<CheckpointStore | null>(CheckpointStore.isSupported() ? new CheckpointStore() : null);
+  const [savedCheckpoint, setSavedCheckpoint] = useState<SavedCheckpoint | null>(null);
+
+  // Audit trail of the current (or last) session, kept after it ends for export
+  const [auditLog, setAuditLog] = useState<AuditLog | null>(null);
+
+  // Report of the completed verification, built once the account is created
+  const [report, setReport] = useState<VerificationReport | null>(null);
+
+  // On-device OCR, created on first scan
+  const scannerRef = useRef<DocumentScanner | null>(null);
   
   // Analyser Refs (Need to trigger re-renders or passed directly)
   const [inputAnalyser, setInputAnalyser] = useState<AnalyserNode | null>(null);
@@ -59,6 +160,24 @@ const App: React.FC = () => {
     checkKey();
   }, []);
 
+  // --- Language ---
+  useEffect(() => {
+    document.documentElement.lang = LANGUAGES[language].languageCode;
+    localStorage.setItem(LANGUAGE_STORAGE_KEY, language);
+  }, [language]);
+
+  // --- Saved Progress Check ---
+  useEffect(() => {
+    checkpointStoreRef.current?.load()
+      .then(setSavedCheckpoint)
+      .catch(e => console.warn("Could not read saved progress:", e));
+  }, []);
+
+  const discardCheckpoint = async () => {
+    setSavedCheckpoint(null);
+    await checkpointStoreRef.current?.clear().catch(e => console.warn("Could not clear saved progress:", e));
+  };
+
   const handleSelectKey = async () => {
     if ((window as any).aistudio && (window as any).aistudio.openSelectKey) {
       await (window as any).aistudio.openSelectKey();
@@ -68,83 +187,215 @@ const App: React.FC = () => {
   };
 
   // --- Handlers for Tools ---
-  const handleSaveAadhar = useCallback((args: SaveAadharArgs) => {
+  const handleConsent = useCallback((consent: ConsentRecord) => {
+    setAppState(prev => ({ ...prev, consent }));
+  }, []);
+
+  const handlePendingDocument = useCallback((document: DocumentType, doc: IdentityDoc | null) => {
+    setAppState(prev => {
+      const pending = { ...prev.pending };
+      if (doc) {
+        pending[document] = doc;
+      } else {
+        delete pending[document];
+      }
+      return { ...prev, pending };
+    });
+  }, []);
+
+  const handleSaveAadhar = useCallback((doc: IdentityDoc) => {
+    setAppState(prev => ({ ...prev, aadhar: doc }));
+  }, []);
+
+  const handleAadhaarOtpChange = useCallback((aadhaarOtp: AadhaarOtpState) => {
+    setAppState(prev => ({ ...prev, aadhaarOtp }));
+  }, []);
+
+  const handleSavePan = useCallback((doc: IdentityDoc) => {
+    setAppState(prev => ({ ...prev, pan: doc }));
+  }, []);
+
+  const handleVerifyDetails = useCallback((result: VerificationResult) => {
     setAppState(prev => ({
       ...prev,
-      phase: AppPhase.PAN,
-      aadhar: { fullName: args.fullName, number: args.number, dob: args.dob }
+      verification: result.status,
+      verificationResult: result
     }));
   }, []);
 
-  const handleSavePan = useCallback((args: SavePanArgs) => {
+  const handleCreateDigilocker = useCallback((accountId: string, pinAlgorithm: PinHash['algorithm']) => {
     setAppState(prev => ({
       ...prev,
-      phase: AppPhase.VERIFY,
-      pan: { fullName: args.fullName, number: args.number, dob: args.dob }
+      digilocker: { isCreated: true, accountId, pinAlgorithm }
     }));
   }, []);
 
-  const handleVerifyDetails = useCallback(async (args: VerifyDetailsArgs): Promise<string> => {
-    // Simulate verification delay
-    await new Promise(r => setTimeout(r, 1000));
-    const status = VerificationStatus.MATCH;
-    
+  const handleReenterDocument = useCallback((args: ReenterDocumentArgs) => {
     setAppState(prev => ({
       ...prev,
-      phase: AppPhase.DIGILOCKER,
-      verification: status
+      verification: VerificationStatus.PENDING,
+      verificationResult: null
     }));
-    
-    return status;
   }, []);
 
-  const handleCreateDigilocker = useCallback((args: CreateDigilockerArgs) => {
+  const handleDocumentUpdated = useCallback((document: DocumentType, doc: IdentityDoc) => {
     setAppState(prev => ({
       ...prev,
-      phase: AppPhase.COMPLETE,
-      digilocker: { isCreated: true, pin: args.pin }
+      [document === 'AADHAR' ? 'aadhar' : 'pan']: doc,
+      verification: VerificationStatus.PENDING,
+      verificationResult: null
     }));
   }, []);
 
+  // Click-to-edit on a saved card; returns validation errors to show inline
+  const editDocumentField = (document: DocumentType) => async (field: IdentityField, value: string): Promise<string[]> => {
+    const service = geminiServiceRef.current;
+    if (!service) return [strings.connectionLost()];
+    const result = await service.updateDocumentField(document, field, value);
+    return result.errors;
+  };
+
+  // Reads a card photo (or the offline e-KYC ZIP) and hands the details to the
+  // assistant for read-back
+  const scanDocument = (document: DocumentType) => async (file: File, shareCode?: string): Promise<string[]> => {
+    const scan = shareCode !== undefined
+      ? await readOfflineKyc(file, shareCode)
+      : await (scannerRef.current ??= new DocumentScanner()).scan(document, file);
+    const service = geminiServiceRef.current;
+    if (!service) return [strings.connectionLost()];
+    return service.proposeScan(scan).errors;
+  };
+
+  const giveConsent = (agreed: boolean) => {
+    geminiServiceRef.current?.recordConsent(agreed).catch(e => {
+      console.error("Could not record consent:", e);
+      setError((e as Error)?.message || String(e));
+    });
+  };
+
+  // Downloads the signed audit trail as JSON
+  const exportAuditLog = async () => {
+    if (!auditLog) return;
+    try {
+      const exported = await auditLog.export();
+      downloadFile(new Blob([JSON.stringify(exported, null, 2)], { type: 'application/json' }), `digiverifier-audit-${exported.sessionId}.json`);
+    } catch (e) {
+      console.error("Audit export failed:", e);
+      setError((e as Error)?.message || String(e));
+    }
+  };
+
+  const downloadReport = (format: 'pdf' | 'json') => {
+    if (!report) return;
+    const blob = format === 'pdf'
+      ? renderReportPdf(report)
+      : new Blob([JSON.stringify(report, null, 2)], { type: 'application/json' });
+    downloadFile(blob, `digiverifier-report-${report.reportId}.${format}`);
+  };
+
+  const handlePhaseChange = useCallback((phase: AppPhase) => {
+    setAppState(prev => ({ ...prev, phase }));
+  }, []);
+
   // --- Start Connection ---
-  const startVerification = async () => {
+  const startVerification = async (resume?: SessionSnapshot) => {
     // Re-check key requirement if we somehow got here
     if (requiresKeySelection) {
-      setError("Please select an API Key first.");
+      setError(strings.selectKeyFirst);
       return;
     }
-    
-    // Fallback env check
-    if (!process.env.API_KEY) {
-        setError("Missing API_KEY in environment variables.");
-        return;
-    }
 
     try {
       setError(null);
+      setResumeExpired(false);
       // Instantiate service just before connection to ensure latest env vars
+      const audit = new AuditLog();
+      const backend = createVerificationBackend();
       const service = new GeminiLiveService({
+        onConsent: handleConsent,
+        onPendingDocument: handlePendingDocument,
         onSaveAadhar: handleSaveAadhar,
+        onAadhaarOtpChange: handleAadhaarOtpChange,
         onSavePan: handleSavePan,
         onVerifyDetails: handleVerifyDetails,
-        onCreateDigilocker: handleCreateDigilocker
+        onCreateDigilocker: handleCreateDigilocker,
+        onReenterDocument: handleReenterDocument,
+        onDocumentUpdated: handleDocumentUpdated,
+        onPhaseChange: handlePhaseChange
+      }, backend, language, { audit, executor: createToolExecutor(backend) });
+      setAuditLog(audit);
+      setReport(null);
+
+      service.events.on('inputMode', change => {
+        setInputMode(change.mode);
+        setNotice(change.reason ? strings.micFallback(change.reason) : null);
+      });
+
+      service.events.on('connection', change => {
+        setConnection(change);
+        if (change.state === ConnectionState.FAILED && geminiServiceRef.current === service) {
+          // Retries exhausted: release audio but keep the captured details on screen
+          endSession();
+          setConnection(change);
+          setError(strings.connectionLost(change.reason));
+        }
+      });
+
+      // Checkpoint after every tool call; a finished verification needs no resume
+      // (not awaited here, so the audio contexts still start inside the click)
+      const store = checkpointStoreRef.current;
+      setAppState(prev => ({ ...prev, ...(resume ? stateFromSnapshot(resume) : { consent: null }) }));
+      let saving: Promise<unknown> = (resume ? Promise.resolve() : store?.begin()) ?? Promise.resolve();
+      service.events.on('checkpoint', snapshot => {
+        if (snapshot.phase === AppPhase.COMPLETE) {
+          setReport(prev => prev ?? buildVerificationReport(snapshot));
+        }
+        if (!store) return;
+        saving = saving
+          .then(() => snapshot.phase === AppPhase.COMPLETE ? store.clear() : store.save(snapshot))
+          .catch(e => console.warn("Could not save progress:", e));
+      });
+
+      // The server no longer holds the saved verification, so it starts over
+      service.events.on('resumeExpired', () => {
+        setAppState(prev => ({ ...prev, ...NO_PROGRESS }));
+        setResumeExpired(true);
+      });
+
+      service.events.on('interrupted', event => {
+        setLastInterruptAt(Date.parse(event.timestamp));
+      });
+
+      // Upsert streamed transcript turns by id
+      setTranscript([]);
+      service.events.on('transcript', entry => {
+        setTranscript(prev => {
+          const idx = prev.findIndex(e => e.id === entry.id);
+          if (idx === -1) return [...prev, entry];
+          const next = [...prev];
+          next[idx] = entry;
+          return next;
+        });
       });
 
       // Connection is called here within a user gesture handler (onClick), 
       // which allows AudioContext to start permitted.
-      await service.connect();
+      await service.connect(inputMode, resume);
       geminiServiceRef.current = service;
+      setSavedCheckpoint(null);
       
       // Update state for visualizers
       setInputAnalyser(service.inputAnalyser);
       setOutputAnalyser(service.outputAnalyser);
       
-      setAppState(prev => ({ ...prev, isConnected: true, phase: AppPhase.AADHAR }));
+      setAppState(prev => ({ ...prev, isConnected: true }));
     } catch (err: any) {
       console.error(err);
-      let msg = err?.message || "Failed to connect.";
-      if (msg.includes("Permission") || msg.includes("403")) {
-        msg = "Permission Denied. Please ensure your API Key has access to Gemini Live.";
+      let msg = err?.message || strings.connectFailed;
+      if (err instanceof TokenError) {
+        msg = err.status === 429 && err.retryAfterSeconds ? strings.tooManyConnections(err.retryAfterSeconds) : strings.tokenUnavailable;
+      } else if (msg.includes("Permission") || msg.includes("403")) {
+        msg = strings.permissionDenied;
         // If permission denied, maybe prompt key selection again
         if ((window as any).aistudio) setRequiresKeySelection(true);
       }
@@ -161,6 +412,19 @@ const App: React.FC = () => {
     }
   };
 
+  const switchInputMode = async () => {
+    const nextMode: InputMode = inputMode === 'voice' ? 'text' : 'voice';
+    if (geminiServiceRef.current) {
+      await geminiServiceRef.current.setInputMode(nextMode);
+    } else {
+      setInputMode(nextMode);
+    }
+  };
+
+  const sendText = (text: string) => {
+    geminiServiceRef.current?.sendText(text);
+  };
+
   const togglePlayback = async () => {
     if (geminiServiceRef.current) {
       const newPlayState = !appState.isAudioPlaying;
@@ -172,16 +436,22 @@ const App: React.FC = () => {
   const endSession = () => {
     if (geminiServiceRef.current) {
       geminiServiceRef.current.disconnect();
+      geminiServiceRef.current.events.removeAllListeners();
     }
     setAppState(prev => ({ ...prev, isConnected: false, phase: AppPhase.IDLE }));
     setInputAnalyser(null);
     setOutputAnalyser(null);
     geminiServiceRef.current = null;
+    scannerRef.current?.dispose().catch(e => console.warn("Could not stop the OCR worker:", e));
+    scannerRef.current = null;
   };
 
   // --- Render Helpers ---
+  const isOpen = connection.state === ConnectionState.OPEN;
+  const canEditDocuments = isOpen && EDITABLE_PHASES.includes(appState.phase);
+
   const getStepColor = (stepPhase: AppPhase) => {
-    const phases = [AppPhase.IDLE, AppPhase.AADHAR, AppPhase.PAN, AppPhase.VERIFY, AppPhase.DIGILOCKER, AppPhase.COMPLETE];
+    const phases = [AppPhase.IDLE, AppPhase.CONSENT, AppPhase.AADHAR, AppPhase.AADHAR_OTP, AppPhase.PAN, AppPhase.VERIFY, AppPhase.DIGILOCKER, AppPhase.COMPLETE];
     const currentIndex = phases.indexOf(appState.phase);
     const stepIndex = phases.indexOf(stepPhase);
 
@@ -201,15 +471,26 @@ const App: React.FC = () => {
               <Cpu size={24} className="text-white" />
             </div>
             <h1 className="text-xl font-bold tracking-tight text-white">
-              Digi<span className="text-gov-blue">Verifier</span> <span className="text-slate-500 text-sm font-normal ml-2">Official AI Assistant</span>
+              Digi<span className="text-gov-blue">Verifier</span> <span className="text-slate-500 text-sm font-normal ml-2">{strings.subtitle}</span>
             </h1>
           </div>
 
           <div className="flex items-center gap-4">
+             {auditLog && (
+                <button
+                  onClick={exportAuditLog}
+                  title={strings.exportAudit}
+                  className="text-slate-400 hover:text-slate-200 p-2 rounded-lg border border-slate-700 transition-colors"
+                >
+                  <Download size={16} />
+                </button>
+             )}
+
              {/* Connection Status */}
-             <div className={`flex items-center gap-2 px-3 py-1 rounded-full text-xs font-semibold border ${appState.isConnected ? 'bg-green-500/10 border-green-500/20 text-green-400' : 'bg-slate-800 border-slate-700 text-slate-400'}`}>
-                <div className={`w-2 h-2 rounded-full ${appState.isConnected ? 'bg-green-500 animate-pulse' : 'bg-slate-500'}`} />
-                {appState.isConnected ? 'LIVE SECURE LINK' : 'DISCONNECTED'}
+             <div className={`flex items-center gap-2 px-3 py-1 rounded-full text-xs font-semibold border ${CONNECTION_BADGES[connection.state].className}`}>
+                <div className={`w-2 h-2 rounded-full ${CONNECTION_BADGES[connection.state].dot}`} />
+                {strings.connection[connection.state]}
+                {connection.state === ConnectionState.RECONNECTING && ` ${connection.attempt}/${connection.maxAttempts}`}
              </div>
 
              {!appState.isConnected ? (
@@ -219,22 +500,48 @@ const App: React.FC = () => {
                     className="bg-yellow-600 hover:bg-yellow-500 text-white px-5 py-2 rounded-lg text-sm font-medium transition-colors shadow-lg shadow-yellow-500/20 flex items-center gap-2"
                   >
                     <Key size={16} />
-                    Select API Key
+                    {strings.selectApiKey}
                   </button>
                 ) : (
+                   <>
+                   <label className="flex items-center gap-1 text-slate-500" title={strings.language}>
+                     <Languages size={16} />
+                     <select
+                       value={language}
+                       onChange={e => setLanguage(e.target.value as LanguageCode)}
+                       className="bg-slate-900 border border-slate-700 rounded-lg px-2 py-2 text-xs font-semibold text-slate-200 focus:outline-none focus:border-gov-blue"
+                     >
+                       {Object.values(LANGUAGES).map(lang => (
+                         <option key={lang.code} value={lang.code}>{lang.label}</option>
+                       ))}
+                     </select>
+                   </label>
+                   <div className="flex rounded-lg border border-slate-700 overflow-hidden text-xs font-semibold">
+                     {(['voice', 'text'] as InputMode[]).map(mode => (
+                       <button
+                         key={mode}
+                         onClick={() => setInputMode(mode)}
+                         className={`px-3 py-2 flex items-center gap-1 uppercase transition-colors ${inputMode === mode ? 'bg-slate-700 text-white' : 'bg-slate-900 text-slate-500 hover:text-slate-300'}`}
+                       >
+                         {mode === 'voice' ? <Mic size={14} /> : <Keyboard size={14} />}
+                         {strings.inputModes[mode]}
+                       </button>
+                     ))}
+                   </div>
                    <button 
-                    onClick={startVerification}
+                    onClick={() => startVerification()}
                     className="bg-gov-blue hover:bg-blue-600 text-white px-5 py-2 rounded-lg text-sm font-medium transition-colors shadow-lg shadow-blue-500/20"
                    >
-                     Start Verification
+                     {strings.startVerification}
                    </button>
+                   </>
                 )
              ) : (
                 <button 
                   onClick={endSession}
                   className="bg-red-500/10 hover:bg-red-500/20 text-red-400 border border-red-500/30 px-5 py-2 rounded-lg text-sm font-medium transition-colors"
                 >
-                  End Session
+                  {strings.endSession}
                 </button>
              )}
           </div>
@@ -252,45 +559,124 @@ const App: React.FC = () => {
             </div>
         )}
         
+        {/* Expired Resume Notice */}
+        {resumeExpired && (
+            <div className="mb-6 p-4 bg-slate-900/60 border border-slate-700 rounded-lg text-slate-300 flex items-center gap-3">
+                <History size={20} />
+                {strings.resumeExpired}
+            </div>
+        )}
+
+        {/* Input Mode Notice */}
+        {notice && (
+            <div className="mb-6 p-4 bg-slate-900/60 border border-slate-700 rounded-lg text-slate-300 flex items-center gap-3">
+                <Keyboard size={20} />
+                {notice}
+            </div>
+        )}
+
         {/* Info Message for Key */}
         {requiresKeySelection && !error && (
             <div className="mb-6 p-4 bg-yellow-900/20 border border-yellow-500/30 rounded-lg text-yellow-200 flex items-center gap-3">
                 <AlertCircle size={20} />
-                Please select a paid API key to use the Gemini Live features.
+                {strings.selectKeyNotice}
+            </div>
+        )}
+
+        {/* Resume Prompt */}
+        {savedCheckpoint && !appState.isConnected && (
+            <div className="mb-6 p-4 bg-gov-blue/10 border border-gov-blue/30 rounded-lg text-slate-200 flex items-center gap-3">
+                <History size={20} className="text-gov-blue" />
+                <div className="flex-1">
+                    <p className="font-semibold">{strings.resumeTitle}</p>
+                    <p className="text-xs text-slate-400">
+                        {strings.resumeDetails(
+                          strings.phases[savedCheckpoint.snapshot.phase],
+                          new Date(savedCheckpoint.savedAt).toLocaleTimeString(LANGUAGES[language].languageCode),
+                          new Date(savedCheckpoint.expiresAt).toLocaleTimeString(LANGUAGES[language].languageCode)
+                        )}
+                    </p>
+                </div>
+                <button
+                  onClick={() => startVerification(savedCheckpoint.snapshot)}
+                  className="bg-gov-blue hover:bg-blue-600 text-white px-4 py-2 rounded-lg text-sm font-medium transition-colors"
+                >
+                  {strings.resume}
+                </button>
+                <button
+                  onClick={discardCheckpoint}
+                  className="text-slate-400 hover:text-slate-200 px-3 py-2 text-sm font-medium transition-colors"
+                >
+                  {strings.startOver}
+                </button>
             </div>
         )}
 
         {/* Stepper */}
         <div className="flex justify-between items-center mb-12 relative">
             <div className="absolute top-1/2 left-0 w-full h-0.5 bg-slate-800 -z-10 transform -translate-y-1/2"></div>
-            {[
-              { id: AppPhase.AADHAR, label: "Identity" }, 
-              { id: AppPhase.PAN, label: "Tax Info" }, 
-              { id: AppPhase.VERIFY, label: "Verify" }, 
-              { id: AppPhase.DIGILOCKER, label: "DigiLocker" }
-            ].map((step, idx) => (
+            {[AppPhase.CONSENT, AppPhase.AADHAR, AppPhase.AADHAR_OTP, AppPhase.PAN, AppPhase.VERIFY, AppPhase.DIGILOCKER].map((step, idx) => (
                 <div key={idx} className="flex flex-col items-center bg-slate-950 px-2">
-                    <div className={`w-10 h-10 rounded-full flex items-center justify-center border-2 transition-all duration-300 ${getStepColor(step.id)}`}>
+                    <div className={`w-10 h-10 rounded-full flex items-center justify-center border-2 transition-all duration-300 ${getStepColor(step)}`}>
                         {idx + 1}
                     </div>
-                    <span className={`mt-2 text-xs font-semibold tracking-wider ${appState.phase === step.id ? 'text-gov-blue' : 'text-slate-600'}`}>{step.label}</span>
+                    <span className={`mt-2 text-xs font-semibold tracking-wider ${appState.phase === step ? 'text-gov-blue' : 'text-slate-600'}`}>{strings.phases[step]}</span>
                 </div>
             ))}
         </div>
 
+        {/* Consent */}
+        {appState.isConnected && appState.phase === AppPhase.CONSENT && (
+            <div className="mb-8 p-5 bg-slate-900/60 border border-gov-blue/30 rounded-xl text-slate-200">
+                <div className="flex items-center gap-2 mb-3">
+                    <ShieldCheck size={20} className="text-gov-blue" />
+                    <p className="font-semibold">{strings.consentTitle}</p>
+                </div>
+                <p className="text-sm text-slate-300 mb-4">{LANGUAGES[language].consentStatement}</p>
+                {appState.consent && !appState.consent.agreed && (
+                    <p className="text-xs text-yellow-300 mb-4">{strings.consentDeclined}</p>
+                )}
+                <div className="flex gap-3">
+                    <button
+                      onClick={() => giveConsent(true)}
+                      disabled={!isOpen}
+                      className="bg-gov-blue hover:bg-blue-600 text-white px-4 py-2 rounded-lg text-sm font-medium transition-colors disabled:opacity-50"
+                    >
+                      {strings.consentAgree}
+                    </button>
+                    <button
+                      onClick={() => giveConsent(false)}
+                      disabled={!isOpen}
+                      className="text-slate-400 hover:text-slate-200 border border-slate-700 px-4 py-2 rounded-lg text-sm font-medium transition-colors disabled:opacity-50"
+                    >
+                      {strings.consentDecline}
+                    </button>
+                </div>
+            </div>
+        )}
+
         {/* Info Grid */}
         <div className="grid grid-cols-1 md:grid-cols-2 gap-8 mb-12">
             <InfoCard 
-              title="Aadhar Details" 
+              title={strings.aadharTitle}
               data={appState.aadhar} 
-              isActive={appState.phase === AppPhase.AADHAR}
+              isActive={appState.phase === AppPhase.AADHAR || appState.phase === AppPhase.AADHAR_OTP}
               type="AADHAR"
+              pending={appState.pending.AADHAR}
+              otp={appState.aadhaarOtp}
+              onEditField={canEditDocuments ? editDocumentField('AADHAR') : undefined}
+              onScan={isOpen && appState.phase === AppPhase.AADHAR ? scanDocument('AADHAR') : undefined}
+              strings={strings}
             />
             <InfoCard 
-              title="PAN Details" 
+              title={strings.panTitle}
               data={appState.pan} 
               isActive={appState.phase === AppPhase.PAN}
               type="PAN"
+              pending={appState.pending.PAN}
+              onEditField={canEditDocuments ? editDocumentField('PAN') : undefined}
+              onScan={isOpen && appState.phase === AppPhase.PAN ? scanDocument('PAN') : undefined}
+              strings={strings}
             />
         </div>
 
@@ -298,12 +684,26 @@ const App: React.FC = () => {
         <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-12">
            {/* Verification Status */}
            <div className="bg-slate-900/50 border border-slate-800 p-4 rounded-xl flex items-center gap-4">
-              <div className={`p-3 rounded-full ${appState.verification === VerificationStatus.MATCH ? 'bg-green-500/20 text-green-400' : 'bg-slate-800 text-slate-500'}`}>
+              <div className={`p-3 rounded-full ${appState.verification === VerificationStatus.MATCH ? 'bg-green-500/20 text-green-400' : appState.verification === VerificationStatus.MISMATCH ? 'bg-red-500/20 text-red-400' : 'bg-slate-800 text-slate-500'}`}>
                 <Activity size={24} />
               </div>
               <div>
-                <p className="text-xs text-slate-500 uppercase font-semibold">Cross-Verification</p>
-                <p className="text-lg font-bold text-slate-200">{appState.verification}</p>
+                <p className="text-xs text-slate-500 uppercase font-semibold">{strings.crossVerification}</p>
+                <p className="text-lg font-bold text-slate-200">
+                    {strings.verificationStatus[appState.verification]}
+                    {appState.verificationResult && (
+                        <span className="ml-2 text-sm font-mono text-slate-400">{Math.round(appState.verificationResult.score * 100)}%</span>
+                    )}
+                </p>
+                {appState.verificationResult && (
+                    <p className={`flex items-center gap-1 text-xs ${appState.verificationResult.confidence === 'HIGH' ? 'text-green-400' : 'text-slate-500'}`}>
+                        {appState.verificationResult.confidence === 'HIGH' && <BadgeCheck size={12} />}
+                        {strings.confidence[appState.verificationResult.confidence]}
+                    </p>
+                )}
+                {appState.verificationResult?.reasons.map((reason, idx) => (
+                    <p key={idx} className="text-xs text-red-300">{reason}</p>
+                ))}
               </div>
            </div>
 
@@ -313,46 +713,84 @@ const App: React.FC = () => {
                 <Lock size={24} />
               </div>
               <div className="flex-1">
-                <p className="text-xs text-slate-500 uppercase font-semibold">DigiLocker Account</p>
+                <p className="text-xs text-slate-500 uppercase font-semibold">{strings.digilockerAccount}</p>
                 <p className="text-lg font-bold text-slate-200">
-                    {appState.digilocker.isCreated ? 'CREATED SUCCESSFULLY' : 'PENDING CREATION'}
+                    {appState.digilocker.isCreated ? strings.digilockerCreated : strings.digilockerPending}
                 </p>
+                {appState.digilocker.accountId && (
+                    <p className="text-xs font-mono text-slate-400">{appState.digilocker.accountId}</p>
+                )}
               </div>
+              {report && (
+                  <div className="flex flex-col gap-1">
+                      {(['pdf', 'json'] as const).map(format => (
+                          <button
+                            key={format}
+                            onClick={() => downloadReport(format)}
+                            className="flex items-center gap-1 text-xs font-semibold text-slate-300 hover:text-white border border-slate-700 px-3 py-1 rounded-lg transition-colors"
+                          >
+                            <FileText size={14} />
+                            {strings.downloadReport(format.toUpperCase())}
+                          </button>
+                      ))}
+                  </div>
+              )}
               {appState.digilocker.isCreated && (
                   <div className="bg-slate-950 px-4 py-2 rounded font-mono text-xl tracking-widest border border-slate-700">
-                      PIN: {appState.digilocker.pin}
+                      PIN: ●●●●●● <span className="text-xs text-slate-500 tracking-normal">{appState.digilocker.pinAlgorithm}</span>
                   </div>
               )}
            </div>
         </div>
 
+        {/* Transcript */}
+        <div className="mb-12">
+            <TranscriptPanel entries={transcript} strings={strings} />
+        </div>
+
       </main>
 
       {/* Footer Visualizer Area (Fixed Bottom) */}
       <div className="fixed bottom-0 left-0 w-full bg-slate-950 border-t border-slate-800 p-4 shadow-2xl z-40">
         <div className="max-w-7xl mx-auto flex flex-col md:flex-row items-center gap-6">
             
-            {/* Input Visualizer (Mic) */}
+            {/* Input (Mic or Text) */}
             <div className="flex-1 w-full flex items-center gap-4">
                 <div className="flex flex-col items-center gap-2">
-                    <button 
-                        onClick={toggleMic}
-                        disabled={!appState.isConnected}
-                        className={`p-4 rounded-full transition-all ${micMuted ? 'bg-red-500/20 text-red-500 hover:bg-red-500/30' : 'bg-gov-blue/20 text-gov-blue hover:bg-gov-blue/30'} disabled:opacity-50`}
+                    {inputMode === 'voice' ? (
+                        <button 
+                            onClick={toggleMic}
+                            disabled={!appState.isConnected}
+                            className={`p-4 rounded-full transition-all ${micMuted ? 'bg-red-500/20 text-red-500 hover:bg-red-500/30' : 'bg-gov-blue/20 text-gov-blue hover:bg-gov-blue/30'} disabled:opacity-50`}
+                        >
+                            {micMuted ? <MicOff size={24} /> : <Mic size={24} />}
+                        </button>
+                    ) : (
+                        <div className="p-4 rounded-full bg-gov-blue/20 text-gov-blue">
+                            <Keyboard size={24} />
+                        </div>
+                    )}
+                    <button
+                        onClick={switchInputMode}
+                        title={inputMode === 'voice' ? strings.switchToTyping : strings.switchToMic}
+                        className="text-[10px] uppercase font-bold text-slate-500 hover:text-slate-300"
                     >
-                        {micMuted ? <MicOff size={24} /> : <Mic size={24} />}
+                        {inputMode === 'voice' ? strings.typeInstead : strings.useMic}
                     </button>
-                    <span className="text-[10px] uppercase font-bold text-slate-500">Input</span>
                 </div>
-                <div className="flex-1 h-24 w-full">
-                    <Visualizer 
-                        analyser={inputAnalyser} 
-                        color="#3B82F6" 
-                        label="User Audio (16kHz)"
-                        isMuted={micMuted}
-                        width={400}
-                        height={96}
-                    />
+                <div className="flex-1 h-24 w-full flex items-center">
+                    {inputMode === 'voice' ? (
+                        <Visualizer 
+                            analyser={inputAnalyser} 
+                            color="#3B82F6" 
+                            label={strings.userAudio}
+                            isMuted={micMuted}
+                            width={400}
+                            height={96}
+                        />
+                    ) : (
+                        <ChatInput onSend={sendText} disabled={connection.state !== ConnectionState.OPEN} placeholder={strings.chatPlaceholder} />
+                    )}
                 </div>
             </div>
 
@@ -365,7 +803,8 @@ const App: React.FC = () => {
                     <Visualizer 
                         analyser={outputAnalyser} 
                         color="#0EA5E9" 
-                        label="AI Response (24kHz)"
+                        label={strings.aiResponse}
+                        interruptedAt={lastInterruptAt}
                         width={400}
                         height={96}
                     />
@@ -378,7 +817,7 @@ const App: React.FC = () => {
                     >
                         {appState.isAudioPlaying ? <Pause size={24} /> : <Play size={24} />}
                     </button>
-                    <span className="text-[10px] uppercase font-bold text-slate-500">Output</span>
+                    <span className="text-[10px] uppercase font-bold text-slate-500">{strings.output}</span>
                 </div>
             </div>
 
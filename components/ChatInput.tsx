@@ -0,0 +1,42 @@
+import React, { useState } from 'react';
+import { Send } from 'lucide-react';
+
+interface ChatInputProps {
+  onSend: (text: string) => void;
+  disabled?: boolean;
+  placeholder?: string;
+}
+
+const ChatInput: React.FC<ChatInputProps> = ({ onSend, disabled = false, placeholder = 'Type your reply...' }) => {
+  const [text, setText] = useState('');
+
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!text.trim()) return;
+    onSend(text);
+    setText('');
+  };
+
+  return (
+    <form onSubmit={submit} className="flex items-center gap-2 w-full">
+      <input
+        type="text"
+        value={text}
+        onChange={e => setText(e.target.value)}
+        disabled={disabled}
+        placeholder={placeholder}
+        autoComplete="off"
+        className="flex-1 h-12 px-4 rounded-lg bg-slate-900 border border-slate-700 text-slate-100 font-mono placeholder:text-slate-600 focus:outline-none focus:border-gov-blue disabled:opacity-50"
+      />
+      <button
+        type="submit"
+        disabled={disabled || !text.trim()}
+        className="h-12 px-4 rounded-lg bg-gov-blue hover:bg-blue-600 text-white transition-colors disabled:opacity-50"
+      >
+        <Send size={18} />
+      </button>
+    </form>
+  );
+};
+
+export default ChatInput;
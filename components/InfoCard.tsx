@@ -1,15 +1,202 @@
-import React from 'react';
-import { IdentityDoc } from '../types';
-import { ShieldCheck, User } from 'lucide-react';
+import React, { useEffect, useState } from 'react';
+import { AadhaarOtpState, IdentityDoc, IdentityField } from '../types';
+import { UiStrings } from '../i18n/strings';
+import { displayNumber } from '../utils/redaction';
+import { ShieldCheck, User, Smartphone, HelpCircle, Pencil, Check, X, Camera, Loader2, FileArchive, BadgeCheck, Eye, EyeOff } from 'lucide-react';
 
 interface InfoCardProps {
   title: string;
   data: IdentityDoc | null;
   isActive: boolean;
   type: 'AADHAR' | 'PAN';
+  pending?: IdentityDoc; // Proposed values awaiting read-back confirmation
+  otp?: AadhaarOtpState;
+  onEditField?: (field: IdentityField, value: string) => Promise<string[]>; // Resolves to validation errors
+  onScan?: (file: File, shareCode?: string) => Promise<string[]>; // Card photo or offline e-KYC ZIP; resolves to errors
+  strings: UiStrings;
 }
 
-const InfoCard: React.FC<InfoCardProps> = ({ title, data, isActive, type }) => {
+const OTP_BADGE_STYLES: Record<AadhaarOtpState['status'], string> = {
+  NOT_SENT: 'bg-slate-800 text-slate-400 border-slate-700',
+  SENT: 'bg-yellow-500/10 text-yellow-300 border-yellow-500/30',
+  VERIFIED: 'bg-green-500/10 text-green-400 border-green-500/30',
+  LOCKED: 'bg-red-500/10 text-red-400 border-red-500/30'
+};
+
+// A revealed Aadhar number is masked again after this long
+const REVEAL_MS = 10000;
+
+interface EditableFieldProps {
+  value: string;
+  display?: string; // Shown instead of value, e.g. a masked number
+  extra?: React.ReactNode; // Controls shown next to the value
+  valueClass: string;
+  onSave?: (value: string) => Promise<string[]>;
+  strings: UiStrings;
+}
+
+// A saved value that turns into an input when the pencil is clicked
+const EditableField: React.FC<EditableFieldProps> = ({ value, display = value, extra, valueClass, onSave, strings }) => {
+  const [draft, setDraft] = useState<string | null>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  const cancel = () => {
+    setDraft(null);
+    setErrors([]);
+  };
+
+  const save = async () => {
+    if (!onSave || draft === null) return;
+    setSaving(true);
+    const result = await onSave(draft).catch(e => [e instanceof Error ? e.message : String(e)]);
+    setSaving(false);
+    if (result.length) {
+      setErrors(result);
+    } else {
+      cancel();
+    }
+  };
+
+  if (draft === null) {
+    return (
+      <div className="flex items-center gap-2">
+        <p className={valueClass}>{display}</p>
+        {extra}
+        {onSave && (
+          // A masked value is typed afresh rather than revealed in the input
+          <button onClick={() => setDraft(display === value ? value : '')} title={strings.editField} className="opacity-0 group-hover:opacity-100 focus:opacity-100 text-slate-500 hover:text-gov-blue transition-opacity">
+            <Pencil size={12} />
+          </button>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <div className="flex items-center gap-2">
+        <input
+          autoFocus
+          value={draft}
+          disabled={saving}
+          onChange={e => setDraft(e.target.value)}
+          onKeyDown={e => {
+            if (e.key === 'Enter') save();
+            if (e.key === 'Escape') cancel();
+          }}
+          className="flex-1 bg-slate-900 border border-slate-600 rounded px-2 py-1 text-sm font-mono text-slate-100 focus:outline-none focus:border-gov-blue"
+        />
+        <button onClick={save} disabled={saving} title={strings.saveEdit} className="text-green-400 hover:text-green-300 disabled:opacity-50">
+          <Check size={16} />
+        </button>
+        <button onClick={cancel} disabled={saving} title={strings.cancelEdit} className="text-slate-400 hover:text-slate-200 disabled:opacity-50">
+          <X size={16} />
+        </button>
+      </div>
+      {errors.map(error => (
+        <p key={error} className="mt-1 text-xs text-red-400">{error}</p>
+      ))}
+    </div>
+  );
+};
+
+// Camera (on phones) or file upload for a photo of the card. Aadhar also takes
+// the offline e-KYC ZIP, which needs its share code.
+const ScanButton: React.FC<{ onScan: NonNullable<InfoCardProps['onScan']>; offlineKyc: boolean; strings: UiStrings }> = ({ onScan, offlineKyc, strings }) => {
+  const [scanning, setScanning] = useState(false);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [zip, setZip] = useState<File | null>(null);
+  const [shareCode, setShareCode] = useState('');
+
+  const run = async (file: File, code?: string) => {
+    setScanning(true);
+    setErrors([]);
+    const result = await onScan(file, code).catch(err => [err instanceof Error ? err.message : String(err)]);
+    setErrors(result);
+    setScanning(false);
+    if (!result.length) {
+      setZip(null);
+      setShareCode('');
+    }
+  };
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    if (/\.zip$/i.test(file.name)) {
+      setZip(file);
+      setErrors([]);
+    } else {
+      run(file);
+    }
+  };
+
+  return (
+    <div className="mb-4">
+      <div className="flex gap-2">
+        <label className={`flex-1 flex items-center justify-center gap-2 px-3 py-2 rounded-lg border border-dashed text-xs font-semibold transition-colors ${scanning ? 'border-slate-700 text-slate-500 cursor-wait' : 'border-gov-blue/40 text-gov-blue hover:bg-gov-blue/10 cursor-pointer'}`}>
+          {scanning ? <Loader2 size={14} className="animate-spin" /> : <Camera size={14} />}
+          {scanning ? strings.scanningCard : strings.scanCard}
+          <input type="file" accept="image/*" capture="environment" className="hidden" disabled={scanning} onChange={handleFile} />
+        </label>
+        {offlineKyc && (
+          <label title={strings.offlineKycHint} className={`flex items-center gap-2 px-3 py-2 rounded-lg border border-dashed text-xs font-semibold transition-colors ${scanning ? 'border-slate-700 text-slate-500 cursor-wait' : 'border-slate-600 text-slate-400 hover:bg-slate-700/40 cursor-pointer'}`}>
+            <FileArchive size={14} />
+            {strings.offlineKyc}
+            <input type="file" accept=".zip,application/zip" className="hidden" disabled={scanning} onChange={handleFile} />
+          </label>
+        )}
+      </div>
+      {zip && (
+        <form
+          className="mt-2 flex items-center gap-2"
+          onSubmit={e => {
+            e.preventDefault();
+            run(zip, shareCode);
+          }}
+        >
+          <input
+            autoFocus
+            value={shareCode}
+            disabled={scanning}
+            onChange={e => setShareCode(e.target.value)}
+            placeholder={strings.shareCode}
+            className="flex-1 bg-slate-900 border border-slate-600 rounded px-2 py-1 text-sm font-mono text-slate-100 focus:outline-none focus:border-gov-blue"
+          />
+          <button type="submit" disabled={scanning || !shareCode} title={strings.saveEdit} className="text-green-400 hover:text-green-300 disabled:opacity-50">
+            <Check size={16} />
+          </button>
+          <button type="button" disabled={scanning} onClick={() => setZip(null)} title={strings.cancelEdit} className="text-slate-400 hover:text-slate-200 disabled:opacity-50">
+            <X size={16} />
+          </button>
+        </form>
+      )}
+      {errors.map(error => (
+        <p key={error} className="mt-1 text-xs text-red-400">{error}</p>
+      ))}
+    </div>
+  );
+};
+
+const InfoCard: React.FC<InfoCardProps> = ({ title, data, isActive, type, pending, otp, onEditField, onScan, strings }) => {
+  const shown = pending ?? data;
+  const [revealed, setRevealed] = useState(false);
+
+  useEffect(() => {
+    if (!revealed) return;
+    const timer = setTimeout(() => setRevealed(false), REVEAL_MS);
+    return () => clearTimeout(timer);
+  }, [revealed]);
+
+  // Only saved values can be edited; proposals are corrected in conversation
+  const editor = (field: IdentityField) =>
+    onEditField && data && !pending ? (value: string) => onEditField(field, value) : undefined;
+  const valueClass = pending
+    ? 'text-yellow-200 font-medium font-mono border-b border-dashed border-yellow-500/40 w-fit'
+    : 'text-slate-100 font-medium font-mono';
+
   return (
     <div className={`
       relative p-6 rounded-xl transition-all duration-500
@@ -22,6 +209,16 @@ const InfoCard: React.FC<InfoCardProps> = ({ title, data, isActive, type }) => {
            {type === 'AADHAR' ? <User size={20} /> : <ShieldCheck size={20} />}
         </div>
         <h3 className="text-lg font-semibold text-slate-200">{title}</h3>
+        {pending && (
+           <span title={strings.unconfirmedHint} className="flex items-center gap-1 px-2 py-0.5 rounded border border-yellow-500/30 bg-yellow-500/10 text-[10px] uppercase font-bold text-yellow-300">
+             <HelpCircle size={10} /> {strings.unconfirmed}
+           </span>
+        )}
+        {shown?.attestation && (
+           <span title={strings.signedHint(shown.attestation.fields.map(field => field === 'dob' ? strings.dateOfBirth : strings.fullName).join(', '))} className="flex items-center gap-1 px-2 py-0.5 rounded border border-green-500/30 bg-green-500/10 text-[10px] uppercase font-bold text-green-400">
+             <BadgeCheck size={10} /> {strings.signedByUidai}
+           </span>
+        )}
         {isActive && (
            <span className="ml-auto flex h-2.5 w-2.5">
              <span className="animate-ping absolute inline-flex h-2.5 w-2.5 rounded-full bg-gov-blue opacity-75"></span>
@@ -30,31 +227,55 @@ const InfoCard: React.FC<InfoCardProps> = ({ title, data, isActive, type }) => {
         )}
       </div>
 
+      {onScan && <ScanButton onScan={onScan} offlineKyc={type === 'AADHAR'} strings={strings} />}
+
       {/* Content */}
       <div className="space-y-3">
-        {data ? (
+        {shown ? (
           <>
             <div className="group">
-              <label className="text-xs text-slate-500 uppercase tracking-wider">Full Name</label>
-              <p className="text-slate-100 font-medium font-mono">{data.fullName}</p>
+              <label className="text-xs text-slate-500 uppercase tracking-wider">{strings.fullName}</label>
+              <EditableField value={shown.fullName} valueClass={valueClass} onSave={editor('fullName')} strings={strings} />
             </div>
             <div className="group">
                <label className="text-xs text-slate-500 uppercase tracking-wider">
-                 {type === 'AADHAR' ? 'UID Number' : 'PAN Number'}
+                 {type === 'AADHAR' ? strings.uidNumber : strings.panNumber}
                </label>
-               <p className="text-slate-100 font-medium font-mono tracking-wide">{data.number}</p>
+               <EditableField
+                 value={shown.number}
+                 display={displayNumber(type, shown.number, revealed)}
+                 extra={type === 'AADHAR' && (
+                   <button onClick={() => setRevealed(r => !r)} title={revealed ? strings.hideNumber : strings.revealNumber} className="text-slate-500 hover:text-slate-300">
+                     {revealed ? <EyeOff size={12} /> : <Eye size={12} />}
+                   </button>
+                 )}
+                 valueClass={`${valueClass} tracking-wide`}
+                 onSave={editor('number')}
+                 strings={strings}
+               />
             </div>
             <div className="group">
-               <label className="text-xs text-slate-500 uppercase tracking-wider">Date of Birth</label>
-               <p className="text-slate-100 font-medium font-mono">{data.dob}</p>
+               <label className="text-xs text-slate-500 uppercase tracking-wider">{strings.dateOfBirth}</label>
+               <EditableField value={shown.dob} valueClass={valueClass} onSave={editor('dob')} strings={strings} />
             </div>
           </>
         ) : (
           <div className="h-32 flex flex-col items-center justify-center text-slate-500 animate-pulse">
-            <span className="text-sm italic">Waiting for input...</span>
+            <span className="text-sm italic">{strings.waitingForInput}</span>
           </div>
         )}
       </div>
+
+      {/* OTP Status */}
+      {otp && data && (
+        <div className={`mt-4 flex items-center gap-2 px-3 py-2 rounded-lg border text-xs font-semibold ${OTP_BADGE_STYLES[otp.status]}`}>
+          <Smartphone size={14} />
+          {otp.status === 'NOT_SENT' && strings.otpNotSent}
+          {otp.status === 'SENT' && strings.otpSent(otp.maskedMobile, otp.attemptsRemaining)}
+          {otp.status === 'VERIFIED' && strings.otpVerified}
+          {otp.status === 'LOCKED' && strings.otpLocked}
+        </div>
+      )}
       
       {/* Decorative Corner */}
       <div className="absolute bottom-0 right-0 p-4 opacity-10 pointer-events-none">
@@ -0,0 +1,73 @@
+import React, { useEffect, useRef } from 'react';
+import { TranscriptEntry } from '../types';
+import { UiStrings } from '../i18n/strings';
+import { Bot, CheckCircle2, MessageSquare, Scissors, User } from 'lucide-react';
+
+interface TranscriptPanelProps {
+  entries: TranscriptEntry[];
+  strings: UiStrings;
+}
+
+const TranscriptPanel: React.FC<TranscriptPanelProps> = ({ entries, strings }) => {
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  // Keep the latest turn in view
+  useEffect(() => {
+    const el = scrollRef.current;
+    if (el) el.scrollTop = el.scrollHeight;
+  }, [entries]);
+
+  return (
+    <div className="bg-slate-900/50 border border-slate-800 rounded-xl flex flex-col">
+      {/* Header */}
+      <div className="flex items-center gap-2 px-4 py-3 border-b border-slate-800">
+        <MessageSquare size={16} className="text-slate-400" />
+        <p className="text-xs text-slate-500 uppercase font-semibold">{strings.transcriptTitle}</p>
+        <span className="ml-auto text-[10px] text-slate-600 font-mono">{strings.transcriptTurns(entries.length)}</span>
+      </div>
+
+      {/* Turns */}
+      <div ref={scrollRef} className="h-72 overflow-y-auto p-4 space-y-3">
+        {entries.length === 0 && (
+          <p className="text-sm italic text-slate-600 text-center mt-24">{strings.transcriptEmpty}</p>
+        )}
+        {entries.map(entry => {
+          const isUser = entry.role === 'user';
+          const isCapture = entry.capturedFields.length > 0;
+          return (
+            <div key={entry.id} className={`flex gap-2 ${isUser ? 'flex-row-reverse' : ''}`}>
+              <div className={`p-1.5 h-fit rounded-full ${isUser ? 'bg-gov-blue/20 text-gov-blue' : 'bg-slate-800 text-slate-400'}`}>
+                {isUser ? <User size={14} /> : <Bot size={14} />}
+              </div>
+              <div className={`max-w-[75%] px-3 py-2 rounded-lg text-sm border ${
+                isCapture
+                  ? 'bg-green-500/10 border-green-500/40 text-green-100'
+                  : isUser
+                    ? 'bg-gov-blue/10 border-gov-blue/20 text-slate-200'
+                    : 'bg-slate-800/60 border-slate-700 text-slate-300'
+              } ${entry.final ? '' : 'opacity-70'}`}>
+                <p className="font-mono whitespace-pre-wrap break-words">{entry.text || '…'}</p>
+                {entry.interrupted && (
+                  <span className="mt-1 flex items-center gap-1 text-[10px] uppercase font-semibold text-red-400">
+                    <Scissors size={10} /> {strings.cutOff}
+                  </span>
+                )}
+                {isCapture && (
+                  <div className="mt-1 flex flex-wrap gap-1">
+                    {entry.capturedFields.map(field => (
+                      <span key={field} className="flex items-center gap-1 text-[10px] uppercase font-semibold text-green-400">
+                        <CheckCircle2 size={10} /> {field}
+                      </span>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default TranscriptPanel;
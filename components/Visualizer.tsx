@@ -7,15 +7,19 @@ interface VisualizerProps {
   label?: string;
   width?: number;
   height?: number;
+  interruptedAt?: number | null; // Epoch ms of the last barge-in, flashes a cut-off marker
 }
 
+const INTERRUPT_FLASH_MS = 1500;
+
 const Visualizer: React.FC<VisualizerProps> = ({ 
   analyser, 
   color, 
   isMuted = false,
   label,
   width = 300, 
-  height = 100 
+  height = 100,
+  interruptedAt = null
 }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const animationRef = useRef<number>();
@@ -95,6 +99,25 @@ const Visualizer: React.FC<VisualizerProps> = ({
       ctx.lineTo(canvas.width, canvas.height / 2);
       ctx.stroke();
 
+      // Cut-off marker, fading out after a barge-in
+      const sinceInterrupt = interruptedAt ? Date.now() - interruptedAt : Infinity;
+      if (sinceInterrupt < INTERRUPT_FLASH_MS) {
+        const alpha = 1 - sinceInterrupt / INTERRUPT_FLASH_MS;
+        ctx.fillStyle = `rgba(239, 68, 68, ${0.15 * alpha})`; // Red-500
+        ctx.fillRect(0, 0, width, height);
+        ctx.beginPath();
+        ctx.moveTo(width - 2, 0);
+        ctx.lineTo(width - 2, height);
+        ctx.strokeStyle = `rgba(239, 68, 68, ${alpha})`;
+        ctx.lineWidth = 3;
+        ctx.stroke();
+
+        ctx.font = '12px Inter';
+        ctx.fillStyle = `rgba(239, 68, 68, ${alpha})`;
+        ctx.textAlign = 'center';
+        ctx.fillText("INTERRUPTED", width/2, height/2 - 10);
+      }
+
       animationRef.current = requestAnimationFrame(render);
     };
 
@@ -105,7 +128,7 @@ const Visualizer: React.FC<VisualizerProps> = ({
         cancelAnimationFrame(animationRef.current);
       }
     };
-  }, [analyser, color, isMuted, width, height]);
+  }, [analyser, color, isMuted, width, height, interruptedAt]);
 
   return (
     <div className="relative rounded-lg overflow-hidden border border-slate-700 bg-slate-900/50 backdrop-blur-sm shadow-inner">
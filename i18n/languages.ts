@@ -0,0 +1,67 @@
+import { LanguageCode } from '../types';
+
+export interface LanguageConfig {
+  code: LanguageCode;
+  label: string;        // Native name, shown in the selector
+  englishName: string;  // Used inside the (English) system instruction
+  languageCode: string; // BCP-47 tag for speech and the <html lang> attribute
+  voiceName: string;    // Prebuilt Gemini voice
+  greeting: string;     // First thing the assistant says
+  consentStatement: string; // Read out before anything is collected
+}
+
+export const DEFAULT_LANGUAGE: LanguageCode = 'en';
+
+// Bump whenever any consentStatement changes, so recorded consents say which wording was agreed to
+export const CONSENT_STATEMENT_VERSION = 1;
+
+export const LANGUAGES: Record<LanguageCode, LanguageConfig> = {
+  en: {
+    code: 'en',
+    label: 'English',
+    englishName: 'English',
+    languageCode: 'en-IN',
+    voiceName: 'Kore',
+    greeting: "Hello, I am DigiVerifier. I will help you link your documents. Before we begin, I need your consent.",
+    consentStatement: "To verify your identity, DigiVerifier will collect your name, date of birth, Aadhar number and PAN, check them with UIDAI and the Income Tax Department, and use them only to create your DigiLocker account. An audit record of this session will be kept. Do you agree to share these details for this purpose? Please say yes or no."
+  },
+  hi: {
+    code: 'hi',
+    label: 'हिन्दी',
+    englishName: 'Hindi',
+    languageCode: 'hi-IN',
+    voiceName: 'Leda',
+    greeting: "नमस्ते, मैं डिजीवेरिफायर हूँ। मैं आपके दस्तावेज़ लिंक करने में आपकी मदद करूँगी। शुरू करने से पहले मुझे आपकी सहमति चाहिए।",
+    consentStatement: "आपकी पहचान सत्यापित करने के लिए डिजीवेरिफायर आपका नाम, जन्म तिथि, आधार नंबर और पैन लेगा, इन्हें UIDAI और आयकर विभाग से जाँचेगा, और इनका उपयोग केवल आपका डिजीलॉकर खाता बनाने के लिए करेगा। इस सत्र का एक ऑडिट रिकॉर्ड रखा जाएगा। क्या आप इस उद्देश्य के लिए ये विवरण साझा करने के लिए सहमत हैं? कृपया हाँ या ना कहें।"
+  },
+  ta: {
+    code: 'ta',
+    label: 'தமிழ்',
+    englishName: 'Tamil',
+    languageCode: 'ta-IN',
+    voiceName: 'Aoede',
+    greeting: "வணக்கம், நான் டிஜிவெரிஃபையர். உங்கள் ஆவணங்களை இணைக்க நான் உதவுவேன். தொடங்குவதற்கு முன் உங்கள் ஒப்புதல் தேவை.",
+    consentStatement: "உங்கள் அடையாளத்தைச் சரிபார்க்க, டிஜிவெரிஃபையர் உங்கள் பெயர், பிறந்த தேதி, ஆதார் எண் மற்றும் பான் எண்ணைப் பெற்று, அவற்றை UIDAI மற்றும் வருமான வரித் துறையுடன் சரிபார்த்து, உங்கள் டிஜிலாக்கர் கணக்கை உருவாக்க மட்டுமே பயன்படுத்தும். இந்த அமர்வின் தணிக்கைப் பதிவு வைக்கப்படும். இந்த நோக்கத்திற்காக இந்த விவரங்களைப் பகிர நீங்கள் ஒப்புக்கொள்கிறீர்களா? தயவுசெய்து ஆம் அல்லது இல்லை என்று சொல்லுங்கள்."
+  },
+  bn: {
+    code: 'bn',
+    label: 'বাংলা',
+    englishName: 'Bengali',
+    languageCode: 'bn-IN',
+    voiceName: 'Zephyr',
+    greeting: "নমস্কার, আমি ডিজিভেরিফায়ার। আমি আপনার নথিগুলি লিঙ্ক করতে সাহায্য করব। শুরু করার আগে আমার আপনার সম্মতি প্রয়োজন।",
+    consentStatement: "আপনার পরিচয় যাচাই করতে ডিজিভেরিফায়ার আপনার নাম, জন্মতারিখ, আধার নম্বর ও প্যান সংগ্রহ করবে, সেগুলি UIDAI ও আয়কর বিভাগের সাথে মিলিয়ে দেখবে এবং শুধুমাত্র আপনার ডিজিলকার অ্যাকাউন্ট তৈরি করতে ব্যবহার করবে। এই সেশনের একটি অডিট রেকর্ড রাখা হবে। আপনি কি এই উদ্দেশ্যে এই তথ্যগুলি শেয়ার করতে সম্মত? অনুগ্রহ করে হ্যাঁ বা না বলুন।"
+  },
+  mr: {
+    code: 'mr',
+    label: 'मराठी',
+    englishName: 'Marathi',
+    languageCode: 'mr-IN',
+    voiceName: 'Puck',
+    greeting: "नमस्कार, मी डिजीव्हेरिफायर आहे. मी तुम्हाला तुमची कागदपत्रे लिंक करण्यास मदत करेन. सुरुवात करण्यापूर्वी मला तुमची संमती हवी आहे.",
+    consentStatement: "तुमची ओळख पडताळण्यासाठी डिजीव्हेरिफायर तुमचे नाव, जन्मतारीख, आधार क्रमांक आणि पॅन घेईल, ते UIDAI आणि आयकर विभागाकडे तपासेल आणि फक्त तुमचे डिजीलॉकर खाते तयार करण्यासाठी वापरेल. या सत्राची ऑडिट नोंद ठेवली जाईल. या उद्देशासाठी हे तपशील देण्यास तुम्ही सहमत आहात का? कृपया होय किंवा नाही सांगा."
+  }
+};
+
+export const isLanguageCode = (value: unknown): value is LanguageCode =>
+  typeof value === 'string' && Object.hasOwn(LANGUAGES, value);
@@ -0,0 +1,564 @@
+import { AppPhase, ConnectionState, InputMode, LanguageCode, VerificationConfidence, VerificationStatus } from '../types';
+
+// UI copy for App and InfoCard
+export interface UiStrings {
+  subtitle: string;
+  language: string;
+  connection: Record<ConnectionState, string>;
+  selectApiKey: string;
+  startVerification: string;
+  endSession: string;
+  inputModes: Record<InputMode, string>;
+
+  // Notices and errors
+  selectKeyNotice: string;
+  selectKeyFirst: string;
+  tokenUnavailable: string; // The API server could not issue a live session token
+  tooManyConnections: (seconds: number) => string;
+  connectFailed: string;
+  permissionDenied: string;
+  connectionLost: (reason?: string) => string;
+  micFallback: (reason: string) => string;
+
+  // Resume prompt
+  resumeTitle: string;
+  resumeDetails: (step: string, savedAt: string, expiresAt: string) => string;
+  resume: string;
+  startOver: string;
+  resumeExpired: string;
+
+  // Progress and status
+  phases: Record<AppPhase, string>;
+  aadharTitle: string;
+  panTitle: string;
+  crossVerification: string;
+  verificationStatus: Record<VerificationStatus, string>;
+  digilockerAccount: string;
+  digilockerCreated: string;
+  digilockerPending: string;
+
+  // Consent and audit trail
+  consentTitle: string;
+  consentAgree: string;
+  consentDecline: string;
+  consentDeclined: string;
+  exportAudit: string;
+  downloadReport: (format: string) => string;
+
+  // Footer controls
+  typeInstead: string;
+  useMic: string;
+  switchToTyping: string;
+  switchToMic: string;
+  chatPlaceholder: string;
+  userAudio: string;
+  aiResponse: string;
+  output: string;
+
+  // TranscriptPanel
+  transcriptTitle: string;
+  transcriptTurns: (count: number) => string;
+  transcriptEmpty: string;
+  cutOff: string; // A model turn the user talked over
+
+  // InfoCard
+  fullName: string;
+  uidNumber: string;
+  panNumber: string;
+  dateOfBirth: string;
+  waitingForInput: string;
+  unconfirmed: string;
+  unconfirmedHint: string;
+  editField: string;
+  saveEdit: string;
+  cancelEdit: string;
+  scanCard: string;
+  scanningCard: string;
+  offlineKyc: string;
+  offlineKycHint: string;
+  shareCode: string;
+  revealNumber: string;
+  hideNumber: string;
+  signedByUidai: string;
+  signedHint: (fields: string) => string;
+  confidence: Record<VerificationConfidence, string>;
+  otpNotSent: string;
+  otpSent: (maskedMobile: string | null, attemptsRemaining: number) => string;
+  otpVerified: string;
+  otpLocked: string;
+}
+
+const inParens = (reason?: string) => (reason ? ` (${reason})` : '');
+
+export const UI_STRINGS: Record<LanguageCode, UiStrings> = {
+  en: {
+    subtitle: 'Official AI Assistant',
+    language: 'Language',
+    connection: {
+      [ConnectionState.CONNECTING]: 'CONNECTING',
+      [ConnectionState.OPEN]: 'LIVE SECURE LINK',
+      [ConnectionState.RECONNECTING]: 'RECONNECTING',
+      [ConnectionState.CLOSED]: 'DISCONNECTED',
+      [ConnectionState.FAILED]: 'CONNECTION LOST'
+    },
+    selectApiKey: 'Select API Key',
+    startVerification: 'Start Verification',
+    endSession: 'End Session',
+    inputModes: { voice: 'voice', text: 'text' },
+    selectKeyNotice: 'Please select a paid API key to use the Gemini Live features.',
+    selectKeyFirst: 'Please select an API Key first.',
+    tokenUnavailable: 'Could not start a secure session. Please check that the API server is running and try again.',
+    tooManyConnections: seconds => `Too many connection attempts. Please try again in ${seconds} seconds.`,
+    connectFailed: 'Failed to connect.',
+    permissionDenied: 'Permission Denied. Please ensure your API Key has access to Gemini Live.',
+    connectionLost: reason => `Connection lost${inParens(reason)}. Start a new session to continue.`,
+    micFallback: reason => `${reason}. Switched to text chat.`,
+    resumeTitle: 'Resume where you left off?',
+    resumeDetails: (step, savedAt, expiresAt) => `Saved at the ${step} step, ${savedAt}. Expires at ${expiresAt}.`,
+    resume: 'Resume',
+    startOver: 'Start over',
+    resumeExpired: 'Your saved progress has expired, so the verification is starting over.',
+    phases: {
+      [AppPhase.IDLE]: 'Not started',
+      [AppPhase.CONSENT]: 'Consent',
+      [AppPhase.AADHAR]: 'Identity',
+      [AppPhase.AADHAR_OTP]: 'OTP',
+      [AppPhase.PAN]: 'Tax Info',
+      [AppPhase.VERIFY]: 'Verify',
+      [AppPhase.DIGILOCKER]: 'DigiLocker',
+      [AppPhase.COMPLETE]: 'Complete'
+    },
+    aadharTitle: 'Aadhar Details',
+    panTitle: 'PAN Details',
+    crossVerification: 'Cross-Verification',
+    verificationStatus: {
+      [VerificationStatus.PENDING]: 'PENDING',
+      [VerificationStatus.MATCH]: 'MATCH',
+      [VerificationStatus.MISMATCH]: 'MISMATCH'
+    },
+    digilockerAccount: 'DigiLocker Account',
+    digilockerCreated: 'CREATED SUCCESSFULLY',
+    digilockerPending: 'PENDING CREATION',
+    consentTitle: 'Your consent',
+    consentAgree: 'I agree',
+    consentDecline: 'I do not agree',
+    consentDeclined: 'You declined. Nothing has been collected; you can still agree or end the session.',
+    exportAudit: 'Export audit log',
+    downloadReport: format => `Download report (${format})`,
+    typeInstead: 'Type instead',
+    useMic: 'Use mic',
+    switchToTyping: 'Switch to typing',
+    switchToMic: 'Switch to microphone',
+    chatPlaceholder: 'Type your reply...',
+    userAudio: 'User Audio (16kHz)',
+    aiResponse: 'AI Response (24kHz)',
+    output: 'Output',
+    transcriptTitle: 'Live Transcript',
+    transcriptTurns: count => `${count} turns`,
+    transcriptEmpty: 'The conversation will appear here.',
+    cutOff: 'Cut off',
+    fullName: 'Full Name',
+    uidNumber: 'UID Number',
+    panNumber: 'PAN Number',
+    dateOfBirth: 'Date of Birth',
+    waitingForInput: 'Waiting for input...',
+    unconfirmed: 'UNCONFIRMED',
+    unconfirmedHint: 'Read back for you to confirm',
+    editField: 'Edit',
+    saveEdit: 'Save',
+    cancelEdit: 'Cancel',
+    scanCard: 'Scan or upload the card',
+    scanningCard: 'Reading the card…',
+    offlineKyc: 'Offline e-KYC',
+    offlineKycHint: 'Upload the Aadhaar Paperless Offline e-KYC ZIP downloaded from UIDAI',
+    shareCode: 'Share code',
+    revealNumber: 'Show full number',
+    hideNumber: 'Hide number',
+    signedByUidai: 'UIDAI signed',
+    signedHint: fields => `${fields} verified against UIDAI's digital signature`,
+    confidence: {
+      HIGH: 'High confidence: Aadhar details signed by UIDAI',
+      STANDARD: 'Standard confidence'
+    },
+    otpNotSent: 'OTP NOT YET SENT',
+    otpSent: (mobile, attempts) => `OTP SENT TO ${mobile ?? 'REGISTERED MOBILE'} · ${attempts} ATTEMPT(S) LEFT`,
+    otpVerified: 'MOBILE OTP VERIFIED',
+    otpLocked: 'OTP LOCKED AFTER TOO MANY ATTEMPTS'
+  },
+  hi: {
+    subtitle: 'आधिकारिक एआई सहायक',
+    language: 'भाषा',
+    connection: {
+      [ConnectionState.CONNECTING]: 'कनेक्ट हो रहा है',
+      [ConnectionState.OPEN]: 'सुरक्षित लाइव कनेक्शन',
+      [ConnectionState.RECONNECTING]: 'फिर से कनेक्ट हो रहा है',
+      [ConnectionState.CLOSED]: 'डिस्कनेक्टेड',
+      [ConnectionState.FAILED]: 'कनेक्शन टूट गया'
+    },
+    selectApiKey: 'API कुंजी चुनें',
+    startVerification: 'सत्यापन शुरू करें',
+    endSession: 'सत्र समाप्त करें',
+    inputModes: { voice: 'आवाज़', text: 'टाइप' },
+    selectKeyNotice: 'Gemini Live सुविधाओं का उपयोग करने के लिए कृपया एक सशुल्क API कुंजी चुनें।',
+    selectKeyFirst: 'कृपया पहले एक API कुंजी चुनें।',
+    tokenUnavailable: 'सुरक्षित सत्र शुरू नहीं हो सका। कृपया जाँचें कि API सर्वर चल रहा है और फिर से प्रयास करें।',
+    tooManyConnections: seconds => `बहुत अधिक कनेक्शन प्रयास। कृपया ${seconds} सेकंड बाद फिर से प्रयास करें।`,
+    connectFailed: 'कनेक्ट नहीं हो सका।',
+    permissionDenied: 'अनुमति अस्वीकृत। कृपया सुनिश्चित करें कि आपकी API कुंजी को Gemini Live की पहुँच है।',
+    connectionLost: reason => `कनेक्शन टूट गया${inParens(reason)}। जारी रखने के लिए नया सत्र शुरू करें।`,
+    micFallback: reason => `${reason}। टेक्स्ट चैट पर स्विच किया गया।`,
+    resumeTitle: 'जहाँ छोड़ा था वहीं से जारी रखें?',
+    resumeDetails: (step, savedAt, expiresAt) => `"${step}" चरण पर ${savedAt} को सहेजा गया। ${expiresAt} पर समाप्त होगा।`,
+    resume: 'जारी रखें',
+    startOver: 'नए सिरे से शुरू करें',
+    resumeExpired: 'आपकी सहेजी गई प्रगति की समय-सीमा समाप्त हो गई है, इसलिए सत्यापन फिर से शुरू हो रहा है।',
+    phases: {
+      [AppPhase.IDLE]: 'शुरू नहीं हुआ',
+      [AppPhase.CONSENT]: 'सहमति',
+      [AppPhase.AADHAR]: 'पहचान',
+      [AppPhase.AADHAR_OTP]: 'OTP',
+      [AppPhase.PAN]: 'कर जानकारी',
+      [AppPhase.VERIFY]: 'सत्यापन',
+      [AppPhase.DIGILOCKER]: 'डिजीलॉकर',
+      [AppPhase.COMPLETE]: 'पूर्ण'
+    },
+    aadharTitle: 'आधार विवरण',
+    panTitle: 'पैन विवरण',
+    crossVerification: 'मिलान सत्यापन',
+    verificationStatus: {
+      [VerificationStatus.PENDING]: 'लंबित',
+      [VerificationStatus.MATCH]: 'मेल खाता है',
+      [VerificationStatus.MISMATCH]: 'मेल नहीं खाता'
+    },
+    digilockerAccount: 'डिजीलॉकर खाता',
+    digilockerCreated: 'सफलतापूर्वक बनाया गया',
+    digilockerPending: 'बनाया जाना बाकी',
+    consentTitle: 'आपकी सहमति',
+    consentAgree: 'मैं सहमत हूँ',
+    consentDecline: 'मैं सहमत नहीं हूँ',
+    consentDeclined: 'आपने मना किया। कुछ भी एकत्र नहीं किया गया है; आप अब भी सहमति दे सकते हैं या सत्र समाप्त कर सकते हैं।',
+    exportAudit: 'ऑडिट लॉग निर्यात करें',
+    downloadReport: format => `रिपोर्ट डाउनलोड करें (${format})`,
+    typeInstead: 'टाइप करें',
+    useMic: 'माइक इस्तेमाल करें',
+    switchToTyping: 'टाइपिंग पर जाएँ',
+    switchToMic: 'माइक्रोफ़ोन पर जाएँ',
+    chatPlaceholder: 'अपना जवाब टाइप करें...',
+    userAudio: 'आपकी आवाज़ (16kHz)',
+    aiResponse: 'एआई उत्तर (24kHz)',
+    output: 'आउटपुट',
+    transcriptTitle: 'लाइव ट्रांसक्रिप्ट',
+    transcriptTurns: count => `${count} बारी`,
+    transcriptEmpty: 'बातचीत यहाँ दिखाई देगी।',
+    cutOff: 'बीच में कटा',
+    fullName: 'पूरा नाम',
+    uidNumber: 'आधार संख्या',
+    panNumber: 'पैन संख्या',
+    dateOfBirth: 'जन्म तिथि',
+    waitingForInput: 'जानकारी की प्रतीक्षा...',
+    unconfirmed: 'अपुष्ट',
+    unconfirmedHint: 'पढ़कर सुनाया गया, आपकी पुष्टि बाकी है',
+    editField: 'संपादित करें',
+    saveEdit: 'सहेजें',
+    cancelEdit: 'रद्द करें',
+    scanCard: 'कार्ड स्कैन या अपलोड करें',
+    scanningCard: 'कार्ड पढ़ा जा रहा है…',
+    offlineKyc: 'ऑफ़लाइन ई-केवाईसी',
+    offlineKycHint: 'UIDAI से डाउनलोड की गई आधार पेपरलेस ऑफ़लाइन ई-केवाईसी ZIP अपलोड करें',
+    shareCode: 'शेयर कोड',
+    revealNumber: 'पूरा नंबर दिखाएँ',
+    hideNumber: 'नंबर छिपाएँ',
+    signedByUidai: 'UIDAI हस्ताक्षरित',
+    signedHint: fields => `${fields} UIDAI के डिजिटल हस्ताक्षर से सत्यापित`,
+    confidence: {
+      HIGH: 'उच्च विश्वसनीयता: आधार विवरण UIDAI द्वारा हस्ताक्षरित',
+      STANDARD: 'सामान्य विश्वसनीयता'
+    },
+    otpNotSent: 'OTP अभी नहीं भेजा गया',
+    otpSent: (mobile, attempts) => `OTP ${mobile ?? 'पंजीकृत मोबाइल'} पर भेजा गया · ${attempts} प्रयास शेष`,
+    otpVerified: 'मोबाइल OTP सत्यापित',
+    otpLocked: 'बहुत अधिक प्रयासों के बाद OTP लॉक'
+  },
+  ta: {
+    subtitle: 'அதிகாரப்பூர்வ AI உதவியாளர்',
+    language: 'மொழி',
+    connection: {
+      [ConnectionState.CONNECTING]: 'இணைக்கிறது',
+      [ConnectionState.OPEN]: 'பாதுகாப்பான நேரலை இணைப்பு',
+      [ConnectionState.RECONNECTING]: 'மீண்டும் இணைக்கிறது',
+      [ConnectionState.CLOSED]: 'துண்டிக்கப்பட்டது',
+      [ConnectionState.FAILED]: 'இணைப்பு இழந்தது'
+    },
+    selectApiKey: 'API விசையைத் தேர்ந்தெடுக்கவும்',
+    startVerification: 'சரிபார்ப்பைத் தொடங்கு',
+    endSession: 'அமர்வை முடி',
+    inputModes: { voice: 'குரல்', text: 'உரை' },
+    selectKeyNotice: 'Gemini Live அம்சங்களைப் பயன்படுத்த, கட்டணம் செலுத்திய API விசையைத் தேர்ந்தெடுக்கவும்.',
+    selectKeyFirst: 'முதலில் ஒரு API விசையைத் தேர்ந்தெடுக்கவும்.',
+    tokenUnavailable: 'பாதுகாப்பான அமர்வைத் தொடங்க முடியவில்லை. API சேவையகம் இயங்குகிறதா என்று சரிபார்த்து மீண்டும் முயற்சிக்கவும்.',
+    tooManyConnections: seconds => `அதிகமான இணைப்பு முயற்சிகள். ${seconds} விநாடிகளுக்குப் பிறகு மீண்டும் முயற்சிக்கவும்.`,
+    connectFailed: 'இணைக்க முடியவில்லை.',
+    permissionDenied: 'அனுமதி மறுக்கப்பட்டது. உங்கள் API விசைக்கு Gemini Live அணுகல் உள்ளதா என்பதை உறுதிசெய்யவும்.',
+    connectionLost: reason => `இணைப்பு இழந்தது${inParens(reason)}. தொடர புதிய அமர்வைத் தொடங்கவும்.`,
+    micFallback: reason => `${reason}. உரை அரட்டைக்கு மாற்றப்பட்டது.`,
+    resumeTitle: 'நிறுத்திய இடத்திலிருந்து தொடரவா?',
+    resumeDetails: (step, savedAt, expiresAt) => `"${step}" படியில் ${savedAt} மணிக்குச் சேமிக்கப்பட்டது. ${expiresAt} மணிக்குக் காலாவதியாகும்.`,
+    resume: 'தொடர்',
+    startOver: 'புதிதாகத் தொடங்கு',
+    resumeExpired: 'நீங்கள் சேமித்த முன்னேற்றம் காலாவதியானது, எனவே சரிபார்ப்பு மீண்டும் தொடங்குகிறது.',
+    phases: {
+      [AppPhase.IDLE]: 'தொடங்கவில்லை',
+      [AppPhase.CONSENT]: 'ஒப்புதல்',
+      [AppPhase.AADHAR]: 'அடையாளம்',
+      [AppPhase.AADHAR_OTP]: 'OTP',
+      [AppPhase.PAN]: 'வரி தகவல்',
+      [AppPhase.VERIFY]: 'சரிபார்ப்பு',
+      [AppPhase.DIGILOCKER]: 'டிஜிலாக்கர்',
+      [AppPhase.COMPLETE]: 'முடிந்தது'
+    },
+    aadharTitle: 'ஆதார் விவரங்கள்',
+    panTitle: 'பான் விவரங்கள்',
+    crossVerification: 'குறுக்குச் சரிபார்ப்பு',
+    verificationStatus: {
+      [VerificationStatus.PENDING]: 'நிலுவையில்',
+      [VerificationStatus.MATCH]: 'பொருந்துகிறது',
+      [VerificationStatus.MISMATCH]: 'பொருந்தவில்லை'
+    },
+    digilockerAccount: 'டிஜிலாக்கர் கணக்கு',
+    digilockerCreated: 'வெற்றிகரமாக உருவாக்கப்பட்டது',
+    digilockerPending: 'உருவாக்கம் நிலுவையில்',
+    consentTitle: 'உங்கள் ஒப்புதல்',
+    consentAgree: 'நான் ஒப்புக்கொள்கிறேன்',
+    consentDecline: 'நான் ஒப்புக்கொள்ளவில்லை',
+    consentDeclined: 'நீங்கள் மறுத்துவிட்டீர்கள். எதுவும் சேகரிக்கப்படவில்லை; நீங்கள் இன்னும் ஒப்புக்கொள்ளலாம் அல்லது அமர்வை முடிக்கலாம்.',
+    exportAudit: 'தணிக்கைப் பதிவை ஏற்றுமதி செய்',
+    downloadReport: format => `அறிக்கையைப் பதிவிறக்கு (${format})`,
+    typeInstead: 'தட்டச்சு செய்',
+    useMic: 'மைக் பயன்படுத்து',
+    switchToTyping: 'தட்டச்சுக்கு மாறு',
+    switchToMic: 'மைக்ரோஃபோனுக்கு மாறு',
+    chatPlaceholder: 'உங்கள் பதிலைத் தட்டச்சு செய்யவும்...',
+    userAudio: 'உங்கள் குரல் (16kHz)',
+    aiResponse: 'AI பதில் (24kHz)',
+    output: 'வெளியீடு',
+    transcriptTitle: 'நேரடி உரைப்பதிவு',
+    transcriptTurns: count => `${count} உரையாடல்கள்`,
+    transcriptEmpty: 'உரையாடல் இங்கே தோன்றும்.',
+    cutOff: 'இடைமறிக்கப்பட்டது',
+    fullName: 'முழுப் பெயர்',
+    uidNumber: 'ஆதார் எண்',
+    panNumber: 'பான் எண்',
+    dateOfBirth: 'பிறந்த தேதி',
+    waitingForInput: 'உள்ளீட்டுக்குக் காத்திருக்கிறது...',
+    unconfirmed: 'உறுதிப்படுத்தப்படவில்லை',
+    unconfirmedHint: 'வாசித்துக் காட்டப்பட்டது, உங்கள் உறுதிப்படுத்தலுக்குக் காத்திருக்கிறது',
+    editField: 'திருத்து',
+    saveEdit: 'சேமி',
+    cancelEdit: 'ரத்து செய்',
+    scanCard: 'அட்டையை ஸ்கேன் அல்லது பதிவேற்று',
+    scanningCard: 'அட்டை படிக்கப்படுகிறது…',
+    offlineKyc: 'ஆஃப்லைன் இ-கேஒய்சி',
+    offlineKycHint: 'UIDAI-இலிருந்து பதிவிறக்கிய ஆதார் காகிதமற்ற ஆஃப்லைன் இ-கேஒய்சி ZIP-ஐப் பதிவேற்றவும்',
+    shareCode: 'பகிர்வுக் குறியீடு',
+    revealNumber: 'முழு எண்ணைக் காட்டு',
+    hideNumber: 'எண்ணை மறை',
+    signedByUidai: 'UIDAI கையொப்பமிட்டது',
+    signedHint: fields => `${fields} UIDAI டிஜிட்டல் கையொப்பத்துடன் சரிபார்க்கப்பட்டது`,
+    confidence: {
+      HIGH: 'உயர் நம்பகத்தன்மை: ஆதார் விவரங்கள் UIDAI கையொப்பமிட்டவை',
+      STANDARD: 'சாதாரண நம்பகத்தன்மை'
+    },
+    otpNotSent: 'OTP இன்னும் அனுப்பப்படவில்லை',
+    otpSent: (mobile, attempts) => `OTP ${mobile ?? 'பதிவு செய்த மொபைல்'} எண்ணுக்கு அனுப்பப்பட்டது · ${attempts} முயற்சி(கள்) மீதம்`,
+    otpVerified: 'மொபைல் OTP சரிபார்க்கப்பட்டது',
+    otpLocked: 'பல முயற்சிகளுக்குப் பிறகு OTP பூட்டப்பட்டது'
+  },
+  bn: {
+    subtitle: 'অফিসিয়াল এআই সহকারী',
+    language: 'ভাষা',
+    connection: {
+      [ConnectionState.CONNECTING]: 'সংযোগ হচ্ছে',
+      [ConnectionState.OPEN]: 'সুরক্ষিত লাইভ সংযোগ',
+      [ConnectionState.RECONNECTING]: 'পুনরায় সংযোগ হচ্ছে',
+      [ConnectionState.CLOSED]: 'সংযোগ বিচ্ছিন্ন',
+      [ConnectionState.FAILED]: 'সংযোগ হারিয়েছে'
+    },
+    selectApiKey: 'API কী নির্বাচন করুন',
+    startVerification: 'যাচাই শুরু করুন',
+    endSession: 'সেশন শেষ করুন',
+    inputModes: { voice: 'কণ্ঠ', text: 'লেখা' },
+    selectKeyNotice: 'Gemini Live সুবিধাগুলি ব্যবহার করতে অনুগ্রহ করে একটি পেইড API কী নির্বাচন করুন।',
+    selectKeyFirst: 'অনুগ্রহ করে প্রথমে একটি API কী নির্বাচন করুন।',
+    tokenUnavailable: 'নিরাপদ সেশন শুরু করা যায়নি। API সার্ভার চালু আছে কিনা দেখে আবার চেষ্টা করুন।',
+    tooManyConnections: seconds => `অনেক বেশি সংযোগের চেষ্টা। ${seconds} সেকেন্ড পরে আবার চেষ্টা করুন।`,
+    connectFailed: 'সংযোগ করা যায়নি।',
+    permissionDenied: 'অনুমতি প্রত্যাখ্যাত। আপনার API কী-তে Gemini Live-এর অ্যাক্সেস আছে কিনা নিশ্চিত করুন।',
+    connectionLost: reason => `সংযোগ হারিয়েছে${inParens(reason)}। চালিয়ে যেতে একটি নতুন সেশন শুরু করুন।`,
+    micFallback: reason => `${reason}। টেক্সট চ্যাটে বদলানো হয়েছে।`,
+    resumeTitle: 'যেখানে থেমেছিলেন সেখান থেকে চালিয়ে যাবেন?',
+    resumeDetails: (step, savedAt, expiresAt) => `"${step}" ধাপে ${savedAt}-এ সংরক্ষিত। ${expiresAt}-এ মেয়াদ শেষ হবে।`,
+    resume: 'চালিয়ে যান',
+    startOver: 'নতুন করে শুরু করুন',
+    resumeExpired: 'আপনার সংরক্ষিত অগ্রগতির মেয়াদ শেষ হয়ে গেছে, তাই যাচাই আবার শুরু হচ্ছে।',
+    phases: {
+      [AppPhase.IDLE]: 'শুরু হয়নি',
+      [AppPhase.CONSENT]: 'সম্মতি',
+      [AppPhase.AADHAR]: 'পরিচয়',
+      [AppPhase.AADHAR_OTP]: 'OTP',
+      [AppPhase.PAN]: 'কর তথ্য',
+      [AppPhase.VERIFY]: 'যাচাই',
+      [AppPhase.DIGILOCKER]: 'ডিজিলকার',
+      [AppPhase.COMPLETE]: 'সম্পূর্ণ'
+    },
+    aadharTitle: 'আধার বিবরণ',
+    panTitle: 'প্যান বিবরণ',
+    crossVerification: 'ক্রস-যাচাই',
+    verificationStatus: {
+      [VerificationStatus.PENDING]: 'অপেক্ষমাণ',
+      [VerificationStatus.MATCH]: 'মিলেছে',
+      [VerificationStatus.MISMATCH]: 'মেলেনি'
+    },
+    digilockerAccount: 'ডিজিলকার অ্যাকাউন্ট',
+    digilockerCreated: 'সফলভাবে তৈরি হয়েছে',
+    digilockerPending: 'তৈরি হওয়া বাকি',
+    consentTitle: 'আপনার সম্মতি',
+    consentAgree: 'আমি সম্মত',
+    consentDecline: 'আমি সম্মত নই',
+    consentDeclined: 'আপনি অসম্মতি জানিয়েছেন। কিছুই সংগ্রহ করা হয়নি; আপনি এখনও সম্মতি দিতে বা সেশন শেষ করতে পারেন।',
+    exportAudit: 'অডিট লগ এক্সপোর্ট করুন',
+    downloadReport: format => `রিপোর্ট ডাউনলোড করুন (${format})`,
+    typeInstead: 'টাইপ করুন',
+    useMic: 'মাইক ব্যবহার করুন',
+    switchToTyping: 'টাইপিং-এ যান',
+    switchToMic: 'মাইক্রোফোনে যান',
+    chatPlaceholder: 'আপনার উত্তর টাইপ করুন...',
+    userAudio: 'আপনার কণ্ঠ (16kHz)',
+    aiResponse: 'এআই উত্তর (24kHz)',
+    output: 'আউটপুট',
+    transcriptTitle: 'লাইভ ট্রান্সক্রিপ্ট',
+    transcriptTurns: count => `${count}টি পালা`,
+    transcriptEmpty: 'কথোপকথন এখানে দেখা যাবে।',
+    cutOff: 'মাঝপথে থেমেছে',
+    fullName: 'পুরো নাম',
+    uidNumber: 'আধার নম্বর',
+    panNumber: 'প্যান নম্বর',
+    dateOfBirth: 'জন্ম তারিখ',
+    waitingForInput: 'তথ্যের অপেক্ষায়...',
+    unconfirmed: 'নিশ্চিত করা হয়নি',
+    unconfirmedHint: 'পড়ে শোনানো হয়েছে, আপনার নিশ্চিতকরণের অপেক্ষায়',
+    editField: 'সম্পাদনা',
+    saveEdit: 'সংরক্ষণ',
+    cancelEdit: 'বাতিল',
+    scanCard: 'কার্ড স্ক্যান বা আপলোড করুন',
+    scanningCard: 'কার্ড পড়া হচ্ছে…',
+    offlineKyc: 'অফলাইন ই-কেওয়াইসি',
+    offlineKycHint: 'UIDAI থেকে ডাউনলোড করা আধার পেপারলেস অফলাইন ই-কেওয়াইসি ZIP আপলোড করুন',
+    shareCode: 'শেয়ার কোড',
+    revealNumber: 'পুরো নম্বর দেখান',
+    hideNumber: 'নম্বর লুকান',
+    signedByUidai: 'UIDAI স্বাক্ষরিত',
+    signedHint: fields => `${fields} UIDAI-এর ডিজিটাল স্বাক্ষর দিয়ে যাচাই করা হয়েছে`,
+    confidence: {
+      HIGH: 'উচ্চ নির্ভরযোগ্যতা: আধারের বিবরণ UIDAI স্বাক্ষরিত',
+      STANDARD: 'সাধারণ নির্ভরযোগ্যতা'
+    },
+    otpNotSent: 'OTP এখনও পাঠানো হয়নি',
+    otpSent: (mobile, attempts) => `OTP ${mobile ?? 'নথিভুক্ত মোবাইল'}-এ পাঠানো হয়েছে · ${attempts}টি চেষ্টা বাকি`,
+    otpVerified: 'মোবাইল OTP যাচাই হয়েছে',
+    otpLocked: 'অনেকবার চেষ্টার পরে OTP লক হয়েছে'
+  },
+  mr: {
+    subtitle: 'अधिकृत एआय सहाय्यक',
+    language: 'भाषा',
+    connection: {
+      [ConnectionState.CONNECTING]: 'कनेक्ट होत आहे',
+      [ConnectionState.OPEN]: 'सुरक्षित लाइव्ह कनेक्शन',
+      [ConnectionState.RECONNECTING]: 'पुन्हा कनेक्ट होत आहे',
+      [ConnectionState.CLOSED]: 'डिस्कनेक्ट झाले',
+      [ConnectionState.FAILED]: 'कनेक्शन तुटले'
+    },
+    selectApiKey: 'API की निवडा',
+    startVerification: 'पडताळणी सुरू करा',
+    endSession: 'सत्र संपवा',
+    inputModes: { voice: 'आवाज', text: 'मजकूर' },
+    selectKeyNotice: 'Gemini Live सुविधा वापरण्यासाठी कृपया सशुल्क API की निवडा.',
+    selectKeyFirst: 'कृपया आधी API की निवडा.',
+    tokenUnavailable: 'सुरक्षित सत्र सुरू होऊ शकले नाही. API सर्व्हर चालू आहे का ते तपासा आणि पुन्हा प्रयत्न करा.',
+    tooManyConnections: seconds => `खूप जास्त कनेक्शन प्रयत्न. कृपया ${seconds} सेकंदांनी पुन्हा प्रयत्न करा.`,
+    connectFailed: 'कनेक्ट होऊ शकले नाही.',
+    permissionDenied: 'परवानगी नाकारली. तुमच्या API कीला Gemini Live ची परवानगी असल्याची खात्री करा.',
+    connectionLost: reason => `कनेक्शन तुटले${inParens(reason)}. पुढे सुरू ठेवण्यासाठी नवीन सत्र सुरू करा.`,
+    micFallback: reason => `${reason}. मजकूर चॅटवर बदलले.`,
+    resumeTitle: 'जिथे थांबला होता तिथून पुढे सुरू करायचे?',
+    resumeDetails: (step, savedAt, expiresAt) => `"${step}" टप्प्यावर ${savedAt} वाजता जतन केले. ${expiresAt} वाजता कालबाह्य होईल.`,
+    resume: 'पुढे सुरू करा',
+    startOver: 'पुन्हा सुरुवात करा',
+    resumeExpired: 'तुमची जतन केलेली प्रगती कालबाह्य झाली आहे, त्यामुळे पडताळणी पुन्हा सुरू होत आहे.',
+    phases: {
+      [AppPhase.IDLE]: 'सुरू झाले नाही',
+      [AppPhase.CONSENT]: 'संमती',
+      [AppPhase.AADHAR]: 'ओळख',
+      [AppPhase.AADHAR_OTP]: 'OTP',
+      [AppPhase.PAN]: 'कर माहिती',
+      [AppPhase.VERIFY]: 'पडताळणी',
+      [AppPhase.DIGILOCKER]: 'डिजीलॉकर',
+      [AppPhase.COMPLETE]: 'पूर्ण'
+    },
+    aadharTitle: 'आधार तपशील',
+    panTitle: 'पॅन तपशील',
+    crossVerification: 'परस्पर पडताळणी',
+    verificationStatus: {
+      [VerificationStatus.PENDING]: 'प्रलंबित',
+      [VerificationStatus.MATCH]: 'जुळते',
+      [VerificationStatus.MISMATCH]: 'जुळत नाही'
+    },
+    digilockerAccount: 'डिजीलॉकर खाते',
+    digilockerCreated: 'यशस्वीरित्या तयार झाले',
+    digilockerPending: 'तयार होणे बाकी',
+    consentTitle: 'तुमची संमती',
+    consentAgree: 'मी सहमत आहे',
+    consentDecline: 'मी सहमत नाही',
+    consentDeclined: 'तुम्ही नकार दिला. काहीही गोळा केलेले नाही; तुम्ही अजूनही संमती देऊ शकता किंवा सत्र संपवू शकता.',
+    exportAudit: 'ऑडिट लॉग निर्यात करा',
+    downloadReport: format => `अहवाल डाउनलोड करा (${format})`,
+    typeInstead: 'टाइप करा',
+    useMic: 'माइक वापरा',
+    switchToTyping: 'टायपिंगवर जा',
+    switchToMic: 'मायक्रोफोनवर जा',
+    chatPlaceholder: 'तुमचे उत्तर टाइप करा...',
+    userAudio: 'तुमचा आवाज (16kHz)',
+    aiResponse: 'एआय उत्तर (24kHz)',
+    output: 'आउटपुट',
+    transcriptTitle: 'थेट प्रतिलेख',
+    transcriptTurns: count => `${count} फेऱ्या`,
+    transcriptEmpty: 'संभाषण येथे दिसेल.',
+    cutOff: 'मध्येच थांबवले',
+    fullName: 'पूर्ण नाव',
+    uidNumber: 'आधार क्रमांक',
+    panNumber: 'पॅन क्रमांक',
+    dateOfBirth: 'जन्मतारीख',
+    waitingForInput: 'माहितीची प्रतीक्षा...',
+    unconfirmed: 'अपुष्ट',
+    unconfirmedHint: 'वाचून दाखवले, तुमच्या पुष्टीची प्रतीक्षा',
+    editField: 'संपादित करा',
+    saveEdit: 'जतन करा',
+    cancelEdit: 'रद्द करा',
+    scanCard: 'कार्ड स्कॅन किंवा अपलोड करा',
+    scanningCard: 'कार्ड वाचले जात आहे…',
+    offlineKyc: 'ऑफलाइन ई-केवायसी',
+    offlineKycHint: 'UIDAI वरून डाउनलोड केलेली आधार पेपरलेस ऑफलाइन ई-केवायसी ZIP अपलोड करा',
+    shareCode: 'शेअर कोड',
+    revealNumber: 'पूर्ण क्रमांक दाखवा',
+    hideNumber: 'क्रमांक लपवा',
+    signedByUidai: 'UIDAI स्वाक्षरित',
+    signedHint: fields => `${fields} UIDAI च्या डिजिटल स्वाक्षरीने पडताळले`,
+    confidence: {
+      HIGH: 'उच्च विश्वासार्हता: आधार तपशील UIDAI स्वाक्षरित',
+      STANDARD: 'सामान्य विश्वासार्हता'
+    },
+    otpNotSent: 'OTP अजून पाठवला नाही',
+    otpSent: (mobile, attempts) => `OTP ${mobile ?? 'नोंदणीकृत मोबाइल'} वर पाठवला · ${attempts} प्रयत्न बाकी`,
+    otpVerified: 'मोबाइल OTP पडताळला',
+    otpLocked: 'अनेक प्रयत्नांनंतर OTP लॉक झाला'
+  }
+};
@@ -0,0 +1,110 @@
+import { createServer } from 'node:http';
+import { existsSync } from 'node:fs';
+import { LiveToken, VerificationBackend } from '../types';
+import { HttpVerificationBackend } from '../services/backend/httpBackend';
+import { MockVerificationBackend } from '../services/backend/mockBackend';
+import { handleBackendRequest, sendJson } from './backendRoutes';
+import { createLiveTokenMinter } from './liveTokens';
+import { RateLimiter, clientId } from './rateLimiter';
+import { createSessionRoutes, loadSigningKey } from './sessionRoutes';
+
+// The app's server side: holds the Gemini API key, hands the browser
+// short-lived live tokens, runs the stateful tools of each verification and
+// signs their results, and serves the verification backend routes.
+//
+//   npm run api-server                        # GEMINI_API_KEY from .env.local
+//   API_PORT=8787 ALLOWED_ORIGINS=https://verify.example.gov.in npm run api-server
+//
+// VERIFICATION_UPSTREAM_URL forwards the backend routes to a provider gateway;
+// without it they are answered by the mock backend. Set TRUST_PROXY=1 behind a
+// reverse proxy so clients are told apart by X-Forwarded-For. RESULT_SIGNING_KEY
+// is the private JWK that signs tool results and attestations. Requests are
+// not logged unless LOG_REQUESTS=1.
+//
+// With SESSION_API_URL set (the same .env.local the app is built from), the
+// browser never calls the backend routes, so they are not served: only the
+// session routes may reach the verification providers.
+
+if (existsSync('.env.local')) process.loadEnvFile('.env.local');
+
+const PORT = Number(process.env.API_PORT || 8787);
+const API_KEY = process.env.GEMINI_API_KEY;
+const ALLOWED_ORIGINS = (process.env.ALLOWED_ORIGINS || '').split(',').map(origin => origin.trim()).filter(Boolean);
+const TRUST_PROXY = process.env.TRUST_PROXY === '1';
+const LOG_REQUESTS = process.env.LOG_REQUESTS === '1';
+const SESSION_MODE = Boolean(process.env.SESSION_API_URL);
+const MINUTE_MS = 60_000;
+
+if (!API_KEY) {
+  console.error('GEMINI_API_KEY is missing. Set it in .env.local or the environment.');
+  process.exit(1);
+}
+
+const mintToken = createLiveTokenMinter(API_KEY);
+const backend: VerificationBackend = process.env.VERIFICATION_UPSTREAM_URL
+  ? new HttpVerificationBackend(process.env.VERIFICATION_UPSTREAM_URL)
+  : new MockVerificationBackend();
+const handleSessionRequest = createSessionRoutes(backend, await loadSigningKey(process.env.RESULT_SIGNING_KEY));
+
+// Per client, per minute. A verification needs one token per connection and a
+// handful of backend calls; reconnects take a new token each time.
+const tokenLimiter = new RateLimiter(Number(process.env.TOKEN_RATE_LIMIT || 10), MINUTE_MS);
+const backendLimiter = new RateLimiter(Number(process.env.BACKEND_RATE_LIMIT || 60), MINUTE_MS);
+
+const server = createServer(async (req, res) => {
+  // Same-origin requests (through the Vite proxy or a reverse proxy) need no CORS
+  const origin = req.headers.origin;
+  if (origin && ALLOWED_ORIGINS.includes(origin)) {
+    res.setHeader('Access-Control-Allow-Origin', origin);
+    res.setHeader('Vary', 'Origin');
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+    res.setHeader('Access-Control-Expose-Headers', 'Retry-After');
+  }
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204);
+    res.end();
+    return;
+  }
+
+  const path = new URL(req.url || '/', 'http://localhost').pathname;
+  const client = clientId(req, TRUST_PROXY);
+  if (LOG_REQUESTS) console.log(`${req.method} ${path} (${client})`);
+
+  if (req.method === 'GET' && path === '/health') {
+    sendJson(res, 200, { status: 'ok' });
+    return;
+  }
+
+  const limiter = path === '/live/token' ? tokenLimiter : backendLimiter;
+  const decision = limiter.take(client);
+  if (!decision.allowed) {
+    res.setHeader('Retry-After', String(decision.retryAfterSeconds));
+    sendJson(res, 429, { error: `Too many requests. Try again in ${decision.retryAfterSeconds}s.` });
+    return;
+  }
+
+  if (path === '/live/token' && req.method === 'POST') {
+    let token: LiveToken;
+    try {
+      token = await mintToken();
+    } catch (e) {
+      console.error('Could not create a live token:', (e as Error).message);
+      sendJson(res, 502, { error: 'Could not create a live session token.' });
+      return;
+    }
+    res.setHeader('Cache-Control', 'no-store');
+    sendJson(res, 200, token);
+    return;
+  }
+
+  if (await handleSessionRequest(req, res, path)) return;
+  if (!SESSION_MODE && await handleBackendRequest(backend, req, res, path)) return;
+
+  sendJson(res, 404, { error: `No route for ${req.method} ${path}` });
+});
+
+server.listen(PORT, () => {
+  console.log(`API server listening on http://localhost:${PORT}`);
+  if (SESSION_MODE) console.log('SESSION_API_URL is set; the backend routes are not served.');
+});
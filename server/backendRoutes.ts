@@ -0,0 +1,119 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { VerificationBackend } from '../types';
+import { BackendError } from '../services/backend';
+import { PIN_HASH_ALGORITHM } from '../utils/pinSecurity';
+
+// A request this server refuses as sent; its message is safe to return
+export class RequestError extends BackendError {
+  constructor(message: string, status = 400) {
+    super(status, message);
+    this.name = 'RequestError';
+  }
+}
+
+export const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+export const readJson = (req: IncomingMessage, limitBytes = 64 * 1024): Promise<unknown> =>
+  new Promise((resolve, reject) => {
+    let size = 0;
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > limitBytes) {
+        reject(new RequestError('Request body too large', 413));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      try {
+        resolve(chunks.length ? JSON.parse(Buffer.concat(chunks).toString('utf8')) : {});
+      } catch {
+        reject(new RequestError('Invalid JSON body'));
+      }
+    });
+    req.on('error', reject);
+  });
+
+export const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const requireStrings = (body: Record<string, unknown>, fields: string[]): string | null => {
+  const missing = fields.filter(f => typeof body[f] !== 'string' || !body[f]);
+  return missing.length ? `Missing field(s): ${missing.join(', ')}` : null;
+};
+
+// Serves the VerificationBackend contract over HTTP. Returns false when the
+// path is not a backend route so callers can fall through to other handlers.
+export const handleBackendRequest = async (
+  backend: VerificationBackend,
+  req: IncomingMessage,
+  res: ServerResponse,
+  path: string
+): Promise<boolean> => {
+  if (req.method !== 'POST') return false;
+
+  // Each route's fields are checked to be non-empty strings before run sees them
+  const routes: Record<string, { fields: string[]; run: (body: Record<string, unknown>) => Promise<unknown> }> = {
+    '/aadhaar/otp': {
+      fields: ['aadhaarNumber'],
+      run: body => backend.requestAadhaarOtp(body.aadhaarNumber as string)
+    },
+    '/aadhaar/otp/verify': {
+      fields: ['txnId', 'otp'],
+      run: body => backend.verifyAadhaarOtp(body.txnId as string, body.otp as string)
+    },
+    '/pan/verify': {
+      fields: ['panNumber', 'fullName', 'dob'],
+      run: body => backend.verifyPan(
+        body.panNumber as string,
+        body.fullName as string,
+        body.dob as string,
+        typeof body.aadhaarNumber === 'string' ? body.aadhaarNumber : undefined
+      )
+    },
+    '/digilocker/accounts': {
+      fields: ['aadhaarNumber', 'panNumber'],
+      run: body => {
+        const { pinHash } = body;
+        if (
+          !isObject(pinHash) || pinHash.algorithm !== PIN_HASH_ALGORITHM || !Number.isInteger(pinHash.iterations) ||
+          typeof pinHash.hash !== 'string' || typeof pinHash.salt !== 'string'
+        ) {
+          throw new RequestError('Missing field(s): pinHash');
+        }
+        return backend.createDigilockerAccount({
+          aadhaarNumber: body.aadhaarNumber as string,
+          panNumber: body.panNumber as string,
+          pinHash: { algorithm: PIN_HASH_ALGORITHM, iterations: pinHash.iterations as number, salt: pinHash.salt, hash: pinHash.hash }
+        });
+      }
+    }
+  };
+
+  const route = routes[path];
+  if (!route) return false;
+
+  try {
+    const body = await readJson(req);
+    if (!isObject(body)) throw new RequestError('The request body must be a JSON object');
+    const problem = requireStrings(body, route.fields);
+    if (problem) {
+      sendJson(res, 400, { error: problem });
+      return true;
+    }
+    sendJson(res, 200, await route.run(body));
+  } catch (e) {
+    if (e instanceof BackendError && e.status >= 400 && e.status < 500) {
+      sendJson(res, e.status, { error: e.message });
+    } else {
+      console.error(`${path} failed:`, e);
+      sendJson(res, 500, { error: 'Internal server error' });
+    }
+  }
+  return true;
+};
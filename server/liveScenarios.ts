@@ -0,0 +1,65 @@
+import { createServer } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { MockVerificationBackend } from '../services/backend/mockBackend';
+import { SCENARIOS } from '../services/live/scenarios';
+import { LiveLogger } from '../services/geminiLiveService';
+import { Scenario, runScenario } from '../services/live/scriptedServer';
+import { RemoteToolExecutor } from '../services/session';
+import { createSessionRoutes, loadSigningKey } from './sessionRoutes';
+
+// Replays the scripted conversations against GeminiLiveService, no network needed.
+// Scenarios with a sessionServer get the session routes on a local port.
+//
+//   npm run live-scenarios                   # every scenario
+//   npm run live-scenarios -- happy-path     # just the named ones
+//   VERBOSE=1 npm run live-scenarios         # show the service's progress logging too
+
+const names = process.argv.slice(2);
+const selected = names.length ? SCENARIOS.filter(s => names.includes(s.name)) : SCENARIOS;
+const unknown = names.filter(name => !SCENARIOS.some(s => s.name === name));
+if (unknown.length) {
+  console.error(`Unknown scenario(s): ${unknown.join(', ')}. Available: ${SCENARIOS.map(s => s.name).join(', ')}`);
+  process.exit(2);
+}
+
+// The service narrates every connection and tool call; errors are printed either way
+const logger: LiveLogger = process.env.VERBOSE ? console : { log: () => {}, warn: () => {} };
+
+const signingKey = await loadSigningKey();
+
+// Session routes for one scenario, altering the results it asks to tamper with
+const startSessionServer = async (scenario: Scenario) => {
+  const handleSessionRequest = createSessionRoutes(new MockVerificationBackend({ ...scenario.fixtures, latencyMs: 0 }), signingKey);
+  const tamper = scenario.sessionServer?.tamper;
+  const server = createServer(async (req, res) => {
+    if (tamper) {
+      const end = res.end.bind(res);
+      res.end = ((body: string) => {
+        const result = JSON.parse(body);
+        if (result.tool === tamper.tool) result.response = { ...result.response, ...tamper.response };
+        return end(JSON.stringify(result));
+      }) as typeof res.end;
+    }
+    const path = new URL(req.url || '/', 'http://localhost').pathname;
+    if (!await handleSessionRequest(req, res, path)) {
+      res.writeHead(404);
+      res.end('{}');
+    }
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  return { url: `http://127.0.0.1:${(server.address() as AddressInfo).port}`, close: () => server.close() };
+};
+
+let failed = 0;
+for (const scenario of selected) {
+  const sessionServer = scenario.sessionServer ? await startSessionServer(scenario) : null;
+  const executor = sessionServer ? new RemoteToolExecutor(sessionServer.url) : undefined;
+  const result = await runScenario(scenario, { executor, logger });
+  sessionServer?.close();
+  console.log(`${result.passed ? 'PASS' : 'FAIL'}  ${scenario.name} (${result.stepsRun}/${scenario.steps.length} steps) - ${scenario.description}`);
+  result.failures.forEach(failure => console.log(`      ${failure}`));
+  if (!result.passed) failed++;
+}
+
+console.log(`\n${selected.length - failed} passed, ${failed} failed`);
+process.exit(failed ? 1 : 0);
@@ -0,0 +1,32 @@
+import { GoogleGenAI } from '@google/genai';
+import { LiveToken } from '../types';
+import { LIVE_API_VERSION, LIVE_MODEL } from '../services/live/geminiTransport';
+
+export interface LiveTokenOptions {
+  sessionMinutes: number; // How long a session opened with the token may run
+  connectSeconds: number; // How long the browser has to open the session
+}
+
+export const DEFAULT_TOKEN_OPTIONS: LiveTokenOptions = { sessionMinutes: 30, connectSeconds: 60 };
+
+// Mints single-use tokens that only open live sessions with the app's model.
+// The API key stays in this process.
+export const createLiveTokenMinter = (apiKey: string, options: LiveTokenOptions = DEFAULT_TOKEN_OPTIONS) => {
+  const client = new GoogleGenAI({ apiKey, httpOptions: { apiVersion: LIVE_API_VERSION } });
+
+  return async (): Promise<LiveToken> => {
+    const now = Date.now();
+    const expiresAt = new Date(now + options.sessionMinutes * 60_000).toISOString();
+    const newSessionExpiresAt = new Date(now + options.connectSeconds * 1000).toISOString();
+    const token = await client.authTokens.create({
+      config: {
+        uses: 1,
+        expireTime: expiresAt,
+        newSessionExpireTime: newSessionExpiresAt,
+        liveConnectConstraints: { model: LIVE_MODEL }
+      }
+    });
+    if (!token.name) throw new Error('The token service returned no token.');
+    return { token: token.name, expiresAt, newSessionExpiresAt };
+  };
+};
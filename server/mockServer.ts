@@ -0,0 +1,62 @@
+import { createServer } from 'node:http';
+import { readFileSync } from 'node:fs';
+import { MockFixtures, MockVerificationBackend } from '../services/backend/mockBackend';
+import { RequestError, handleBackendRequest, isObject, readJson, sendJson } from './backendRoutes';
+
+// Local mock of UIDAI e-KYC, NSDL PAN verification and DigiLocker.
+//
+//   npm run mock-server                      # fixtures from server/fixtures.json
+//   MOCK_FIXTURES=my.json MOCK_PORT=4010 npm run mock-server
+//
+// GET/PUT /__fixtures reads or patches the fixtures while the server runs.
+
+const PORT = Number(process.env.MOCK_PORT || 4010);
+const FIXTURES_PATH = process.env.MOCK_FIXTURES || new URL('./fixtures.json', import.meta.url);
+
+const loadFixtures = (): Partial<MockFixtures> => {
+  try {
+    return JSON.parse(readFileSync(FIXTURES_PATH, 'utf8'));
+  } catch (e) {
+    console.warn(`Could not read fixtures (${(e as Error).message}); using defaults.`);
+    return {};
+  }
+};
+
+const backend = new MockVerificationBackend(loadFixtures());
+
+const server = createServer(async (req, res) => {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PUT, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204);
+    res.end();
+    return;
+  }
+
+  const path = new URL(req.url || '/', 'http://localhost').pathname;
+  console.log(`${req.method} ${path}`);
+
+  if (path === '/__fixtures') {
+    if (req.method === 'PUT') {
+      try {
+        const fixtures = await readJson(req);
+        if (!isObject(fixtures)) throw new RequestError('The fixtures must be a JSON object');
+        backend.setFixtures(fixtures);
+      } catch (e) {
+        sendJson(res, 400, { error: (e as Error).message });
+        return;
+      }
+    }
+    sendJson(res, 200, backend.getFixtures());
+    return;
+  }
+
+  if (await handleBackendRequest(backend, req, res, path)) return;
+
+  sendJson(res, 404, { error: `No route for ${req.method} ${path}` });
+});
+
+server.listen(PORT, () => {
+  console.log(`Mock verification backend listening on http://localhost:${PORT}`);
+});
@@ -0,0 +1,49 @@
+import type { IncomingMessage } from 'node:http';
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  remaining: number;
+  retryAfterSeconds: number; // 0 when allowed
+}
+
+// Fixed-window limit per client: at most `limit` requests every `windowMs`
+export class RateLimiter {
+  private windows = new Map<string, { startedAt: number; count: number }>();
+  private prunedAt = 0;
+
+  constructor(private limit: number, private windowMs: number) {}
+
+  take(client: string, now = Date.now()): RateLimitDecision {
+    this.prune(now);
+    let window = this.windows.get(client);
+    if (!window || now - window.startedAt >= this.windowMs) {
+      window = { startedAt: now, count: 0 };
+      this.windows.set(client, window);
+    }
+
+    if (window.count >= this.limit) {
+      return { allowed: false, remaining: 0, retryAfterSeconds: Math.ceil((window.startedAt + this.windowMs - now) / 1000) };
+    }
+    window.count++;
+    return { allowed: true, remaining: this.limit - window.count, retryAfterSeconds: 0 };
+  }
+
+  // Forgets clients whose window has ended, so the map does not grow forever
+  private prune(now: number) {
+    if (now - this.prunedAt < this.windowMs) return;
+    this.prunedAt = now;
+    for (const [client, window] of this.windows) {
+      if (now - window.startedAt >= this.windowMs) this.windows.delete(client);
+    }
+  }
+}
+
+// The client's address. X-Forwarded-For is only trusted behind a known proxy,
+// otherwise anyone could pick a fresh identity for every request.
+export const clientId = (req: IncomingMessage, trustProxy: boolean): string => {
+  const forwarded = req.headers['x-forwarded-for'];
+  if (trustProxy && forwarded) {
+    return (Array.isArray(forwarded) ? forwarded[0] : forwarded).split(',')[0].trim();
+  }
+  return req.socket.remoteAddress || 'unknown';
+};
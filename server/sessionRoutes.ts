@@ -0,0 +1,148 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { randomBytes, timingSafeEqual } from 'node:crypto';
+import { ConsentMethod, SessionStateEnvelope, StatefulToolCall, StatefulToolResult, VerificationAttestation, VerificationBackend } from '../types';
+import { isLanguageCode } from '../i18n/languages';
+import { BackendError } from '../services/backend';
+import { PhaseTransitionError } from '../services/phaseMachine';
+import { SIGNING_ALGORITHM, signObject, signingKeyId } from '../services/session/signing';
+import { VerificationSession } from '../services/session/verificationSession';
+import { RequestError, isObject, readJson, sendJson } from './backendRoutes';
+
+export interface SessionRouteOptions {
+  idleMinutes: number; // Sessions untouched for this long are dropped
+}
+
+export const DEFAULT_SESSION_OPTIONS: SessionRouteOptions = { idleMinutes: 30 };
+
+export interface SigningKey {
+  keyId: string;
+  privateKey: CryptoKey;
+  publicKey: JsonWebKey;
+}
+
+// RESULT_SIGNING_KEY holds a private P-256 JWK. Without one a key is made for
+// this process only, and results signed before a restart no longer verify.
+export const loadSigningKey = async (privateJwk?: string): Promise<SigningKey> => {
+  let jwk: JsonWebKey;
+  if (privateJwk) {
+    jwk = JSON.parse(privateJwk);
+  } else {
+    console.warn('RESULT_SIGNING_KEY is not set; signing results with a temporary key.');
+    const pair = await crypto.subtle.generateKey(SIGNING_ALGORITHM, true, ['sign', 'verify']);
+    jwk = await crypto.subtle.exportKey('jwk', pair.privateKey);
+  }
+  const publicKey: JsonWebKey = { kty: jwk.kty, crv: jwk.crv, x: jwk.x, y: jwk.y };
+  const privateKey = await crypto.subtle.importKey('jwk', jwk, SIGNING_ALGORITHM, false, ['sign']);
+  return { keyId: await signingKeyId(publicKey), privateKey, publicKey };
+};
+
+const CONSENT_METHODS: ConsentMethod[] = ['VOICE', 'CLICK'];
+
+// Whether the request carries the session's bearer token
+const hasToken = (req: IncomingMessage, token: string): boolean => {
+  const presented = Buffer.from(/^Bearer (.+)$/.exec(req.headers.authorization ?? '')?.[1] ?? '');
+  const expected = Buffer.from(token);
+  return presented.length === expected.length && timingSafeEqual(presented, expected);
+};
+
+// Holds each verification's state and runs its stateful tools, so the browser
+// only ever shows results this server signed. Creating a session returns a
+// bearer token that every later call for it must present. Returns a handler
+// that answers false when the path is not a session route.
+export const createSessionRoutes = (backend: VerificationBackend, key: SigningKey, options: SessionRouteOptions = DEFAULT_SESSION_OPTIONS) => {
+  const sessions = new Map<string, { session: VerificationSession; token: string; lastUsed: number }>();
+  const idleMs = options.idleMinutes * 60_000;
+
+  const prune = (now: number) => {
+    for (const [id, entry] of sessions) {
+      if (now - entry.lastUsed > idleMs) sessions.delete(id);
+    }
+  };
+
+  const opened = async (session: VerificationSession) => ({
+    publicKey: key.publicKey,
+    envelope: await signObject<SessionStateEnvelope>(session.envelope(), key.privateKey, key.keyId)
+  });
+
+  const runTool = async (session: VerificationSession, body: Record<string, unknown>): Promise<StatefulToolResult> => {
+    const call: StatefulToolCall = {
+      tool: body.tool as StatefulToolCall['tool'],
+      args: isObject(body.args) ? body.args : {},
+      pending: isObject(body.pending) ? body.pending as unknown as StatefulToolCall['pending'] : undefined,
+      consentMethod: CONSENT_METHODS.includes(body.consentMethod as ConsentMethod) ? body.consentMethod as ConsentMethod : undefined
+    };
+    const result = await session.execute(call);
+    const attestationBody = result.tool === 'createDigilocker' ? session.attestationBody() : null;
+    const attestation = attestationBody && await signObject<VerificationAttestation>(attestationBody, key.privateKey, key.keyId);
+    return signObject<StatefulToolResult>({ ...result, attestation }, key.privateKey, key.keyId);
+  };
+
+  return async (req: IncomingMessage, res: ServerResponse, path: string): Promise<boolean> => {
+    if (req.method === 'GET' && path === '/signing-key') {
+      sendJson(res, 200, { keyId: key.keyId, publicKey: key.publicKey });
+      return true;
+    }
+
+    const match = /^\/sessions(?:\/([^/]+)(\/tools)?)?$/.exec(path);
+    if (!match) return false;
+    const [, id, tools] = match;
+    const now = Date.now();
+    prune(now);
+    res.setHeader('Cache-Control', 'no-store');
+
+    try {
+      if (!id && req.method === 'POST') {
+        const body = await readJson(req);
+        if (!isObject(body) || !isLanguageCode(body.language)) {
+          sendJson(res, 400, { error: 'language must be a supported language code' });
+          return true;
+        }
+        const session = new VerificationSession(backend, body.language, { trustAttestations: false });
+        const token = randomBytes(32).toString('base64url');
+        sessions.set(session.sessionId, { session, token, lastUsed: now });
+        sendJson(res, 201, { ...await opened(session), token });
+        return true;
+      }
+
+      const entry = id ? sessions.get(decodeURIComponent(id)) : undefined;
+      if (!entry) {
+        sendJson(res, 404, { error: 'Unknown or expired verification session' });
+        return true;
+      }
+      if (!hasToken(req, entry.token)) {
+        sendJson(res, 401, { error: 'Missing or wrong session token' });
+        return true;
+      }
+      entry.lastUsed = now;
+
+      if (!tools && req.method === 'GET') {
+        sendJson(res, 200, await opened(entry.session));
+        return true;
+      }
+      if (tools && req.method === 'POST') {
+        const body = await readJson(req);
+        if (!isObject(body) || typeof body.tool !== 'string') {
+          sendJson(res, 400, { error: 'Missing field(s): tool' });
+          return true;
+        }
+        sendJson(res, 200, await runTool(entry.session, body));
+        return true;
+      }
+    } catch (e) {
+      if (e instanceof RequestError) {
+        sendJson(res, e.status, { error: e.message });
+      } else if (e instanceof PhaseTransitionError) {
+        sendJson(res, 409, { error: e.message });
+      } else if (e instanceof BackendError) {
+        // The verification providers failing is not the caller's fault
+        console.error('Verification backend failed:', e.message);
+        sendJson(res, 503, { error: 'The verification service is unavailable.' });
+      } else {
+        console.error(`${req.method} ${path} failed:`, e);
+        sendJson(res, 500, { error: 'Internal server error' });
+      }
+      return true;
+    }
+    return false;
+  };
+};
@@ -0,0 +1,161 @@
+import {
+  AadhaarOtpRequestStatus,
+  AadhaarOtpState,
+  OtpVerificationStatus,
+  VerificationBackend
+} from '../types';
+
+export const MAX_OTP_ATTEMPTS = 3;
+export const MAX_OTP_REQUESTS = 3;
+
+export const INITIAL_OTP_STATE: AadhaarOtpState = {
+  status: 'NOT_SENT',
+  maskedMobile: null,
+  expiresAt: null,
+  attemptsRemaining: MAX_OTP_ATTEMPTS,
+  requestsUsed: 0
+};
+
+export const otpLockedResponse = () => ({
+  error: 'OTP_LOCKED',
+  instruction: 'Aadhaar OTP verification is locked after too many failed attempts. Apologise, tell the user to try again later, and end the conversation.'
+});
+
+export interface OtpStepResult {
+  verified: boolean;
+  response: Record<string, unknown>;
+}
+
+// Drives the OTP challenge for one Aadhaar number: sending, resending,
+// expiry and lockout after MAX_OTP_ATTEMPTS wrong entries.
+export class AadhaarOtpFlow {
+  private txnId: string | null = null;
+  private state: AadhaarOtpState = { ...INITIAL_OTP_STATE };
+
+  constructor(
+    private backend: VerificationBackend,
+    private aadhaarNumber: string,
+    private onChange: (state: AadhaarOtpState) => void
+  ) {}
+
+  get current(): AadhaarOtpState {
+    return this.state;
+  }
+
+  // Re-applies a checkpointed state. The transaction id is not persisted, so a
+  // pending OTP must be requested again; failed attempts and sends still count.
+  restore(saved: AadhaarOtpState) {
+    const counted = { ...saved, requestsUsed: saved.requestsUsed ?? 0 };
+    this.update(saved.status === 'SENT'
+      ? { ...counted, status: 'NOT_SENT', maskedMobile: null, expiresAt: null }
+      : counted);
+  }
+
+  private update(patch: Partial<AadhaarOtpState>) {
+    this.state = { ...this.state, ...patch };
+    this.onChange(this.state);
+  }
+
+  async request(): Promise<OtpStepResult> {
+    if (this.state.status === 'LOCKED') return { verified: false, response: otpLockedResponse() };
+    if (this.state.status === 'VERIFIED') return { verified: true, response: { status: 'ALREADY_VERIFIED' } };
+
+    if (this.state.requestsUsed >= MAX_OTP_REQUESTS) {
+      this.update({ status: 'LOCKED', attemptsRemaining: 0 });
+      return { verified: false, response: otpLockedResponse() };
+    }
+    this.update({ requestsUsed: this.state.requestsUsed + 1 });
+
+    const result = await this.backend.requestAadhaarOtp(this.aadhaarNumber);
+    if (result.status !== AadhaarOtpRequestStatus.SENT || !result.txnId) {
+      return {
+        verified: false,
+        response: {
+          error: `OTP_${result.status}`,
+          reasons: [result.message],
+          instruction: result.status === AadhaarOtpRequestStatus.INVALID_AADHAAR
+            ? "Explain the problem and call 'reenterDocument' with document='AADHAR' to collect the Aadhar details again."
+            : 'Explain the problem. Verification cannot continue with this Aadhar number.'
+        }
+      };
+    }
+
+    // Failed attempts carry over across resends so resending cannot dodge the lockout
+    this.txnId = result.txnId;
+    this.update({
+      status: 'SENT',
+      maskedMobile: result.maskedMobile ?? null,
+      expiresAt: result.expiresAt ?? null
+    });
+
+    return {
+      verified: false,
+      response: {
+        status: 'OTP_SENT',
+        maskedMobile: result.maskedMobile,
+        expiresAt: result.expiresAt,
+        attemptsRemaining: this.state.attemptsRemaining,
+        resendsRemaining: MAX_OTP_REQUESTS - this.state.requestsUsed,
+        instruction: 'Tell the user an OTP was sent to their registered mobile and ask them to read out the 6 digits.'
+      }
+    };
+  }
+
+  async submit(rawOtp: string): Promise<OtpStepResult> {
+    if (this.state.status === 'LOCKED') return { verified: false, response: otpLockedResponse() };
+    if (!this.txnId || this.state.status !== 'SENT') {
+      return {
+        verified: false,
+        response: { error: 'OTP_NOT_SENT', instruction: "Call 'requestAadhaarOtp' first." }
+      };
+    }
+
+    // Malformed input never reaches the backend or costs an attempt
+    const otp = rawOtp.replace(/\D/g, '');
+    if (otp.length !== 6) {
+      return {
+        verified: false,
+        response: { error: 'OTP_FORMAT', reasons: [`Expected 6 digits, heard ${otp.length}.`], instruction: 'Ask the user to repeat the 6-digit OTP.' }
+      };
+    }
+
+    if (this.state.expiresAt && Date.now() > Date.parse(this.state.expiresAt)) {
+      this.txnId = null;
+      this.update({ status: 'NOT_SENT', expiresAt: null });
+      return {
+        verified: false,
+        response: { error: 'OTP_EXPIRED', instruction: "The OTP has expired. Tell the user, then call 'requestAadhaarOtp' to send a new one." }
+      };
+    }
+
+    const result = await this.backend.verifyAadhaarOtp(this.txnId, otp);
+    switch (result.status) {
+      case OtpVerificationStatus.VERIFIED:
+        this.txnId = null;
+        this.update({ status: 'VERIFIED' });
+        return { verified: true, response: { status: 'OTP_VERIFIED' } };
+      case OtpVerificationStatus.EXPIRED:
+        this.txnId = null;
+        this.update({ status: 'NOT_SENT', expiresAt: null });
+        return {
+          verified: false,
+          response: { error: 'OTP_EXPIRED', instruction: "The OTP has expired. Tell the user, then call 'requestAadhaarOtp' to send a new one." }
+        };
+      case OtpVerificationStatus.INVALID: {
+        const attemptsRemaining = Math.min(result.attemptsRemaining, this.state.attemptsRemaining - 1);
+        if (attemptsRemaining <= 0) {
+          this.update({ status: 'LOCKED', attemptsRemaining: 0 });
+          return { verified: false, response: otpLockedResponse() };
+        }
+        this.update({ attemptsRemaining });
+        return {
+          verified: false,
+          response: { error: 'OTP_INCORRECT', attemptsRemaining, instruction: 'Tell the user the OTP was incorrect and ask them to read it again.' }
+        };
+      }
+      default:
+        this.update({ status: 'LOCKED', attemptsRemaining: 0 });
+        return { verified: false, response: otpLockedResponse() };
+    }
+  }
+}
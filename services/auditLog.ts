@@ -0,0 +1,130 @@
+import { AuditEntry, AuditEventType, AuditTrail, SignedAuditExport } from '../types';
+import { arrayBufferToBase64, base64ToArrayBuffer } from '../utils/audioUtils';
+import { redactDeep } from '../utils/redaction';
+
+// Append-only record of a verification session. Every entry carries the
+// SHA-256 of the one before it, so removing, reordering or editing an entry
+// breaks the chain. Data is redacted before it is hashed: the log never
+// holds a full Aadhar number, PIN or OTP.
+
+const GENESIS_HASH = '0'.repeat(64);
+const EXPORT_FORMAT: SignedAuditExport['format'] = 'digiverifier-audit/1';
+const SIGNING_ALGORITHM = { name: 'ECDSA', namedCurve: 'P-256' };
+const SIGNATURE_PARAMS = { name: 'ECDSA', hash: 'SHA-256' };
+
+const sha256Hex = async (text: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+};
+
+const entryHash = (entry: Omit<AuditEntry, 'hash'>): Promise<string> =>
+  sha256Hex(`${entry.prevHash}\n${JSON.stringify({ seq: entry.seq, at: entry.at, type: entry.type, data: entry.data })}`);
+
+// Bytes covered by the export signature: every field except the signature
+const signedBytes = (exported: Omit<SignedAuditExport, 'signature'>): Uint8Array =>
+  new TextEncoder().encode(JSON.stringify({
+    format: exported.format,
+    sessionId: exported.sessionId,
+    exportedAt: exported.exportedAt,
+    entries: exported.entries,
+    headHash: exported.headHash
+  }));
+
+export class AuditLog {
+  private id: string = crypto.randomUUID();
+  private entries: AuditEntry[] = [];
+  private nextSeq = 0;
+  // Hashing is async; appends are chained so entries land in call order
+  private tail: Promise<unknown> = Promise.resolve();
+  // Per-session signing key; the private half cannot be exported
+  private signingKey: Promise<CryptoKeyPair> | null = null;
+
+  get sessionId(): string {
+    return this.id;
+  }
+
+  // Entries hashed so far, for checkpoints
+  get trail(): AuditTrail {
+    return { sessionId: this.id, entries: [...this.entries] };
+  }
+
+  append(type: AuditEventType, data: Record<string, unknown> = {}) {
+    const seq = this.nextSeq++;
+    const at = new Date().toISOString();
+    const redacted = redactDeep(data) as Record<string, unknown>;
+    this.tail = this.tail
+      .then(async () => {
+        const prevHash = this.entries[this.entries.length - 1]?.hash ?? GENESIS_HASH;
+        const entry = { seq, at, type, data: redacted, prevHash };
+        this.entries.push({ ...entry, hash: await entryHash(entry) });
+      })
+      .catch(e => console.error("Could not append to the audit log:", e));
+  }
+
+  // Resolves once every append made so far is in the chain
+  async flushed(): Promise<void> {
+    await this.tail;
+  }
+
+  // Continues a checkpointed trail after a page reload. Call it before
+  // anything is appended.
+  restore(trail: AuditTrail) {
+    this.id = trail.sessionId;
+    this.entries = [...trail.entries];
+    this.nextSeq = this.entries.length;
+  }
+
+  async export(): Promise<SignedAuditExport> {
+    await this.tail;
+    this.signingKey ??= crypto.subtle.generateKey(SIGNING_ALGORITHM, false, ['sign', 'verify']) as Promise<CryptoKeyPair>;
+    const keys = await this.signingKey;
+
+    const unsigned: Omit<SignedAuditExport, 'signature'> = {
+      format: EXPORT_FORMAT,
+      sessionId: this.id,
+      exportedAt: new Date().toISOString(),
+      entries: [...this.entries],
+      headHash: this.entries[this.entries.length - 1]?.hash ?? GENESIS_HASH
+    };
+    const signature = await crypto.subtle.sign(SIGNATURE_PARAMS, keys.privateKey, signedBytes(unsigned));
+    return {
+      ...unsigned,
+      signature: {
+        algorithm: 'ECDSA-P256-SHA256',
+        publicKey: await crypto.subtle.exportKey('jwk', keys.publicKey),
+        value: arrayBufferToBase64(signature)
+      }
+    };
+  }
+}
+
+// Checks an exported trail: the hash chain, the head hash and the signature.
+// The key is embedded in the export, so this proves the file is unchanged
+// since it was signed; trusting who signed it needs the key from elsewhere.
+export const verifyAuditExport = async (exported: SignedAuditExport): Promise<{ valid: boolean; errors: string[] }> => {
+  const errors: string[] = [];
+  if (exported.format !== EXPORT_FORMAT) errors.push(`Unknown format ${exported.format}.`);
+
+  let prevHash = GENESIS_HASH;
+  exported.entries.forEach((entry, index) => {
+    if (entry.seq !== index) errors.push(`Entry ${index} has sequence number ${entry.seq}.`);
+    if (entry.prevHash !== prevHash) errors.push(`Entry ${index} does not follow the entry before it.`);
+    prevHash = entry.hash;
+  });
+  const hashes = await Promise.all(exported.entries.map(entryHash));
+  hashes.forEach((hash, index) => {
+    if (hash !== exported.entries[index].hash) errors.push(`Entry ${index} has been altered.`);
+  });
+  if (exported.headHash !== prevHash) errors.push('The head hash does not match the last entry.');
+
+  try {
+    const key = await crypto.subtle.importKey('jwk', exported.signature.publicKey, SIGNING_ALGORITHM, false, ['verify']);
+    const signature = new Uint8Array(base64ToArrayBuffer(exported.signature.value));
+    if (!await crypto.subtle.verify(SIGNATURE_PARAMS, key, signature, signedBytes(exported))) {
+      errors.push('The signature does not match the contents.');
+    }
+  } catch {
+    errors.push('The signature could not be checked.');
+  }
+  return { valid: errors.length === 0, errors };
+};
@@ -0,0 +1,56 @@
+import {
+  AadhaarOtpRequest,
+  AadhaarOtpResult,
+  DigilockerAccountRequest,
+  DigilockerAccountResult,
+  PanVerificationResult,
+  VerificationBackend
+} from '../../types';
+
+export class BackendError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = 'BackendError';
+  }
+}
+
+// Talks to any server exposing the verification routes (see server/backendRoutes.ts),
+// e.g. the local mock server or a real provider gateway.
+export class HttpVerificationBackend implements VerificationBackend {
+  constructor(private baseUrl: string) {}
+
+  private async post<T>(path: string, body: unknown): Promise<T> {
+    let res: Response;
+    try {
+      res = await fetch(`${this.baseUrl.replace(/\/$/, '')}${path}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body)
+      });
+    } catch (e) {
+      throw new BackendError(0, `Verification backend unreachable: ${(e as Error).message}`);
+    }
+
+    if (!res.ok) {
+      const detail = await res.json().catch(() => null);
+      throw new BackendError(res.status, detail?.error || `Verification backend returned ${res.status}`);
+    }
+    return res.json() as Promise<T>;
+  }
+
+  requestAadhaarOtp(aadhaarNumber: string): Promise<AadhaarOtpRequest> {
+    return this.post('/aadhaar/otp', { aadhaarNumber });
+  }
+
+  verifyAadhaarOtp(txnId: string, otp: string): Promise<AadhaarOtpResult> {
+    return this.post('/aadhaar/otp/verify', { txnId, otp });
+  }
+
+  verifyPan(panNumber: string, fullName: string, dob: string, aadhaarNumber?: string): Promise<PanVerificationResult> {
+    return this.post('/pan/verify', { panNumber, fullName, dob, aadhaarNumber });
+  }
+
+  createDigilockerAccount(request: DigilockerAccountRequest): Promise<DigilockerAccountResult> {
+    return this.post('/digilocker/accounts', request);
+  }
+}
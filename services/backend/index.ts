@@ -0,0 +1,13 @@
+import { VerificationBackend } from '../../types';
+import { HttpVerificationBackend } from './httpBackend';
+import { MockVerificationBackend } from './mockBackend';
+
+export { BackendError, HttpVerificationBackend } from './httpBackend';
+export { MockVerificationBackend, DEFAULT_FIXTURES } from './mockBackend';
+export type { MockFixtures, MockScenario } from './mockBackend';
+
+// Use the configured HTTP backend, or the in-browser mock when none is set
+export const createVerificationBackend = (): VerificationBackend => {
+  const url = process.env.VERIFICATION_API_URL;
+  return url ? new HttpVerificationBackend(url) : new MockVerificationBackend();
+};
@@ -0,0 +1,178 @@
+import {
+  AadhaarOtpRequest,
+  AadhaarOtpRequestStatus,
+  AadhaarOtpResult,
+  DigilockerAccountRequest,
+  DigilockerAccountResult,
+  OtpVerificationStatus,
+  PanStatus,
+  PanVerificationResult,
+  VerificationBackend
+} from '../../types';
+
+// Outcome a fixture forces for a given Aadhaar or PAN number
+export type MockScenario = 'VALID' | 'INVALID' | 'DECEASED' | 'INOPERATIVE' | 'NOT_LINKED';
+
+export interface MockAadhaarRecord {
+  scenario: MockScenario;
+  fullName?: string;
+  dob?: string;
+  mobile?: string;
+}
+
+export interface MockPanRecord {
+  scenario: MockScenario;
+  fullName?: string;
+}
+
+export interface MockFixtures {
+  defaultScenario: MockScenario; // Used for numbers not listed below
+  aadhaar: Record<string, MockAadhaarRecord>;
+  pan: Record<string, MockPanRecord>;
+  otp: string; // The only OTP the mock accepts
+  otpTtlSeconds: number;
+  maxOtpAttempts: number;
+  latencyMs: number;
+}
+
+export const DEFAULT_FIXTURES: MockFixtures = {
+  defaultScenario: 'VALID',
+  aadhaar: {},
+  pan: {},
+  otp: '123456',
+  otpTtlSeconds: 300,
+  maxOtpAttempts: 3,
+  latencyMs: 400
+};
+
+interface OtpTransaction {
+  aadhaarNumber: string;
+  expiresAt: number;
+  attempts: number;
+}
+
+const maskMobile = (mobile: string): string => `XXXXXX${mobile.slice(-4)}`;
+
+// In-memory stand-in for UIDAI e-KYC, NSDL PAN verification and DigiLocker.
+// Shared by the browser (no backend configured) and the local mock server.
+export class MockVerificationBackend implements VerificationBackend {
+  private fixtures: MockFixtures;
+  private transactions = new Map<string, OtpTransaction>();
+
+  constructor(fixtures: Partial<MockFixtures> = {}) {
+    this.fixtures = { ...DEFAULT_FIXTURES, ...fixtures };
+  }
+
+  public setFixtures(fixtures: Partial<MockFixtures>) {
+    this.fixtures = { ...this.fixtures, ...fixtures };
+  }
+
+  public getFixtures(): MockFixtures {
+    return this.fixtures;
+  }
+
+  private async delay() {
+    if (this.fixtures.latencyMs > 0) {
+      await new Promise(r => setTimeout(r, this.fixtures.latencyMs));
+    }
+  }
+
+  private aadhaarRecord(aadhaarNumber: string): MockAadhaarRecord {
+    return this.fixtures.aadhaar[aadhaarNumber] ?? { scenario: this.fixtures.defaultScenario };
+  }
+
+  private panRecord(panNumber: string): MockPanRecord {
+    return this.fixtures.pan[panNumber] ?? { scenario: this.fixtures.defaultScenario };
+  }
+
+  async requestAadhaarOtp(aadhaarNumber: string): Promise<AadhaarOtpRequest> {
+    await this.delay();
+    const record = this.aadhaarRecord(aadhaarNumber);
+
+    if (record.scenario === 'INVALID') {
+      return { status: AadhaarOtpRequestStatus.INVALID_AADHAAR, message: 'Aadhaar number does not exist in UIDAI records.' };
+    }
+    if (record.scenario === 'DECEASED') {
+      return { status: AadhaarOtpRequestStatus.DECEASED, message: 'Aadhaar number has been deactivated (holder reported deceased).' };
+    }
+
+    const txnId = crypto.randomUUID();
+    const expiresAt = Date.now() + this.fixtures.otpTtlSeconds * 1000;
+    this.transactions.set(txnId, { aadhaarNumber, expiresAt, attempts: 0 });
+
+    return {
+      status: AadhaarOtpRequestStatus.SENT,
+      message: 'OTP sent to the mobile number registered with Aadhaar.',
+      txnId,
+      maskedMobile: maskMobile(record.mobile ?? '9800000000'),
+      expiresAt: new Date(expiresAt).toISOString()
+    };
+  }
+
+  async verifyAadhaarOtp(txnId: string, otp: string): Promise<AadhaarOtpResult> {
+    await this.delay();
+    const txn = this.transactions.get(txnId);
+    const max = this.fixtures.maxOtpAttempts;
+
+    if (!txn) {
+      return { status: OtpVerificationStatus.EXPIRED, message: 'Unknown or expired OTP transaction.', attemptsRemaining: 0 };
+    }
+    if (txn.attempts >= max) {
+      return { status: OtpVerificationStatus.LOCKED, message: 'Too many incorrect attempts.', attemptsRemaining: 0 };
+    }
+    if (Date.now() > txn.expiresAt) {
+      this.transactions.delete(txnId);
+      return { status: OtpVerificationStatus.EXPIRED, message: 'OTP has expired.', attemptsRemaining: max - txn.attempts };
+    }
+
+    txn.attempts++;
+    if (otp !== this.fixtures.otp) {
+      const remaining = max - txn.attempts;
+      return remaining > 0
+        ? { status: OtpVerificationStatus.INVALID, message: 'Incorrect OTP.', attemptsRemaining: remaining }
+        : { status: OtpVerificationStatus.LOCKED, message: 'Too many incorrect attempts.', attemptsRemaining: 0 };
+    }
+
+    this.transactions.delete(txnId);
+    const record = this.aadhaarRecord(txn.aadhaarNumber);
+    return {
+      status: OtpVerificationStatus.VERIFIED,
+      message: 'Aadhaar e-KYC successful.',
+      attemptsRemaining: max - txn.attempts,
+      kyc: record.fullName && record.dob
+        ? { fullName: record.fullName, number: txn.aadhaarNumber, dob: record.dob }
+        : undefined
+    };
+  }
+
+  async verifyPan(panNumber: string, fullName: string, dob: string, aadhaarNumber?: string): Promise<PanVerificationResult> {
+    await this.delay();
+    const record = this.panRecord(panNumber);
+
+    switch (record.scenario) {
+      case 'INVALID':
+        return { status: PanStatus.INVALID, message: 'PAN does not exist in the NSDL database.' };
+      case 'DECEASED':
+        return { status: PanStatus.DECEASED, message: 'PAN is marked as belonging to a deceased person.' };
+      case 'INOPERATIVE':
+        return { status: PanStatus.INOPERATIVE, message: 'PAN is inoperative because it has not been linked to Aadhaar.' };
+      case 'NOT_LINKED':
+        return {
+          status: PanStatus.NOT_LINKED,
+          message: aadhaarNumber
+            ? 'PAN is not linked to the Aadhaar number provided.'
+            : 'PAN is not linked to any Aadhaar number.'
+        };
+      default:
+        return { status: PanStatus.VALID, message: 'PAN is valid and active.', nameOnRecord: record.fullName ?? fullName };
+    }
+  }
+
+  async createDigilockerAccount(request: DigilockerAccountRequest): Promise<DigilockerAccountResult> {
+    await this.delay();
+    return {
+      accountId: `DL-${request.aadhaarNumber.slice(-4)}-${crypto.randomUUID().slice(0, 8).toUpperCase()}`,
+      createdAt: new Date().toISOString()
+    };
+  }
+}
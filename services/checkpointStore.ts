@@ -0,0 +1,150 @@
+import { AppPhase, SavedCheckpoint, SessionSnapshot } from '../types';
+import { arrayBufferToBase64, base64ToArrayBuffer } from '../utils/audioUtils';
+
+// Checkpoints are encrypted with AES-GCM under a random key made for each
+// verification session. The key lives in this tab's sessionStorage, never
+// next to the ciphertext in IndexedDB, so it is gone once the tab is closed
+// and a copy of the database alone cannot be decrypted. Script running in
+// the page while the tab is open can still read both; this protects
+// checkpoints left behind on the device, not against XSS. A reload in the
+// same tab can resume; another tab cannot.
+
+export const CHECKPOINT_TTL_MS = 30 * 60 * 1000;
+
+const DB_NAME = 'digiverifier';
+const DB_VERSION = 2;
+const LEGACY_KEY_STORE = 'keys'; // Version 1 kept the key in the database
+const CHECKPOINT_STORE = 'checkpoints';
+const RECORD_ID = 'current';
+const KEY_ITEM = 'digiverifier.checkpointKey';
+
+interface StoredCheckpoint {
+  id: string;
+  phase: AppPhase;     // Plaintext so the resume prompt can be shown; not sensitive
+  savedAt: string;
+  expiresAt: string;
+  iv: Uint8Array;
+  ciphertext: ArrayBuffer;
+}
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const openDatabase = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (db.objectStoreNames.contains(LEGACY_KEY_STORE)) db.deleteObjectStore(LEGACY_KEY_STORE);
+      if (!db.objectStoreNames.contains(CHECKPOINT_STORE)) db.createObjectStore(CHECKPOINT_STORE, { keyPath: 'id' });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Non-extractable once imported; the raw bytes stay in sessionStorage only
+const importKey = (raw: ArrayBuffer): Promise<CryptoKey> =>
+  crypto.subtle.importKey('raw', raw, { name: 'AES-GCM' }, false, ['encrypt', 'decrypt']);
+
+// Binds the ciphertext to its record so it cannot be swapped in elsewhere
+const additionalData = (record: Pick<StoredCheckpoint, 'id' | 'phase' | 'savedAt' | 'expiresAt'>) =>
+  new TextEncoder().encode(`${record.id}|${record.phase}|${record.savedAt}|${record.expiresAt}`);
+
+// Persists the in-progress verification so a page reload can resume it
+export class CheckpointStore {
+  private db: Promise<IDBDatabase> | null = null;
+  private key: CryptoKey | null = null;
+
+  constructor(private ttlMs: number = CHECKPOINT_TTL_MS) {}
+
+  static isSupported(): boolean {
+    return typeof indexedDB !== 'undefined' && typeof sessionStorage !== 'undefined' && !!globalThis.crypto?.subtle;
+  }
+
+  private database(): Promise<IDBDatabase> {
+    if (!this.db) this.db = openDatabase();
+    return this.db;
+  }
+
+  private async store(name: string, mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    return (await this.database()).transaction(name, mode).objectStore(name);
+  }
+
+  // Starts a new verification session: drops any old checkpoint and key
+  async begin() {
+    await this.clear();
+    const raw = crypto.getRandomValues(new Uint8Array(32));
+    sessionStorage.setItem(KEY_ITEM, arrayBufferToBase64(raw.buffer));
+    this.key = await importKey(raw.buffer);
+  }
+
+  async save(snapshot: SessionSnapshot): Promise<SavedCheckpoint> {
+    const key = this.key ?? await this.loadKey();
+    if (!key) throw new Error("No checkpoint key; call begin() first.");
+
+    const now = Date.now();
+    const meta = {
+      id: RECORD_ID,
+      phase: snapshot.phase,
+      savedAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + this.ttlMs).toISOString()
+    };
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const ciphertext = await crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv, additionalData: additionalData(meta) },
+      key,
+      new TextEncoder().encode(JSON.stringify(snapshot))
+    );
+
+    const record: StoredCheckpoint = { ...meta, iv, ciphertext };
+    await promisify((await this.store(CHECKPOINT_STORE, 'readwrite')).put(record));
+    return { snapshot, savedAt: meta.savedAt, expiresAt: meta.expiresAt };
+  }
+
+  // Returns the saved checkpoint, or null when there is none, it expired or
+  // it cannot be decrypted (in which case it is discarded)
+  async load(): Promise<SavedCheckpoint | null> {
+    const record = await promisify<StoredCheckpoint | undefined>(
+      (await this.store(CHECKPOINT_STORE, 'readonly')).get(RECORD_ID)
+    );
+    if (!record) return null;
+
+    if (Date.parse(record.expiresAt) <= Date.now()) {
+      await this.clear();
+      return null;
+    }
+    // Saved by another tab, or by one that has been closed; left to expire
+    const key = await this.loadKey();
+    if (!key) return null;
+
+    try {
+      const plaintext = await crypto.subtle.decrypt(
+        { name: 'AES-GCM', iv: record.iv, additionalData: additionalData(record) },
+        key,
+        record.ciphertext
+      );
+      this.key = key;
+      const snapshot = JSON.parse(new TextDecoder().decode(plaintext)) as SessionSnapshot;
+      return { snapshot, savedAt: record.savedAt, expiresAt: record.expiresAt };
+    } catch (e) {
+      console.warn("Discarding unreadable checkpoint:", e);
+      await this.clear();
+      return null;
+    }
+  }
+
+  async clear() {
+    this.key = null;
+    sessionStorage.removeItem(KEY_ITEM);
+    await promisify((await this.store(CHECKPOINT_STORE, 'readwrite')).delete(RECORD_ID));
+  }
+
+  // Null in a new tab, or after the tab that saved the checkpoint was closed
+  private async loadKey(): Promise<CryptoKey | null> {
+    const saved = sessionStorage.getItem(KEY_ITEM);
+    return saved ? importKey(base64ToArrayBuffer(saved)) : null;
+  }
+}
@@ -0,0 +1,90 @@
+import jsQR from 'jsqr';
+import { createWorker, Worker } from 'tesseract.js';
+import { DocumentScan, DocumentType, IdentityDoc } from '../types';
+import { decodeSecureQr, isSecureQr, parsePrintLetterQr, parseReferenceId, secureQrScan } from '../utils/aadhaarQr';
+import { extractCardFields } from '../utils/cardText';
+import { verifySecureQr, withSignature } from './uidaiSignature';
+
+// Larger photos are scaled down; card text stays legible well below this
+const MAX_IMAGE_SIDE = 2000;
+
+// Reads card photos entirely in the browser: jsQR for the Aadhar QR code and
+// the Tesseract WASM engine for printed text. Nothing is uploaded.
+export class DocumentScanner {
+  private worker: Promise<Worker> | null = null;
+
+  public async scan(document: DocumentType, image: Blob): Promise<DocumentScan> {
+    const canvas = await this.draw(image);
+
+    if (document === 'AADHAR') {
+      const qr = await this.readQr(canvas);
+      if (qr && !qr.fields.number) {
+        // Secure QR: the number has to come from the printed side, if it is in the photo
+        return this.fillFromText(qr, await this.recognise(document, canvas));
+      }
+      if (qr) return qr;
+    }
+
+    const scan = await this.recognise(document, canvas);
+    if (!Object.values(scan.fields).some(Boolean)) {
+      throw new Error('No card details could be read from the photo. Try a sharper, well-lit picture.');
+    }
+    return scan;
+  }
+
+  public async dispose() {
+    const worker = this.worker;
+    this.worker = null;
+    await (await worker)?.terminate();
+  }
+
+  private async draw(image: Blob): Promise<HTMLCanvasElement> {
+    const bitmap = await createImageBitmap(image);
+    const scale = Math.min(1, MAX_IMAGE_SIDE / Math.max(bitmap.width, bitmap.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(bitmap.width * scale);
+    canvas.height = Math.round(bitmap.height * scale);
+    canvas.getContext('2d')!.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+    return canvas;
+  }
+
+  private async readQr(canvas: HTMLCanvasElement): Promise<DocumentScan | null> {
+    const { data, width, height } = canvas.getContext('2d')!.getImageData(0, 0, canvas.width, canvas.height);
+    const code = jsQR(data, width, height, { inversionAttempts: 'attemptBoth' });
+    if (!code) return null;
+    if (!isSecureQr(code.data)) return parsePrintLetterQr(code.data);
+
+    const qr = await decodeSecureQr(code.data).catch(e => {
+      console.warn('Unreadable Aadhar Secure QR:', e);
+      return null;
+    });
+    if (!qr) return null;
+    const signature = await verifySecureQr(qr);
+    if (signature.status === 'INVALID') throw new Error(signature.detail);
+    return withSignature(secureQrScan(qr), signature, parseReferenceId(qr.fields.referenceId).generatedAt);
+  }
+
+  private async recognise(document: DocumentType, canvas: HTMLCanvasElement): Promise<DocumentScan> {
+    // The engine and its English model load on first use only
+    this.worker ??= createWorker('eng');
+    const { data } = await (await this.worker).recognize(canvas);
+    return extractCardFields(document, data.text);
+  }
+
+  // Takes the fields the QR lacked from the printed text, if they agree with it
+  private fillFromText(qr: DocumentScan, text: DocumentScan): DocumentScan {
+    const fields: Partial<IdentityDoc> = { ...qr.fields };
+    const warnings = [...qr.warnings];
+
+    if (text.fields.number && qr.numberLast4 && !text.fields.number.endsWith(qr.numberLast4)) {
+      warnings.push('The printed Aadhar number does not match the QR code, so it was ignored.');
+    } else if (text.fields.number) {
+      fields.number = text.fields.number;
+    }
+    fields.fullName ??= text.fields.fullName;
+    fields.dob ??= text.fields.dob;
+
+    return { ...qr, fields, warnings };
+  }
+}
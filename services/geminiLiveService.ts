@@ -1,232 +1,537 @@
 import {
-  GoogleGenAI,
-  LiveSession,
   LiveServerMessage,
   Modality,
-  Type,
-  FunctionDeclaration,
   Tool,
 } from '@google/genai';
-import { float32ToInt16, arrayBufferToBase64, base64ToArrayBuffer, createAudioBufferFromPCM, downsampleTo16000 } from '../utils/audioUtils';
-import { ToolCallbacks } from '../types';
-
-const MODEL_NAME = 'gemini-2.5-flash-native-audio-preview-09-2025';
-
-// Define Tools
-const saveAadharTool: FunctionDeclaration = {
-  name: 'saveAadhar',
-  description: 'Save user Aadhar card details. Call this when the user provides their Name, Aadhar Number, and Date of Birth.',
-  parameters: {
-    type: Type.OBJECT,
-    properties: {
-      fullName: { type: Type.STRING, description: 'Full Name on Aadhar' },
-      number: { type: Type.STRING, description: '12-digit Aadhar Number' },
-      dob: { type: Type.STRING, description: 'Date of Birth (DD-MM-YYYY)' },
-    },
-    required: ['fullName', 'number', 'dob'],
-  },
-};
-
-const savePanTool: FunctionDeclaration = {
-  name: 'savePan',
-  description: 'Save user PAN card details. Call this when the user provides their Name, PAN Number, and Date of Birth.',
-  parameters: {
-    type: Type.OBJECT,
-    properties: {
-      fullName: { type: Type.STRING, description: 'Full Name on PAN' },
-      number: { type: Type.STRING, description: '10-character PAN Number' },
-      dob: { type: Type.STRING, description: 'Date of Birth' },
-    },
-    required: ['fullName', 'number', 'dob'],
-  },
-};
+import { arrayBufferToBase64, base64ToArrayBuffer } from '../utils/audioUtils';
+import { CAPTURE_SAMPLE_RATE } from '../utils/captureWorklet';
+import { formatDob, normaliseName, parseDob } from '../utils/identityMatch';
+import { readBackDoc, validateAadhaar, validatePan } from '../utils/documentValidation';
+import { PIN_HASH_ALGORITHM } from '../utils/pinSecurity';
+import { maskAadhaar, redactText, redactToolArgs } from '../utils/redaction';
+import { PhaseMachine } from './phaseMachine';
+import { TOOL_DECLARATIONS, ToolHandlers, ToolRegistry, ToolResponse } from './tools';
+import { AuditLog } from './auditLog';
+import { BrowserAudioSink, BrowserAudioSource, GeminiLiveTransport, LIVE_MODEL } from './live';
+import { BackendError } from './backend';
+import { INITIAL_OTP_STATE } from './aadhaarOtp';
+import { LocalToolExecutor } from './session/localExecutor';
+import { SessionExpiredError } from './session/remoteExecutor';
+import { CORRECTABLE_FIELDS, FIELD_LABELS, documentForPhase, wrongDocumentResponse } from './session/verificationSession';
+import { TranscriptBuilder } from './transcript';
+import { buildResumeBriefing } from './sessionBriefing';
+import { TypedEmitter } from '../utils/typedEmitter';
+import { maskSpokenDigits, nativeDigitsToAscii, normaliseSpokenNumber } from '../utils/spokenNumbers';
+import { DEFAULT_LANGUAGE, LANGUAGES, LanguageConfig } from '../i18n/languages';
+import {
+  AppPhase,
+  AudioSink,
+  AudioSource,
+  ConnectionState,
+  ConnectionStateChange,
+  ConfirmDocumentArgs,
+  IdentityDoc,
+  IdentityField,
+  InputMode,
+  LanguageCode,
+  LiveConnection,
+  LiveServiceEvents,
+  LiveTransport,
+  ReenterDocumentArgs,
+  ScanProposal,
+  CorrectFieldArgs,
+  DocumentFieldUpdate,
+  DocumentScan,
+  DocumentType,
+  SessionSnapshot,
+  StatefulToolCall,
+  StatefulToolExecutor,
+  StatefulToolResult,
+  ToolCallbacks,
+  ToolName,
+  ValidationResult,
+  VerificationAttestation,
+  VerifyDetailsArgs,
+  VerificationBackend,
+  VerificationState
+} from '../types';
+
+// Browser implementations are used for anything not given
+export interface LiveServiceOptions {
+  audit?: AuditLog;
+  transport?: LiveTransport;
+  audioSource?: AudioSource;
+  audioSink?: AudioSink;
+  executor?: StatefulToolExecutor; // Where the stateful tools run; this device by default
+  logger?: LiveLogger; // The console by default
+}
 
-const verifyDetailsTool: FunctionDeclaration = {
-  name: 'verifyDetails',
-  description: 'Verify if Aadhar and PAN details match. Returns MATCH or MISMATCH.',
-  parameters: {
-    type: Type.OBJECT,
-    properties: {
-      action: { type: Type.STRING, description: 'Action description, e.g., "compare"' },
-    },
-    required: ['action'],
-  },
+// Where the service reports progress and recoverable problems; errors always go to console.error
+export type LiveLogger = Pick<Console, 'log' | 'warn'>;
+
+const EMPTY_STATE: VerificationState = {
+  phase: AppPhase.IDLE,
+  consent: null,
+  aadhar: null,
+  aadhaarOtp: INITIAL_OTP_STATE,
+  pan: null,
+  verificationResult: null,
+  digilockerAccountId: null
 };
 
-const createDigilockerTool: FunctionDeclaration = {
-  name: 'createDigilocker',
-  description: 'Create the DigiLocker account using a 6-digit PIN provided by the user.',
-  parameters: {
-    type: Type.OBJECT,
-    properties: {
-      pin: { type: Type.STRING, description: '6-digit Security PIN' },
-    },
-    required: ['pin'],
-  },
-};
+// Reconnection backoff: 0.5s, 1s, 2s, 4s, 8s
+const MAX_RECONNECT_ATTEMPTS = 5;
+const RECONNECT_BASE_DELAY_MS = 500;
+const RECONNECT_MAX_DELAY_MS = 8000;
 
-const tools: Tool[] = [
-  {
-    functionDeclarations: [saveAadharTool, savePanTool, verifyDetailsTool, createDigilockerTool],
-  },
-];
+const tools: Tool[] = [{ functionDeclarations: TOOL_DECLARATIONS }];
 
-const SYSTEM_INSTRUCTION = `You are "DigiVerifier", an official government Identity Verification Assistant.
+const buildSystemInstruction = (language: LanguageConfig): string => `You are "DigiVerifier", an official government Identity Verification Assistant.
 Your goal is to guide the user through linking their Aadhar Card and PAN Card to create a DigiLocker account.
 Maintain a professional, official, yet helpful tone. Be concise.
 
-IMPORTANT: You must greet the user immediately upon connection. Speak first. Say "Hello, I am DigiVerifier. I will help you link your documents. Let's start with your Aadhar card. Please tell me your full name."
+IMPORTANT: You must greet the user immediately upon connection. Speak first. Say "${language.greeting}"
 
 STRICT PROCESS FLOW:
+0. CONSENT:
+   - Right after the greeting, read this consent statement word for word: "${language.consentStatement}"
+   - Wait for a clear yes or no. If the answer is unclear, ask again. Never treat silence or an unrelated reply as consent.
+   - Call 'recordConsent' with agreed=true or agreed=false.
+   - Do NOT ask for any personal details before consent is recorded.
+
 1. AADHAR COLLECTION (Ask fields one by one):
    - Ask for Full Name. Wait for user input.
    - Ask for Date of Birth. Wait for user input.
    - Ask for the 12-digit Aadhar Number. Wait for user input.
-   - ONLY when you have all three, call the 'saveAadhar' tool.
-
-2. PAN COLLECTION (Ask fields one by one):
-   - Acknowledge Aadhar completion. Now ask for PAN details.
+   - ONLY when you have all three, call the 'proposeAadhar' tool.
+   - If the tool returns an error, explain the reason and ask the user to repeat the number. Do NOT move on to PAN.
+   - Otherwise read back the 'readBack' values: the name, the date of birth, and the last four digits of the Aadhar number, digit by digit (e.g. "ending in 5 2 4 8"). Ask if everything is correct.
+   - If the user confirms, call 'confirmDocument' with document='AADHAR'.
+   - If one field is wrong, ask for that field only, call 'correctField', and read back again. Do not collect the whole document again.
+
+2. AADHAR OTP:
+   - Call 'requestAadhaarOtp'. Tell the user the OTP was sent to the masked mobile number in the result.
+   - Ask the user to read out the 6-digit OTP, then call 'submitAadhaarOtp'.
+   - If OTP_INCORRECT: ask them to read it again. If OTP_EXPIRED: call 'requestAadhaarOtp' again.
+   - If OTP_LOCKED: apologise and end the conversation.
+
+3. PAN COLLECTION (Ask fields one by one):
+   - Acknowledge Aadhar verification. Now ask for PAN details.
    - Ask for Full Name as on PAN. Wait for user input.
    - Ask for Date of Birth. Wait for user input.
    - Ask for the 10-character PAN Number. Wait for user input.
-   - ONLY when you have all three, call the 'savePan' tool.
+   - ONLY when you have all three, call the 'proposePan' tool.
+   - If the tool returns an error, explain the reason and ask the user to repeat the PAN. Do NOT move on to verification.
+   - Otherwise read back the name, the date of birth, and the PAN group by group, character by character. Ask if everything is correct.
+   - If the user confirms, call 'confirmDocument' with document='PAN'. If one field is wrong, ask for that field only and call 'correctField'.
 
-3. VERIFICATION:
+4. VERIFICATION:
    - Call 'verifyDetails' with action='compare'.
-   - If MATCH: Proceed to DigiLocker.
-   - If MISMATCH: Ask user to restart.
+   - If MATCH: Proceed to DigiLocker. If confidence is HIGH, mention that the Aadhar details were checked against UIDAI's digital signature.
+   - If MISMATCH: Tell the user exactly which field disagrees, using the 'reasons' in the result.
+     If a single field was wrong (e.g. one digit or a spelling), ask for the correct value, call 'updateDocumentField', then call 'verifyDetails' again.
+     Only if a whole document was wrong, call 'reenterDocument' for it and collect that document again.
 
-4. DIGILOCKER:
+5. DIGILOCKER:
    - Ask for a 6-digit Security PIN.
    - Call 'createDigilocker'.
+   - If the tool returns WEAK_PIN, explain why and ask for a stronger PIN.
+   - Never repeat the PIN back to the user.
 
-5. COMPLETE:
+6. COMPLETE:
    - Confirm success and goodbye.
 
 RULES:
+- Aadhar numbers are always given to you masked (XXXX XXXX 1234). Never say or repeat a full Aadhar number, even one the user just said; refer to it only by its last four digits.
 - Ask for ONLY ONE piece of information at a time.
 - Do not assume or hallucinate values.
-- Wait for user response before moving to the next field.`;
+- Wait for user response before moving to the next field.
+- The user may type instead of speaking. Treat typed messages exactly like spoken ones and follow the same process.
+- If the user says a saved detail is wrong at any later step, call 'updateDocumentField' for that field instead of starting over.
+- Messages starting with "[Document scan" carry details read from a photo of the card. Treat them exactly like spoken details: read them back and wait for the user to confirm before calling 'confirmDocument'.
+- Messages starting with "[Consent]" mean the user answered the consent statement on screen. Follow the instruction in the message.
+- Messages starting with "[On-screen edit]" mean the user changed a saved field themselves. Acknowledge it briefly and follow the instruction in the message.
+- If a tool returns OUT_OF_ORDER, do not skip ahead. Finish the current step using the allowed tools listed in the error.
+
+LANGUAGE:
+- Speak to the user in ${language.englishName} (${language.label}) throughout: questions, read-backs, explanations and errors. Users may mix in English words.
+- Tool arguments are always in English form: names in Latin script as printed on the card, numbers as digits 0-9, dates as DD/MM/YYYY.
+- When reading a number back, say it digit by digit in ${language.englishName}.`;
 
 export class GeminiLiveService {
-  private client: GoogleGenAI;
-  private session: LiveSession | null = null;
-  private inputAudioContext: AudioContext | null = null;
-  private outputAudioContext: AudioContext | null = null;
-  private inputSource: MediaStreamAudioSourceNode | null = null;
-  private processor: ScriptProcessorNode | null = null;
-  private nextStartTime: number = 0;
+  private transport: LiveTransport;
+  private session: LiveConnection | null = null;
+  // Microphone and speakers, or in-memory stand-ins
+  private audioSource: AudioSource;
+  private audioSink: AudioSink;
   private callbacks: ToolCallbacks;
-  
-  // Analyser nodes for visualization
-  public inputAnalyser: AnalyserNode | null = null;
-  public outputAnalyser: AnalyserNode | null = null;
 
-  // Stream Reference for Muting
-  private mediaStream: MediaStream | null = null;
-
-  constructor(callbacks: ToolCallbacks) {
-    const key = process.env.API_KEY;
-    if (!key) {
-      throw new Error("API_KEY is missing.");
-    }
-    this.client = new GoogleGenAI({ apiKey: key });
+  // Runs the tools that change saved details and holds the authoritative
+  // state; `saved` mirrors what it last returned
+  private executor: StatefulToolExecutor;
+  private saved: VerificationState = EMPTY_STATE;
+  private attestation: VerificationAttestation | null = null; // Server-signed, once COMPLETE
+  // Proposed documents waiting for the user to confirm the read-back
+  private pending: Partial<Record<DocumentType, IdentityDoc>> = {};
+  private signedScans: Partial<Record<DocumentType, DocumentScan>> = {}; // UIDAI-signed values seen in scans
+
+  // Tamper-evident record of tool calls, validations, phases and connection events
+  private audit: AuditLog;
+  private logger: LiveLogger;
+
+  // Enforces the step order regardless of what the model asks for
+  private phases: PhaseMachine;
+  private tools: ToolRegistry;
+
+  // Typed event stream for UI consumers (transcript, ...)
+  public readonly events = new TypedEmitter<LiveServiceEvents>();
+  private transcript: TranscriptBuilder;
+
+  // Connection lifecycle and session resumption
+  private connectionState = ConnectionState.CLOSED;
+  private resumeHandle: string | null = null;
+  private sessionEpoch = 0; // Callbacks from replaced sockets are ignored
+  private resumedSession = false;
+  private receivedSinceOpen = false;
+  private reconnecting = false;
+  private intentionalClose = false;
+
+  private micMuted = false;
+  private inputMode: InputMode = 'voice';
+
+  // Conversation language: system instruction, greeting and voice
+  private language: LanguageConfig;
+  private systemInstruction: string;
+
+  constructor(callbacks: ToolCallbacks, backend: VerificationBackend, language: LanguageCode = DEFAULT_LANGUAGE, options: LiveServiceOptions = {}) {
+    this.transport = options.transport ?? GeminiLiveTransport.fromEnvironment();
+    this.audioSource = options.audioSource ?? new BrowserAudioSource();
+    this.audioSink = options.audioSink ?? new BrowserAudioSink();
     this.callbacks = callbacks;
+    this.executor = options.executor ?? new LocalToolExecutor(backend);
+    this.audit = options.audit ?? new AuditLog();
+    this.logger = options.logger ?? console;
+    this.language = LANGUAGES[language];
+    this.systemInstruction = buildSystemInstruction(this.language);
+    this.phases = new PhaseMachine(phase => {
+      this.audit.append('PHASE', { phase });
+      this.callbacks.onPhaseChange(phase);
+    });
+    this.tools = new ToolRegistry(this.toolHandlers(), this.phases);
+    this.transcript = new TranscriptBuilder(
+      entry => this.events.emit('transcript', entry),
+      (role, text) => role === 'user' && this.phases.current === AppPhase.DIGILOCKER
+        ? maskSpokenDigits(text, this.language.code)
+        : redactText(text, this.language.code)
+    );
   }
 
-  async connect() {
-    // 1. Setup Audio Contexts
-    const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
-    this.inputAudioContext = new AudioContextClass();
-    this.outputAudioContext = new AudioContextClass();
+  get currentInputMode(): InputMode {
+    return this.inputMode;
+  }
 
-    // CRITICAL: Resume contexts immediately.
-    if (this.inputAudioContext.state === 'suspended') {
-        await this.inputAudioContext.resume();
-    }
-    if (this.outputAudioContext.state === 'suspended') {
-        await this.outputAudioContext.resume();
+  // Analyser nodes for visualization
+  get inputAnalyser(): AnalyserNode | null {
+    return this.audioSource.analyser;
+  }
+
+  get outputAnalyser(): AnalyserNode | null {
+    return this.audioSink.analyser;
+  }
+
+  // Pass a snapshot to continue a checkpointed verification instead of starting over
+  async connect(inputMode: InputMode = 'voice', resume?: SessionSnapshot) {
+    // 1. Setup Audio (resumed here, inside the user gesture). Each failure
+    // below closes it again, as no one will call disconnect for this attempt.
+    try {
+      await this.audioSource.open();
+      await this.audioSink.open();
+    } catch (e) {
+      this.closeAudio();
+      throw e;
     }
 
-    this.inputAnalyser = this.inputAudioContext.createAnalyser();
-    this.outputAnalyser = this.outputAudioContext.createAnalyser();
-    this.inputAnalyser.fftSize = 256;
-    this.outputAnalyser.fftSize = 256;
-    
-    // Reset cursor
-    this.nextStartTime = this.outputAudioContext.currentTime;
+    // 2. Open the verification; when resuming, the executor's copy of the
+    // saved details wins over the checkpoint's
+    let opened: VerificationState;
+    try {
+      try {
+        opened = (await this.executor.open(this.language.code, resume)).state;
+      } catch (e) {
+        // Without the server's copy nothing in the checkpoint can be trusted, so start over
+        if (!(resume && e instanceof SessionExpiredError)) throw e;
+        this.logger.warn(e.message);
+        this.events.emit('resumeExpired', { reason: e.message });
+        resume = undefined;
+        opened = (await this.executor.open(this.language.code)).state;
+      }
+    } catch (e) {
+      console.error("Failed to open the verification session:", e);
+      this.closeAudio();
+      this.setConnectionState({ state: ConnectionState.FAILED, reason: (e as Error)?.message });
+      throw e;
+    }
 
-    // 2. Start Session
+    // 3. Start Session
+    this.intentionalClose = false;
+    if (resume) {
+      this.restore({ ...resume, ...opened });
+      this.audit.append('SESSION_RESUMED', { phase: this.phases.current, language: this.language.code, serverSessionId: this.executor.sessionId });
+    } else {
+      this.saved = opened;
+      this.audit.append('SESSION_STARTED', { language: this.language.code, inputMode, serverSessionId: this.executor.sessionId });
+    }
+    this.setConnectionState({ state: ConnectionState.CONNECTING });
     try {
-      this.session = await this.client.live.connect({
-        model: MODEL_NAME,
-        config: {
-          responseModalities: [Modality.AUDIO],
-          systemInstruction: SYSTEM_INSTRUCTION,
-          tools: tools,
-          speechConfig: {
-            voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Kore' } },
-          },
-        },
-        callbacks: {
-          onopen: () => {
-            console.log("Session Opened");
-          },
-          onmessage: (message: LiveServerMessage) => {
-            this.handleMessage(message);
-          },
-          onclose: () => {
-            console.log("Session Closed");
-          },
-          onerror: (err) => {
-            console.error("Session Error", err);
-          }
-        }
-      });
+      this.session = await this.openSession(undefined, resume ? buildResumeBriefing(this.getSnapshot(), 'a page reload') : undefined);
     } catch (e) {
       console.error("Failed to connect to Gemini Live:", e);
+      this.closeAudio();
+      this.setConnectionState({ state: ConnectionState.FAILED, reason: (e as Error)?.message });
       throw e;
     }
+    this.setConnectionState({ state: ConnectionState.OPEN });
+
+    // 4. Setup Outgoing Stream (Microphone), falling back to text chat
+    await this.setInputMode(inputMode);
 
-    // 3. Setup Outgoing Stream (Microphone)
-    await this.setupMicrophone();
+    if (resume) {
+      this.promptBriefedSession(this.session);
+    } else {
+      this.phases.transition(AppPhase.CONSENT);
+    }
     
-    console.log("Connected and listening.");
+    this.logger.log(`Connected and listening (${this.inputMode}).`);
+  }
+
+  // Opens a live session. With a resumption handle the server restores the
+  // previous conversation; with a briefing a fresh one is told where we are.
+  private async openSession(handle?: string, briefing?: string): Promise<LiveConnection> {
+    const epoch = ++this.sessionEpoch;
+    const stale = () => epoch !== this.sessionEpoch;
+
+    return this.transport.connect(LIVE_MODEL, {
+        responseModalities: [Modality.AUDIO],
+        systemInstruction: briefing ? `${this.systemInstruction}\n\n${briefing}` : this.systemInstruction,
+        inputAudioTranscription: {},
+        outputAudioTranscription: {},
+        sessionResumption: { handle },
+        tools: tools,
+        speechConfig: {
+          languageCode: this.language.languageCode,
+          voiceConfig: { prebuiltVoiceConfig: { voiceName: this.language.voiceName } },
+        },
+      }, {
+        onopen: () => {
+          this.logger.log(handle ? "Session Opened (resuming)" : "Session Opened");
+          this.receivedSinceOpen = false;
+        },
+        onmessage: (message: LiveServerMessage) => {
+          if (stale()) return;
+          this.receivedSinceOpen = true;
+          void this.handleMessage(message).catch(e => {
+            // The model may be left waiting on a reply, so treat it like a socket error
+            console.error("Failed to handle a server message", e);
+            if (stale()) return;
+            const broken = this.session;
+            this.handleSessionLost((e as Error)?.message || "Failed to handle a server message");
+            broken?.close();
+          });
+        },
+        onclose: e => {
+          this.logger.log("Session Closed", e?.code, e?.reason);
+          if (!stale()) this.handleSessionLost(e?.reason || `Socket closed (${e?.code ?? 'unknown'})`);
+        },
+        onerror: err => {
+          console.error("Session Error", err);
+          if (!stale()) this.handleSessionLost(err?.message || "Socket error");
+        }
+    });
+  }
+
+  private setConnectionState(change: ConnectionStateChange) {
+    this.connectionState = change.state;
+    this.audit.append('CONNECTION', { ...change });
+    this.events.emit('connection', change);
+  }
+
+  get currentConnectionState(): ConnectionState {
+    return this.connectionState;
+  }
+
+  // Progress held by the service, enough to brief a replacement session
+  public getSnapshot(): SessionSnapshot {
+    return {
+      ...this.saved,
+      phase: this.phases.current,
+      pending: { ...this.pending },
+      serverSessionId: this.executor.sessionId,
+      serverSessionToken: this.executor.sessionToken,
+      attestation: this.attestation,
+      audit: this.audit.trail
+    };
+  }
+
+  // Checkpoints once the audit entries so far are hashed, so they are included
+  private checkpoint() {
+    void this.audit.flushed().then(() => this.events.emit('checkpoint', this.getSnapshot()));
+  }
+
+  // Re-applies checkpointed progress before a briefed session is opened
+  private restore(snapshot: SessionSnapshot) {
+    if (snapshot.audit) this.audit.restore(snapshot.audit);
+    const { phase, consent, aadhar, aadhaarOtp, pan, verificationResult, digilockerAccountId } = snapshot;
+    this.saved = { phase, consent: consent ?? null, aadhar, aadhaarOtp, pan, verificationResult, digilockerAccountId };
+    this.pending = { ...(snapshot.pending ?? {}) };
+    this.attestation = snapshot.attestation ?? null;
+    if (aadhar) this.callbacks.onAadhaarOtpChange(aadhaarOtp);
+    this.phases.restore(phase);
+  }
+
+  // Runs a stateful tool through the executor and mirrors the state it returns
+  private async runStateful(call: StatefulToolCall): Promise<StatefulToolResult> {
+    const result = await this.executor.execute(call);
+    for (const check of result.validations) this.audit.append('VALIDATION', check);
+    if (result.signature) {
+      this.audit.append('VALIDATION', { check: 'RESULT_SIGNATURE', sessionId: result.sessionId, seq: result.seq, keyId: result.signature.keyId });
+    }
+    if (result.attestation) this.attestation = result.attestation;
+    this.applyState(result.state);
+    return result;
+  }
+
+  private applyState(state: VerificationState) {
+    const before = this.saved;
+    this.saved = state;
+    if (state.consent && state.consent.recordedAt !== before.consent?.recordedAt) {
+      this.audit.append('CONSENT', { ...state.consent });
+      this.callbacks.onConsent(state.consent);
+    }
+    if (JSON.stringify(state.aadhaarOtp) !== JSON.stringify(before.aadhaarOtp)) {
+      this.callbacks.onAadhaarOtpChange({ ...state.aadhaarOtp });
+    }
+    if (state.phase !== this.phases.current) {
+      if (this.phases.canTransition(state.phase)) {
+        this.phases.transition(state.phase);
+      } else {
+        this.phases.restore(state.phase);
+      }
+    }
+  }
+
+  // A briefed session waits for the user; nudge it to speak first as a new one would
+  private promptBriefedSession(session: LiveConnection) {
+    session.sendClientContent({
+      turns: [{ role: 'user', parts: [{ text: "(Session restored. Continue from the current step.)" }] }],
+      turnComplete: true
+    });
+  }
+
+  private handleSessionLost(reason: string) {
+    if (this.intentionalClose || this.reconnecting) return;
+
+    // A resumed socket that dies before the server says anything most likely
+    // rejected the handle; don't keep offering it
+    if (this.resumedSession && !this.receivedSinceOpen) {
+      this.resumeHandle = null;
+    }
+    this.session = null;
+    this.transcript.completeTurn();
+    void this.reconnect(reason);
+  }
+
+  // Retry with exponential backoff: resume the old session while the server
+  // has a handle for it, otherwise start a fresh one briefed with our progress
+  private async reconnect(reason: string) {
+    this.reconnecting = true;
+    try {
+      for (let attempt = 1; attempt <= MAX_RECONNECT_ATTEMPTS; attempt++) {
+        this.setConnectionState({ state: ConnectionState.RECONNECTING, attempt, maxAttempts: MAX_RECONNECT_ATTEMPTS, reason });
+
+        const backoff = Math.min(RECONNECT_BASE_DELAY_MS * 2 ** (attempt - 1), RECONNECT_MAX_DELAY_MS);
+        await new Promise(resolve => setTimeout(resolve, backoff + Math.random() * backoff * 0.2));
+        if (this.intentionalClose) return;
+
+        const handle = this.resumeHandle ?? undefined;
+        try {
+          const session = await this.openSession(handle, handle ? undefined : buildResumeBriefing(this.getSnapshot()));
+          if (this.intentionalClose) {
+            session.close();
+            return;
+          }
+          this.session = session;
+          this.resumedSession = !!handle;
+          if (!handle) this.promptBriefedSession(session);
+          this.setConnectionState({ state: ConnectionState.OPEN, resumed: !!handle });
+          return;
+        } catch (e) {
+          this.logger.warn(`Reconnect attempt ${attempt} failed:`, e);
+          reason = (e as Error)?.message || reason;
+          // The handle may have expired; the next attempt starts a fresh session
+          if (handle) this.resumeHandle = null;
+        }
+      }
+
+      this.teardownMicrophone();
+      this.setConnectionState({ state: ConnectionState.FAILED, reason });
+    } finally {
+      this.reconnecting = false;
+    }
   }
 
   private async handleMessage(message: LiveServerMessage) {
+    // Track the latest handle so a dropped socket can resume this session
+    const resumption = message.sessionResumptionUpdate;
+    if (resumption) {
+        this.resumeHandle = resumption.resumable && resumption.newHandle ? resumption.newHandle : this.resumeHandle;
+    }
+    if (message.goAway) {
+        this.logger.warn(`Server closing the session in ${message.goAway.timeLeft ?? 'a moment'}; will resume.`);
+    }
+
     // Handle Audio
     const audioData = message.serverContent?.modelTurn?.parts?.[0]?.inlineData?.data;
     if (audioData) {
         this.queueAudio(audioData);
     }
 
+    // Handle Barge-in: the user spoke over the assistant
+    const serverContent = message.serverContent;
+    if (serverContent?.interrupted) {
+        this.interruptPlayback();
+    }
+
+    // Handle Transcription
+    if (serverContent?.inputTranscription) {
+        this.transcript.append('user', serverContent.inputTranscription.text ?? '', serverContent.inputTranscription.finished);
+    }
+    if (serverContent?.outputTranscription) {
+        this.transcript.append('assistant', serverContent.outputTranscription.text ?? '', serverContent.outputTranscription.finished);
+    }
+    if (serverContent?.turnComplete) {
+        this.transcript.completeTurn();
+    }
+
     // Handle Tool Calls
     const toolCall = message.toolCall;
     if (toolCall) {
         for (const call of toolCall.functionCalls) {
-            console.log(`Tool Call: ${call.name}`, call.args);
-            let responseResult: any = { result: "ok" };
+            const toolArgs = this.normaliseSpokenArgs(call.name as ToolName, call.args ?? {});
+            this.logger.log(`Tool Call: ${call.name}`, redactToolArgs(toolArgs));
+            this.audit.append('TOOL_CALL', { id: call.id, name: call.name, args: toolArgs });
+            let responseResult: ToolResponse;
 
             try {
-                if (call.name === 'saveAadhar') {
-                      this.callbacks.onSaveAadhar(call.args as any);
-                      responseResult = { status: "Aadhar Saved. Proceed to PAN." };
-                } else if (call.name === 'savePan') {
-                      this.callbacks.onSavePan(call.args as any);
-                      responseResult = { status: "PAN Saved. Proceed to Verify." };
-                } else if (call.name === 'verifyDetails') {
-                      const result = await this.callbacks.onVerifyDetails(call.args as any);
-                      responseResult = { status: result };
-                } else if (call.name === 'createDigilocker') {
-                      this.callbacks.onCreateDigilocker(call.args as any);
-                      responseResult = { status: "Account Created." };
-                }
+                responseResult = await this.tools.execute(call.name, toolArgs);
             } catch (e) {
                 console.error("Tool execution failed", e);
-                responseResult = { error: "Failed to execute tool" };
+                responseResult = e instanceof BackendError
+                    ? { error: "BACKEND_UNAVAILABLE", instruction: "The verification service is unavailable. Apologise and ask the user to try again shortly." }
+                    : { error: "Failed to execute tool" };
             }
 
+            this.audit.append('TOOL_RESULT', { id: call.id, name: call.name, response: responseResult });
+
             // Send Response back to model
             this.session?.sendToolResponse({
                 functionResponses: [
@@ -237,114 +542,380 @@ export class GeminiLiveService {
                     }
                 ]
             });
+            this.checkpoint();
         }
     }
   }
 
-  private async setupMicrophone() {
-    if (!this.inputAudioContext) return;
+  // Tool handlers, called by the registry once the phase and arguments are
+  // checked. Proposals stay on this device; the rest go to the executor.
+  private toolHandlers(): ToolHandlers {
+    return {
+      recordConsent: async args => (await this.runStateful({ tool: 'recordConsent', args, consentMethod: 'VOICE' })).response,
+      proposeAadhar: args => this.proposeDocument('AADHAR', args),
+      proposePan: args => this.proposeDocument('PAN', args),
+      confirmDocument: args => this.confirmDocument(args),
+      correctField: args => this.correctField(args),
+      requestAadhaarOtp: async args => (await this.runStateful({ tool: 'requestAadhaarOtp', args })).response,
+      submitAadhaarOtp: args => this.submitAadhaarOtp(args.otp),
+      verifyDetails: args => this.verifyDetails(args),
+      updateDocumentField: async args => {
+        const update = await this.applyFieldUpdate(args.document, args.field, args.value);
+        if (update.updated) {
+          this.transcript.markCaptured([{ label: `${args.document === 'AADHAR' ? 'Aadhar' : 'PAN'} ${FIELD_LABELS[args.field]}`, value: args.value }]);
+        }
+        return update.response;
+      },
+      reenterDocument: args => this.reenterDocument(args),
+      createDigilocker: args => this.createDigilocker(args.pin)
+    };
+  }
 
-    try {
-      this.mediaStream = await navigator.mediaDevices.getUserMedia({ audio: {
-        channelCount: 1,
-        echoCancellation: true,
-        noiseSuppression: true,
-      }});
-
-      this.inputSource = this.inputAudioContext.createMediaStreamSource(this.mediaStream);
-      this.processor = this.inputAudioContext.createScriptProcessor(4096, 1, 1);
-
-      this.inputSource.connect(this.inputAnalyser!); 
-      this.inputSource.connect(this.processor);
-      this.processor.connect(this.inputAudioContext.destination);
-
-      this.processor.onaudioprocess = (e) => {
-          const inputData = e.inputBuffer.getChannelData(0);
-          
-          // Downsample whatever the system rate is to 16000
-          const downsampledData = downsampleTo16000(inputData, this.inputAudioContext!.sampleRate);
-          
-          // Convert to PCM Int16
-          const pcmData = float32ToInt16(downsampledData);
-          // Base64 Encode
-          const base64Data = arrayBufferToBase64(pcmData.buffer);
-          
-          // Send to Gemini
-          // IMPORTANT: Use the correct structure { media: { mimeType, data } }
-          this.session?.sendRealtimeInput({
-            media: {
-              mimeType: "audio/pcm;rate=16000",
-              data: base64Data
-            }
-          });
-      };
-    } catch (e) {
-      console.error("Microphone setup failed:", e);
-      throw e;
+  private correctField(args: CorrectFieldArgs): ToolResponse {
+    const pending = this.pending[args.document];
+    if (args.document !== documentForPhase(this.phases.current)) return wrongDocumentResponse(args.document, this.phases.current);
+    if (!pending) {
+      return { error: "NOTHING_TO_CORRECT", instruction: `No ${args.document} details are waiting for confirmation. Collect them and call ${args.document === 'AADHAR' ? 'proposeAadhar' : 'proposePan'}.` };
     }
+    return this.proposeDocument(args.document, { ...pending, [args.field]: args.value });
   }
 
-  private async queueAudio(base64Data: string) {
-    if (!this.outputAudioContext || !this.outputAnalyser) return;
+  // Saves the proposal the user confirmed
+  private async confirmDocument(args: ConfirmDocumentArgs): Promise<ToolResponse> {
+    const { response, state } = await this.runStateful({ tool: 'confirmDocument', args, pending: this.pending[args.document] });
+    const saved = args.document === 'AADHAR' ? state.aadhar : state.pan;
+    if ('error' in response || !saved) return response;
 
-    if (this.outputAudioContext.state === 'suspended') {
-        try {
-            await this.outputAudioContext.resume();
-        } catch (e) {
-            console.warn("Could not resume audio context:", e);
-        }
+    const label = args.document === 'AADHAR' ? 'Aadhar' : 'PAN';
+    this.clearPending(args.document);
+    if (args.document === 'AADHAR') {
+      this.callbacks.onSaveAadhar({ ...saved });
+    } else {
+      this.callbacks.onSavePan({ ...saved });
     }
+    this.transcript.markCaptured([
+      { label: `${label} name`, value: saved.fullName },
+      { label: `${label} DOB`, value: saved.dob },
+      { label: `${label} number`, value: saved.number }
+    ]);
+    return response;
+  }
 
-    try {
-      const arrayBuffer = base64ToArrayBuffer(base64Data);
-      const int16Data = new Int16Array(arrayBuffer);
-      
-      // Create buffer at 24kHz (Gemini output)
-      const audioBuffer = createAudioBufferFromPCM(int16Data, this.outputAudioContext, 24000);
-
-      const source = this.outputAudioContext.createBufferSource();
-      source.buffer = audioBuffer;
-      source.connect(this.outputAnalyser);
-      this.outputAnalyser.connect(this.outputAudioContext.destination);
-
-      const currentTime = this.outputAudioContext.currentTime;
-      if (this.nextStartTime < currentTime) {
-          this.nextStartTime = currentTime;
+  private async submitAadhaarOtp(otp: string): Promise<ToolResponse> {
+    const { response, state } = await this.runStateful({ tool: 'submitAadhaarOtp', args: { otp } });
+    if (state.aadhaarOtp.status === 'VERIFIED') {
+      this.transcript.markCaptured([{ label: 'Aadhar OTP', value: otp }]);
+    }
+    return response;
+  }
+
+  private async verifyDetails(args: VerifyDetailsArgs): Promise<ToolResponse> {
+    const { response, state } = await this.runStateful({ tool: 'verifyDetails', args });
+    if (state.verificationResult) this.callbacks.onVerifyDetails(state.verificationResult);
+    return response;
+  }
+
+  private async reenterDocument(args: ReenterDocumentArgs): Promise<ToolResponse> {
+    const { response } = await this.runStateful({ tool: 'reenterDocument', args });
+    if ('error' in response) return response;
+
+    this.clearPending(args.document);
+    delete this.signedScans[args.document];
+    this.callbacks.onReenterDocument(args);
+    return response;
+  }
+
+  private async createDigilocker(pin: string): Promise<ToolResponse> {
+    const { response, state } = await this.runStateful({ tool: 'createDigilocker', args: { pin } });
+    if ('error' in response || !state.digilockerAccountId) return response;
+
+    this.callbacks.onCreateDigilocker(state.digilockerAccountId, PIN_HASH_ALGORITHM);
+    this.transcript.markCaptured([{ label: 'DigiLocker PIN', value: '' }]);
+    return response;
+  }
+
+  // Consent given with the on-screen buttons instead of by voice
+  public async recordConsent(agreed: boolean): Promise<boolean> {
+    if (!this.session || !this.phases.isToolAllowed('recordConsent')) return false;
+
+    const { response } = await this.runStateful({ tool: 'recordConsent', args: { agreed }, consentMethod: 'CLICK' });
+    if ('error' in response) return false;
+    this.session?.sendClientContent({
+      turns: [{ role: 'user', parts: [{ text: `[Consent] I clicked "${agreed ? 'I agree' : 'I do not agree'}" on screen. ${response.instruction}` }] }],
+      turnComplete: true
+    });
+    this.checkpoint();
+    return true;
+  }
+
+  // Validates a proposed (or corrected) document and holds it until confirmed
+  private proposeDocument(document: DocumentType, doc: IdentityDoc) {
+    const validation = document === 'AADHAR' ? validateAadhaar(doc.number) : validatePan(doc.number, doc.fullName);
+    this.audit.append('VALIDATION', { check: `${document}_NUMBER`, valid: validation.valid, errors: validation.errors, warnings: validation.warnings });
+    if (!validation.valid) {
+      return this.invalidNumberResponse(document === 'AADHAR' ? 'Aadhar' : 'PAN', validation);
+    }
+
+    const notOnCard = this.numberNotOnCard(document, validation.value);
+    if (notOnCard) return notOnCard;
+
+    const proposed = this.withAttestation(document, { fullName: doc.fullName, dob: doc.dob, number: validation.value });
+    this.pending[document] = proposed;
+    this.callbacks.onPendingDocument(document, { ...proposed });
+
+    const readBack = readBackDoc(document, proposed);
+    return {
+      status: "PENDING_CONFIRMATION",
+      readBack,
+      warnings: validation.warnings,
+      instruction: `Read these back to the user: name, date of birth, then ${document === 'AADHAR'
+        ? `only the last four digits of the number (${readBack.number}), one digit at a time`
+        : `the number group by group (${readBack.number}), one character at a time`}. ` +
+        `Ask if everything is correct. If yes call confirmDocument with document='${document}'; if one field is wrong call correctField for just that field.`
+    };
+  }
+
+  // Changes one field of a saved document through the executor. A number
+  // that contradicts a scanned card is refused here, where the scan is known.
+  private async applyFieldUpdate(document: DocumentType, field: IdentityField, value: string) {
+    if (document === 'AADHAR' && field === 'number') {
+      const validation = validateAadhaar(value);
+      const notOnCard = validation.valid && this.numberNotOnCard(document, validation.value);
+      if (notOnCard) {
+        return {
+          updated: false,
+          response: { error: notOnCard.error, reasons: notOnCard.reasons, instruction: "The change was not applied. Explain why to the user and ask for the value again." } as ToolResponse
+        };
       }
+    }
 
-      source.start(this.nextStartTime);
-      this.nextStartTime += audioBuffer.duration;
-    } catch (e) {
-      console.error("Error decoding/playing audio:", e);
+    const { response, state } = await this.runStateful({ tool: 'updateDocumentField', args: { document, field, value } });
+    const updated = response.status === 'UPDATED';
+    if (updated) {
+      this.callbacks.onDocumentUpdated(document, { ...(document === 'AADHAR' ? state.aadhar : state.pan)! });
     }
+    return { updated, response };
   }
 
-  public setMicMuted(muted: boolean) {
-    if (this.mediaStream) {
-        this.mediaStream.getAudioTracks().forEach(track => {
-            track.enabled = !muted;
-        });
+  // Click-to-edit from the UI. The assistant is told about the change so the
+  // conversation stays in step with the screen.
+  public async updateDocumentField(document: DocumentType, field: IdentityField, value: string): Promise<DocumentFieldUpdate> {
+    if (!this.phases.isToolAllowed('updateDocumentField')) {
+      return { updated: false, errors: [`Saved details cannot be edited during the ${this.phases.current} step.`] };
+    }
+
+    const update = await this.applyFieldUpdate(document, field, nativeDigitsToAscii(value));
+    this.audit.append('USER_ACTION', { action: 'EDIT_FIELD', document, field, result: update.response });
+    if (update.updated) {
+      const readBack = update.response.readBack as IdentityDoc;
+      this.session?.sendClientContent({
+        turns: [{ role: 'user', parts: [{ text: `[On-screen edit] I changed my ${document} ${FIELD_LABELS[field]} to ${readBack[field]}. ${update.response.instruction}` }] }],
+        turnComplete: true
+      });
+      this.checkpoint();
     }
+    return { updated: update.updated, errors: (update.response.reasons as string[] | undefined) ?? [] };
   }
 
-  public async setOutputPaused(paused: boolean) {
-    if (!this.outputAudioContext) return;
-    if (paused) {
-        await this.outputAudioContext.suspend();
+  // Details read from a card photo become a proposal like a spoken one, and
+  // the assistant is asked to read them back. Missing fields are left for
+  // the assistant to collect by voice.
+  public proposeScan(scan: DocumentScan): ScanProposal {
+    if (!this.session || scan.document !== documentForPhase(this.phases.current)) {
+      return { proposed: false, errors: [`A ${scan.document} card cannot be scanned during the ${this.phases.current} step.`] };
+    }
+
+    if (scan.attestation) {
+      this.signedScans[scan.document] = scan;
+    }
+
+    const label = scan.document === 'AADHAR' ? 'Aadhar' : 'PAN';
+    const found = CORRECTABLE_FIELDS.filter(field => scan.fields[field]);
+    const missing = CORRECTABLE_FIELDS.filter(field => !scan.fields[field]);
+    const notes = [...scan.warnings];
+    if (scan.attestation) {
+      notes.push(`The ${scan.attestation.fields.map(field => FIELD_LABELS[field]).join(' and ')} are signed by UIDAI.`);
+    }
+    if (scan.numberLast4 && !scan.fields.number) {
+      notes.push(`The card's number ends in ${scan.numberLast4}; the full number the user gives must end the same way.`);
+    }
+
+    let message: string;
+    let proposed = false;
+    if (missing.length === 0) {
+      const response = this.proposeDocument(scan.document, scan.fields as IdentityDoc);
+      if ('error' in response) {
+        return { proposed: false, errors: response.reasons };
+      }
+      proposed = true;
+      message = `I scanned my ${label} card. Proposed details: ${JSON.stringify(response.readBack)}. ${response.instruction}`;
     } else {
-        await this.outputAudioContext.resume();
+      const partial = Object.fromEntries(found.map(field => [
+        field,
+        field === 'number' && scan.document === 'AADHAR' ? maskAadhaar(scan.fields.number!) : scan.fields[field]
+      ]));
+      message = `I scanned my ${label} card. It gave ${found.length ? JSON.stringify(partial) : 'no usable details'}; ` +
+        `ask me for the ${missing.map(field => FIELD_LABELS[field]).join(' and ')}, then call ${scan.document === 'AADHAR' ? 'proposeAadhar' : 'proposePan'} with all the details.`;
     }
+
+    this.audit.append('USER_ACTION', { action: 'SCAN', document: scan.document, source: scan.source, signed: !!scan.attestation, proposed });
+    this.session.sendClientContent({
+      turns: [{ role: 'user', parts: [{ text: `[Document scan from ${scan.source}] ${message}${notes.length ? ` Notes: ${notes.join(' ')}` : ''}` }] }],
+      turnComplete: true
+    });
+    this.checkpoint();
+    return { proposed, errors: [] };
+  }
+
+  // Keeps the UIDAI attestation for the fields that still hold the signed values
+  private withAttestation(document: DocumentType, doc: IdentityDoc): IdentityDoc {
+    const { attestation: _, ...fields } = doc;
+    const scan = this.signedScans[document];
+    if (!scan?.attestation) return fields;
+
+    const same = (field: IdentityField): boolean => {
+      const signed = scan.fields[field];
+      if (!signed) return false;
+      if (field === 'dob') {
+        const [a, b] = [parseDob(signed), parseDob(doc.dob)];
+        return !!a && !!b && formatDob(a) === formatDob(b);
+      }
+      return normaliseName(signed).join(' ') === normaliseName(doc.fullName).join(' ');
+    };
+    const attested = scan.attestation.fields.filter(same);
+    return attested.length ? { ...fields, attestation: { ...scan.attestation, fields: attested } } : fields;
+  }
+
+  // A signed scan fixes the last 4 digits of the Aadhar number
+  private numberNotOnCard(document: DocumentType, number: string) {
+    const last4 = this.signedScans[document]?.attestation?.numberLast4;
+    if (!last4 || number.endsWith(last4)) return null;
+    return {
+      error: "NUMBER_NOT_ON_CARD",
+      reasons: [`The scanned Aadhar card's number ends in ${last4}, but this number ends in ${number.slice(-4)}.`],
+      instruction: "Tell the user the number does not match their scanned card and ask for it again, digit by digit."
+    };
+  }
+
+  private clearPending(document: DocumentType) {
+    if (!this.pending[document]) return;
+    delete this.pending[document];
+    this.callbacks.onPendingDocument(document, null);
+  }
+
+  // Numbers spoken in the user's language ("ek do teen", "१२३") become ASCII digits
+  private normaliseSpokenArgs(tool: ToolName, args: Record<string, unknown>): Record<string, unknown> {
+    const language = this.language.code;
+    const normalised = { ...args };
+    const isPan = tool === 'proposePan' || args.document === 'PAN';
+    if (args.number != null) normalised.number = normaliseSpokenNumber(String(args.number), language, isPan);
+    if ((tool === 'correctField' || tool === 'updateDocumentField') && args.value != null) {
+      if (args.field === 'number') normalised.value = normaliseSpokenNumber(String(args.value), language, isPan);
+      if (args.field === 'dob') normalised.value = nativeDigitsToAscii(String(args.value));
+    }
+    if (args.otp != null) normalised.otp = normaliseSpokenNumber(String(args.otp), language);
+    if (args.pin != null) normalised.pin = normaliseSpokenNumber(String(args.pin), language);
+    if (typeof args.dob === 'string') normalised.dob = nativeDigitsToAscii(args.dob);
+    return normalised;
+  }
+
+  // Error sent to the model so it asks the user to repeat the number
+  private invalidNumberResponse(document: 'Aadhar' | 'PAN', validation: ValidationResult) {
+    return {
+      error: `INVALID_${document.toUpperCase()}_NUMBER`,
+      reasons: validation.errors,
+      instruction: `The ${document} number was not saved. Explain the reason to the user and ask them to repeat their ${document} number.`
+    };
+  }
+
+  // Frames from the audio source are streamed to the live session as they arrive
+  private async setupMicrophone() {
+    await this.audioSource.start(frame => {
+        // IMPORTANT: Use the correct structure { media: { mimeType, data } }
+        this.session?.sendRealtimeInput({
+          media: {
+            mimeType: `audio/pcm;rate=${CAPTURE_SAMPLE_RATE}`,
+            data: arrayBufferToBase64(frame)
+          }
+        });
+    });
+  }
+
+  private queueAudio(base64Data: string) {
+    void this.audioSink.play(new Int16Array(base64ToArrayBuffer(base64Data)));
+  }
+
+  // Stop everything queued for playback and rewind the schedule cursor
+  private interruptPlayback() {
+    const droppedSeconds = this.audioSink.interrupt();
+
+    this.events.emit('interrupted', {
+      timestamp: new Date().toISOString(),
+      transcriptEntryId: this.transcript.interrupt(),
+      droppedSeconds
+    });
+  }
+
+  // Switch between microphone and typed input without ending the session
+  public async setInputMode(mode: InputMode) {
+    if (mode === 'voice') {
+      try {
+        await this.setupMicrophone();
+        this.setMicMuted(this.micMuted);
+      } catch (e) {
+        this.teardownMicrophone();
+        this.inputMode = 'text';
+        this.events.emit('inputMode', { mode: 'text', reason: `Microphone unavailable: ${(e as Error)?.message || e}` });
+        return;
+      }
+    } else {
+      this.teardownMicrophone();
+    }
+    this.inputMode = mode;
+    this.events.emit('inputMode', { mode });
+  }
+
+  // Send a typed user turn over the same live session
+  public sendText(text: string) {
+    const trimmed = text.trim();
+    if (!trimmed || !this.session) return;
+
+    this.transcript.append('user', trimmed, true);
+    this.session.sendClientContent({
+      turns: [{ role: 'user', parts: [{ text: trimmed }] }],
+      turnComplete: true
+    });
+  }
+
+  // Releases the microphone and both audio contexts
+  private closeAudio() {
+    this.audioSource.close();
+    this.audioSink.close();
+  }
+
+  private teardownMicrophone() {
+    this.audioSource.stop();
+  }
+
+  public setMicMuted(muted: boolean) {
+    this.micMuted = muted;
+    this.audioSource.setMuted(muted);
+  }
+
+  public async setOutputPaused(paused: boolean) {
+    await this.audioSink.setPaused(paused);
   }
 
   public disconnect() {
+    this.audit.append('SESSION_ENDED', { phase: this.phases.current });
+    this.intentionalClose = true;
+    this.sessionEpoch++;
+    this.phases.transition(AppPhase.IDLE);
+    this.transcript.completeTurn();
     this.session?.close();
-    this.inputSource?.disconnect();
-    this.processor?.disconnect();
-    this.inputAudioContext?.close();
-    this.outputAudioContext?.close();
-    
-    if (this.mediaStream) {
-        this.mediaStream.getTracks().forEach(t => t.stop());
-    }
+    this.session = null;
+    this.resumeHandle = null;
+    this.closeAudio();
+    this.setConnectionState({ state: ConnectionState.CLOSED });
   }
 }
@@ -0,0 +1,179 @@
+import { AudioSink, AudioSource } from '../../types';
+import { createAudioBufferFromPCM } from '../../utils/audioUtils';
+import { CAPTURE_FRAME_SIZE, CAPTURE_PROCESSOR_NAME, CAPTURE_SAMPLE_RATE, loadCaptureWorklet } from '../../utils/captureWorklet';
+
+const OUTPUT_SAMPLE_RATE = 24000; // Gemini output
+
+// Created and resumed inside the user gesture, or browsers keep it suspended
+const openAudioContext = async (): Promise<{ context: AudioContext; analyser: AnalyserNode }> => {
+  const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
+  const context: AudioContext = new AudioContextClass();
+  if (context.state === 'suspended') {
+    await context.resume();
+  }
+  const analyser = context.createAnalyser();
+  analyser.fftSize = 256;
+  return { context, analyser };
+};
+
+// Microphone capture through the PCM16 AudioWorklet
+export class BrowserAudioSource implements AudioSource {
+  private context: AudioContext | null = null;
+  private mediaStream: MediaStream | null = null;
+  private inputSource: MediaStreamAudioSourceNode | null = null;
+  private captureNode: AudioWorkletNode | null = null;
+  public analyser: AnalyserNode | null = null;
+
+  async open() {
+    ({ context: this.context, analyser: this.analyser } = await openAudioContext());
+  }
+
+  async start(onFrame: (frame: ArrayBuffer) => void) {
+    if (!this.context || this.mediaStream) return;
+    if (!navigator.mediaDevices?.getUserMedia) {
+      throw new Error("This browser does not support microphone capture.");
+    }
+
+    try {
+      this.mediaStream = await navigator.mediaDevices.getUserMedia({ audio: {
+        channelCount: 1,
+        echoCancellation: true,
+        noiseSuppression: true,
+      }});
+
+      await loadCaptureWorklet(this.context);
+
+      this.inputSource = this.context.createMediaStreamSource(this.mediaStream);
+      this.captureNode = new AudioWorkletNode(this.context, CAPTURE_PROCESSOR_NAME, {
+        numberOfInputs: 1,
+        numberOfOutputs: 1,
+        channelCount: 1,
+        processorOptions: { targetRate: CAPTURE_SAMPLE_RATE, frameSize: CAPTURE_FRAME_SIZE }
+      });
+
+      this.inputSource.connect(this.analyser!);
+      this.inputSource.connect(this.captureNode);
+      // The node outputs silence; connecting it keeps it in the render graph
+      this.captureNode.connect(this.context.destination);
+
+      // Filtering, resampling and Int16 conversion happen in the worklet;
+      // each message is one fixed-size 16 kHz frame.
+      this.captureNode.port.onmessage = (e: MessageEvent<ArrayBuffer>) => onFrame(e.data);
+    } catch (e) {
+      console.error("Microphone setup failed:", e);
+      throw e;
+    }
+  }
+
+  stop() {
+    this.inputSource?.disconnect();
+    if (this.captureNode) {
+      this.captureNode.port.onmessage = null;
+      this.captureNode.disconnect();
+    }
+    this.mediaStream?.getTracks().forEach(t => t.stop());
+    this.inputSource = null;
+    this.captureNode = null;
+    this.mediaStream = null;
+  }
+
+  setMuted(muted: boolean) {
+    this.mediaStream?.getAudioTracks().forEach(track => {
+      track.enabled = !muted;
+    });
+  }
+
+  close() {
+    this.stop();
+    this.context?.close();
+    this.context = null;
+  }
+}
+
+// Gapless playback: each chunk is scheduled right after the previous one
+export class BrowserAudioSink implements AudioSink {
+  private context: AudioContext | null = null;
+  private nextStartTime = 0;
+  // Every chunk scheduled on the context, so barge-in can stop them
+  private scheduledSources = new Set<AudioBufferSourceNode>();
+  // Bumped on interruption so chunks still being decoded are dropped
+  private playbackGeneration = 0;
+  public analyser: AnalyserNode | null = null;
+
+  async open() {
+    ({ context: this.context, analyser: this.analyser } = await openAudioContext());
+    this.nextStartTime = this.context.currentTime;
+  }
+
+  async play(pcm: Int16Array) {
+    if (!this.context || !this.analyser) return;
+    const generation = this.playbackGeneration;
+
+    if (this.context.state === 'suspended') {
+        try {
+            await this.context.resume();
+        } catch (e) {
+            console.warn("Could not resume audio context:", e);
+        }
+    }
+    if (generation !== this.playbackGeneration) return;
+
+    try {
+      const audioBuffer = createAudioBufferFromPCM(pcm, this.context, OUTPUT_SAMPLE_RATE);
+
+      const source = this.context.createBufferSource();
+      source.buffer = audioBuffer;
+      source.connect(this.analyser);
+      this.analyser.connect(this.context.destination);
+
+      const currentTime = this.context.currentTime;
+      if (this.nextStartTime < currentTime) {
+          this.nextStartTime = currentTime;
+      }
+
+      source.onended = () => this.scheduledSources.delete(source);
+      this.scheduledSources.add(source);
+      source.start(this.nextStartTime);
+      this.nextStartTime += audioBuffer.duration;
+    } catch (e) {
+      console.error("Error decoding/playing audio:", e);
+    }
+  }
+
+  // Stop everything queued for playback and rewind the schedule cursor
+  interrupt(): number {
+    this.playbackGeneration++;
+
+    const now = this.context?.currentTime ?? 0;
+    const droppedSeconds = Math.max(0, this.nextStartTime - now);
+
+    this.scheduledSources.forEach(source => {
+      source.onended = null;
+      try {
+        source.stop();
+      } catch {
+        // Already stopped
+      }
+      source.disconnect();
+    });
+    this.scheduledSources.clear();
+    this.nextStartTime = now;
+    return droppedSeconds;
+  }
+
+  async setPaused(paused: boolean) {
+    if (!this.context) return;
+    if (paused) {
+        await this.context.suspend();
+    } else {
+        await this.context.resume();
+    }
+  }
+
+  close() {
+    this.playbackGeneration++;
+    this.scheduledSources.clear();
+    this.context?.close();
+    this.context = null;
+  }
+}
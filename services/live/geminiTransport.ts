@@ -0,0 +1,27 @@
+import { GoogleGenAI, LiveConnectConfig } from '@google/genai';
+import { LiveConnection, LiveTokenProvider, LiveTransport, LiveTransportCallbacks } from '../../types';
+import { HttpTokenProvider } from './tokenProvider';
+
+export const LIVE_MODEL = 'gemini-2.5-flash-native-audio-preview-09-2025';
+
+// Ephemeral tokens are only accepted by the v1alpha live endpoint
+export const LIVE_API_VERSION = 'v1alpha';
+
+// Same-origin path that the Vite dev server proxies to the API server
+const DEFAULT_API_SERVER_URL = '/api';
+
+// The Gemini Live API over its WebSocket, authenticated with ephemeral tokens
+export class GeminiLiveTransport implements LiveTransport {
+  constructor(private tokens: LiveTokenProvider) {}
+
+  // Uses the API server configured at build time
+  static fromEnvironment(): GeminiLiveTransport {
+    return new GeminiLiveTransport(new HttpTokenProvider(process.env.API_SERVER_URL || DEFAULT_API_SERVER_URL));
+  }
+
+  async connect(model: string, config: LiveConnectConfig, callbacks: LiveTransportCallbacks): Promise<LiveConnection> {
+    const { token } = await this.tokens.getToken();
+    const client = new GoogleGenAI({ apiKey: token, httpOptions: { apiVersion: LIVE_API_VERSION } });
+    return client.live.connect({ model, config, callbacks });
+  }
+}
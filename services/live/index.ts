@@ -0,0 +1,5 @@
+export { BrowserAudioSink, BrowserAudioSource } from './browserAudio';
+export { GeminiLiveTransport, LIVE_API_VERSION, LIVE_MODEL } from './geminiTransport';
+export { MemoryAudioSink, MemoryAudioSource, MemoryLiveConnection, MemoryLiveTransport } from './memory';
+export type { SentMessage } from './memory';
+export { HttpTokenProvider, TokenError } from './tokenProvider';
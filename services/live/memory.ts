@@ -0,0 +1,202 @@
+import {
+  FunctionResponse,
+  LiveConnectConfig,
+  LiveSendClientContentParameters,
+  LiveSendRealtimeInputParameters,
+  LiveSendToolResponseParameters,
+  LiveServerMessage
+} from '@google/genai';
+import { AudioSink, AudioSource, LiveConnection, LiveTransport, LiveTransportCallbacks } from '../../types';
+import { arrayBufferToBase64 } from '../../utils/audioUtils';
+
+// In-memory stand-ins for the browser and the network, so the live service
+// can be driven from Node: the test plays the server's side through
+// MemoryLiveConnection and the user's through MemoryAudioSource.
+
+const OUTPUT_SAMPLE_RATE = 24000;
+
+export type SentMessage =
+  | { kind: 'clientContent'; params: LiveSendClientContentParameters }
+  | { kind: 'toolResponse'; params: LiveSendToolResponseParameters }
+  | { kind: 'realtimeInput'; params: LiveSendRealtimeInputParameters };
+
+export class MemoryLiveConnection implements LiveConnection {
+  // Everything the service sent, in order
+  public readonly sent: SentMessage[] = [];
+  public closed = false;
+  private nextCallId = 0;
+  private awaitingResponse = new Map<string, (response: FunctionResponse) => void>();
+
+  constructor(
+    public readonly model: string,
+    public readonly config: LiveConnectConfig,
+    private callbacks: LiveTransportCallbacks
+  ) {}
+
+  // --- Server side ---
+
+  receive(message: LiveServerMessage) {
+    if (this.closed) throw new Error('The connection is closed.');
+    this.callbacks.onmessage(message);
+  }
+
+  // Sends a tool call and resolves with the service's response to it
+  callTool(name: string, args: Record<string, unknown> = {}): Promise<FunctionResponse> {
+    const id = `call-${++this.nextCallId}`;
+    const responded = new Promise<FunctionResponse>(resolve => this.awaitingResponse.set(id, resolve));
+    this.receive({ toolCall: { functionCalls: [{ id, name, args }] } } as LiveServerMessage);
+    return responded;
+  }
+
+  transcribe(role: 'user' | 'assistant', text: string, finished = true) {
+    const transcription = { text, finished };
+    this.receive({
+      serverContent: role === 'user' ? { inputTranscription: transcription } : { outputTranscription: transcription }
+    } as LiveServerMessage);
+  }
+
+  speak(pcm: Int16Array) {
+    this.receive({
+      serverContent: { modelTurn: { parts: [{ inlineData: { mimeType: `audio/pcm;rate=${OUTPUT_SAMPLE_RATE}`, data: arrayBufferToBase64(pcm.buffer as ArrayBuffer) } }] } }
+    } as LiveServerMessage);
+  }
+
+  completeTurn() {
+    this.receive({ serverContent: { turnComplete: true } } as LiveServerMessage);
+  }
+
+  interrupt() {
+    this.receive({ serverContent: { interrupted: true } } as LiveServerMessage);
+  }
+
+  // Simulates the socket dropping, as a network failure would
+  drop(reason = 'Connection dropped', code = 1006) {
+    this.closed = true;
+    this.callbacks.onclose({ code, reason });
+  }
+
+  // --- Client side (called by the service) ---
+
+  sendClientContent(params: LiveSendClientContentParameters) {
+    this.sent.push({ kind: 'clientContent', params });
+  }
+
+  sendToolResponse(params: LiveSendToolResponseParameters) {
+    this.sent.push({ kind: 'toolResponse', params });
+    const responses = Array.isArray(params.functionResponses) ? params.functionResponses : [params.functionResponses];
+    for (const response of responses) {
+      const resolve = response.id ? this.awaitingResponse.get(response.id) : undefined;
+      if (!resolve) continue;
+      this.awaitingResponse.delete(response.id!);
+      resolve(response);
+    }
+  }
+
+  sendRealtimeInput(params: LiveSendRealtimeInputParameters) {
+    this.sent.push({ kind: 'realtimeInput', params });
+  }
+
+  close() {
+    if (this.closed) return;
+    this.closed = true;
+    this.callbacks.onclose({ code: 1000, reason: '' });
+  }
+}
+
+export class MemoryLiveTransport implements LiveTransport {
+  public readonly connections: MemoryLiveConnection[] = [];
+  // Set to make the next connect attempts fail
+  public failConnects = 0;
+
+  async connect(model: string, config: LiveConnectConfig, callbacks: LiveTransportCallbacks): Promise<MemoryLiveConnection> {
+    if (this.failConnects > 0) {
+      this.failConnects--;
+      throw new Error('Connection refused');
+    }
+    const connection = new MemoryLiveConnection(model, config, callbacks);
+    this.connections.push(connection);
+    callbacks.onopen();
+    return connection;
+  }
+
+  // The most recent connection
+  get current(): MemoryLiveConnection | undefined {
+    return this.connections[this.connections.length - 1];
+  }
+}
+
+// Microphone replacement: frames are pushed in by the test
+export class MemoryAudioSource implements AudioSource {
+  public readonly analyser = null;
+  // Set to false to simulate a missing or blocked microphone
+  public available = true;
+  public muted = false;
+  public opened = false;
+  private onFrame: ((frame: ArrayBuffer) => void) | null = null;
+
+  async open() {
+    this.opened = true;
+  }
+
+  async start(onFrame: (frame: ArrayBuffer) => void) {
+    if (!this.available) throw new Error('No microphone');
+    this.onFrame = onFrame;
+  }
+
+  get capturing(): boolean {
+    return this.onFrame !== null;
+  }
+
+  // Delivers one 16 kHz frame, unless capture is stopped or muted
+  push(frame: Int16Array) {
+    if (this.muted) return;
+    this.onFrame?.(frame.slice().buffer);
+  }
+
+  stop() {
+    this.onFrame = null;
+  }
+
+  setMuted(muted: boolean) {
+    this.muted = muted;
+  }
+
+  close() {
+    this.stop();
+    this.opened = false;
+  }
+}
+
+// Speaker replacement: keeps what would have been played
+export class MemoryAudioSink implements AudioSink {
+  public readonly analyser = null;
+  public readonly chunks: Int16Array[] = [];
+  public paused = false;
+  public opened = false;
+  private queuedSamples = 0;
+
+  async open() {
+    this.opened = true;
+  }
+
+  async play(pcm: Int16Array) {
+    this.chunks.push(pcm);
+    this.queuedSamples += pcm.length;
+  }
+
+  // Nothing actually plays, so everything not yet interrupted counts as queued
+  interrupt(): number {
+    const dropped = this.queuedSamples / OUTPUT_SAMPLE_RATE;
+    this.queuedSamples = 0;
+    return dropped;
+  }
+
+  async setPaused(paused: boolean) {
+    this.paused = paused;
+  }
+
+  close() {
+    this.queuedSamples = 0;
+    this.opened = false;
+  }
+}
@@ -0,0 +1,241 @@
+import { AppPhase } from '../../types';
+import { Scenario, ScenarioStep } from './scriptedServer';
+
+// Scripted conversations for the fake Live server. Numbers pass their
+// checksums unless a step says otherwise; the mock backend accepts OTP 123456.
+
+const NAME = 'Ramesh Kumar Sharma';
+const DOB = '12/03/1990';
+const AADHAR = '4991 1866 5248';
+const PAN = 'ABCPS1234F';
+
+const consent: ScenarioStep[] = [
+  { type: 'expectPhase', phase: AppPhase.CONSENT },
+  { type: 'modelAudio', ms: 500 },
+  { type: 'tool', name: 'recordConsent', args: { agreed: true }, expect: { status: 'CONSENT_RECORDED' } }
+];
+
+const aadhar: ScenarioStep[] = [
+  { type: 'tool', name: 'proposeAadhar', args: { fullName: NAME, number: AADHAR, dob: DOB }, expect: { status: 'PENDING_CONFIRMATION', readBack: { number: 'XXXX XXXX 5248' } } },
+  { type: 'tool', name: 'confirmDocument', args: { document: 'AADHAR' } },
+  { type: 'expectPhase', phase: AppPhase.AADHAR_OTP }
+];
+
+const otp: ScenarioStep[] = [
+  { type: 'tool', name: 'requestAadhaarOtp', expect: { status: 'OTP_SENT' } },
+  { type: 'tool', name: 'submitAadhaarOtp', args: { otp: '123456' }, expect: { status: 'OTP verified. Proceed to PAN.' } },
+  { type: 'expectPhase', phase: AppPhase.PAN }
+];
+
+const pan = (dob = DOB): ScenarioStep[] => [
+  { type: 'tool', name: 'proposePan', args: { fullName: NAME, number: PAN, dob }, expect: { status: 'PENDING_CONFIRMATION' } },
+  { type: 'tool', name: 'confirmDocument', args: { document: 'PAN' }, expect: { status: 'PAN Saved. Proceed to Verify.' } },
+  { type: 'expectPhase', phase: AppPhase.VERIFY }
+];
+
+// Different people whose names share most letters, then true spelling variants
+const LOOKALIKE_NAMES: [string, string][] = [
+  ['Rajesh Kumar', 'Ramesh Kumar'],
+  ['Anil Kumar', 'Sunil Kumar'],
+  ['Rakesh Verma', 'Mukesh Verma'],
+  ['Priya Singh', 'Supriya Singh'],
+  ['Amit Kumar Shah', 'Sumit Kumar Shah'],
+  ['Amit Shah', 'Amita Shah'],
+  ['Jay Prakash Singh', 'Jaya Prakash Singh']
+];
+const VARIANT_NAMES: [string, string][] = [
+  ['Mohammed Irfan Shaikh', 'Muhammad Irfan Shaikh'],
+  ['Lakshmi Devi Sharma', 'Laxmi Devi Sharma']
+];
+
+// Renames the Aadhar holder, collects a PAN for the other name (its 5th
+// letter is the surname initial) and cross-checks them
+const compareNames = ([aadharName, panName]: [string, string], status: 'MATCH' | 'MISMATCH'): ScenarioStep[] => [
+  { type: 'tool', name: 'updateDocumentField', args: { document: 'AADHAR', field: 'fullName', value: aadharName }, expect: { status: 'UPDATED' } },
+  { type: 'tool', name: 'reenterDocument', args: { document: 'PAN' } },
+  { type: 'tool', name: 'proposePan', args: { fullName: panName, number: `ABCP${panName.split(' ').pop()![0]}1234F`, dob: DOB }, expect: { status: 'PENDING_CONFIRMATION' } },
+  { type: 'tool', name: 'confirmDocument', args: { document: 'PAN' }, expect: { status: 'PAN Saved. Proceed to Verify.' } },
+  { type: 'tool', name: 'verifyDetails', args: { action: 'compare' }, expect: { status } }
+];
+
+const digilocker: ScenarioStep[] = [
+  { type: 'tool', name: 'createDigilocker', args: { pin: '123456' }, expect: { error: 'WEAK_PIN' } },
+  { type: 'tool', name: 'createDigilocker', args: { pin: '739154' }, expect: { status: 'Account Created.' } },
+  { type: 'expectPhase', phase: AppPhase.COMPLETE }
+];
+
+export const SCENARIOS: Scenario[] = [
+  {
+    name: 'happy-path',
+    description: 'Consent, Aadhar, OTP, PAN, a MATCH and the DigiLocker account, with barge-in along the way.',
+    steps: [
+      ...consent,
+      { type: 'transcript', role: 'user', text: 'My name is Ramesh Kumar Sharma' },
+      { type: 'userAudio', ms: 400 },
+      ...aadhar,
+      { type: 'modelAudio', ms: 1200 },
+      { type: 'interrupt' },
+      ...otp,
+      ...pan(),
+      { type: 'tool', name: 'verifyDetails', args: { action: 'compare' }, expect: { status: 'MATCH' } },
+      { type: 'expectPhase', phase: AppPhase.DIGILOCKER },
+      ...digilocker
+    ]
+  },
+  {
+    name: 'out-of-order',
+    description: 'Nothing is collected before consent, and steps cannot be skipped.',
+    steps: [
+      { type: 'tool', name: 'proposeAadhar', args: { fullName: NAME, number: AADHAR, dob: DOB }, expect: { error: 'OUT_OF_ORDER', allowedTools: ['recordConsent'] } },
+      { type: 'tool', name: 'recordConsent', args: { agreed: false }, expect: { status: 'CONSENT_DECLINED' } },
+      { type: 'expectPhase', phase: AppPhase.CONSENT },
+      { type: 'tool', name: 'recordConsent', args: { agreed: true }, expect: { status: 'CONSENT_RECORDED' } },
+      { type: 'tool', name: 'createDigilocker', args: { pin: '739154' }, expect: { error: 'OUT_OF_ORDER' } },
+      { type: 'expectPhase', phase: AppPhase.AADHAR }
+    ]
+  },
+  {
+    name: 'mismatch-then-fix',
+    description: 'The PAN date of birth disagrees; fixing that one field turns the MISMATCH into a MATCH.',
+    steps: [
+      ...consent,
+      ...aadhar,
+      ...otp,
+      ...pan('13/03/1990'),
+      { type: 'tool', name: 'verifyDetails', args: { action: 'compare' }, expect: { status: 'MISMATCH' } },
+      { type: 'expectPhase', phase: AppPhase.VERIFY },
+      { type: 'tool', name: 'updateDocumentField', args: { document: 'PAN', field: 'dob', value: DOB }, expect: { status: 'UPDATED' } },
+      { type: 'tool', name: 'verifyDetails', args: { action: 'compare' }, expect: { status: 'MATCH' } },
+      ...digilocker
+    ]
+  },
+  {
+    name: 'lookalike-names',
+    description: 'Names of different people that differ by a letter or two are a MISMATCH; transliteration variants still MATCH.',
+    steps: [
+      ...consent,
+      ...aadhar,
+      ...otp,
+      ...pan(),
+      ...LOOKALIKE_NAMES.flatMap(names => compareNames(names, 'MISMATCH')),
+      ...VARIANT_NAMES.flatMap(names => compareNames(names, 'MATCH'))
+    ]
+  },
+  {
+    name: 'invalid-numbers',
+    description: 'Bad checksums and numbers unknown to UIDAI or the tax department are rejected with recoverable errors.',
+    fixtures: {
+      aadhaar: { '234567890128': { scenario: 'INVALID' } },
+      pan: { 'ABCPS0000A': { scenario: 'INVALID' } }
+    },
+    steps: [
+      ...consent,
+      { type: 'tool', name: 'proposeAadhar', args: { fullName: NAME, number: '4991 1866 5249', dob: DOB }, expect: { error: 'INVALID_AADHAR_NUMBER' } },
+      { type: 'tool', name: 'proposeAadhar', args: { fullName: NAME, number: '4991 1866 524', dob: DOB }, expect: { error: 'INVALID_AADHAR_NUMBER' } },
+      { type: 'tool', name: 'proposeAadhar', args: { fullName: NAME, number: '2345 6789 0128', dob: DOB }, expect: { status: 'PENDING_CONFIRMATION' } },
+      { type: 'tool', name: 'confirmDocument', args: { document: 'AADHAR' } },
+      { type: 'tool', name: 'requestAadhaarOtp', expect: { error: 'OTP_INVALID_AADHAAR' } },
+      { type: 'tool', name: 'reenterDocument', args: { document: 'AADHAR' } },
+      { type: 'expectPhase', phase: AppPhase.AADHAR },
+      ...aadhar,
+      ...otp,
+      { type: 'tool', name: 'proposePan', args: { fullName: NAME, number: 'ABCXS1234F', dob: DOB }, expect: { error: 'INVALID_PAN_NUMBER' } },
+      { type: 'tool', name: 'proposePan', args: { fullName: NAME, number: 'ABCPS12345', dob: DOB }, expect: { error: 'INVALID_PAN_NUMBER' } },
+      { type: 'tool', name: 'proposePan', args: { fullName: NAME, number: 'ABCPS0000A', dob: DOB }, expect: { status: 'PENDING_CONFIRMATION' } },
+      { type: 'tool', name: 'confirmDocument', args: { document: 'PAN' }, expect: { error: 'PAN_INVALID' } },
+      { type: 'tool', name: 'correctField', args: { document: 'PAN', field: 'number', value: PAN }, expect: { status: 'PENDING_CONFIRMATION' } },
+      { type: 'tool', name: 'confirmDocument', args: { document: 'PAN' }, expect: { status: 'PAN Saved. Proceed to Verify.' } }
+    ]
+  },
+  {
+    name: 'otp-lockout',
+    description: 'Wrong OTPs count against the Aadhar number for the whole session; re-entering it neither resets nor escapes the lockout.',
+    steps: [
+      ...consent,
+      ...aadhar,
+      { type: 'tool', name: 'requestAadhaarOtp', expect: { status: 'OTP_SENT', attemptsRemaining: 3, resendsRemaining: 2 } },
+      { type: 'tool', name: 'submitAadhaarOtp', args: { otp: '000000' }, expect: { error: 'OTP_INCORRECT', attemptsRemaining: 2 } },
+      { type: 'tool', name: 'submitAadhaarOtp', args: { otp: '000000' }, expect: { error: 'OTP_INCORRECT', attemptsRemaining: 1 } },
+      { type: 'tool', name: 'reenterDocument', args: { document: 'AADHAR' } },
+      ...aadhar,
+      { type: 'tool', name: 'requestAadhaarOtp', expect: { status: 'OTP_SENT', attemptsRemaining: 1, resendsRemaining: 1 } },
+      { type: 'tool', name: 'submitAadhaarOtp', args: { otp: '000000' }, expect: { error: 'OTP_LOCKED' } },
+      { type: 'tool', name: 'reenterDocument', args: { document: 'AADHAR' }, expect: { error: 'OTP_LOCKED' } },
+      { type: 'tool', name: 'updateDocumentField', args: { document: 'AADHAR', field: 'number', value: '2345 6789 0128' }, expect: { error: 'OTP_LOCKED' } },
+      { type: 'expectPhase', phase: AppPhase.AADHAR_OTP },
+      { type: 'tool', name: 'requestAadhaarOtp', expect: { error: 'OTP_LOCKED' } },
+      { type: 'tool', name: 'submitAadhaarOtp', args: { otp: '123456' }, expect: { error: 'OTP_LOCKED' } }
+    ]
+  },
+  {
+    name: 'invalid-arguments',
+    description: 'Calls with missing, mistyped or unknown arguments get a structured error and change nothing.',
+    steps: [
+      { type: 'tool', name: 'recordConsent', args: { agreed: 'yes' }, expect: { error: 'INVALID_ARGUMENTS' } },
+      { type: 'expectPhase', phase: AppPhase.CONSENT },
+      ...consent.slice(1),
+      { type: 'tool', name: 'proposeAadhar', args: { fullName: NAME, number: AADHAR }, expect: { error: 'INVALID_ARGUMENTS' } },
+      { type: 'tool', name: 'proposeAadhar', args: { fullName: NAME, number: AADHAR, dob: DOB }, expect: { status: 'PENDING_CONFIRMATION' } },
+      { type: 'tool', name: 'confirmDocument', args: { document: 'VOTER_ID' }, expect: { error: 'INVALID_ARGUMENTS' } },
+      { type: 'tool', name: 'correctField', args: { document: 'AADHAR', field: 'address', value: 'Pune' }, expect: { error: 'INVALID_ARGUMENTS' } },
+      { type: 'tool', name: 'lookupAadhar', args: { number: AADHAR }, expect: { error: 'UNKNOWN_TOOL' } },
+      { type: 'expectPhase', phase: AppPhase.AADHAR },
+      { type: 'tool', name: 'confirmDocument', args: { document: 'AADHAR' } },
+      { type: 'expectPhase', phase: AppPhase.AADHAR_OTP }
+    ]
+  },
+  {
+    name: 'reconnect-resumed',
+    description: 'The socket drops after the Aadhar step; the service resumes the same session with its handle.',
+    resumable: true,
+    steps: [
+      ...consent,
+      ...aadhar,
+      { type: 'disconnect', reason: 'Network changed', expectResumed: true },
+      { type: 'expectPhase', phase: AppPhase.AADHAR_OTP },
+      ...otp
+    ]
+  },
+  {
+    name: 'reconnect-briefed',
+    description: 'The socket drops mid-PAN with no resumption handle; a new session is briefed on the progress so far.',
+    steps: [
+      ...consent,
+      ...aadhar,
+      ...otp,
+      { type: 'tool', name: 'proposePan', args: { fullName: NAME, number: PAN, dob: DOB }, expect: { status: 'PENDING_CONFIRMATION' } },
+      { type: 'disconnect', expectResumed: false },
+      { type: 'expectClientContent', includes: 'Session restored' },
+      { type: 'expectPhase', phase: AppPhase.PAN },
+      { type: 'tool', name: 'confirmDocument', args: { document: 'PAN' }, expect: { status: 'PAN Saved. Proceed to Verify.' } },
+      { type: 'tool', name: 'verifyDetails', args: { action: 'compare' }, expect: { status: 'MATCH' } }
+    ]
+  },
+  {
+    name: 'session-server',
+    description: 'The stateful tools run on the session routes; every signed result verifies and the verification completes.',
+    sessionServer: {},
+    steps: [
+      ...consent,
+      ...aadhar,
+      ...otp,
+      ...pan(),
+      { type: 'tool', name: 'verifyDetails', args: { action: 'compare' }, expect: { status: 'MATCH' } },
+      ...digilocker
+    ]
+  },
+  {
+    name: 'session-server-tampered',
+    description: 'A MISMATCH altered to MATCH after the server signed it is rejected, and the DigiLocker step stays closed.',
+    sessionServer: { tamper: { tool: 'verifyDetails', response: { status: 'MATCH' } } },
+    steps: [
+      ...consent,
+      ...aadhar,
+      ...otp,
+      ...pan('13/03/1990'),
+      { type: 'tool', name: 'verifyDetails', args: { action: 'compare' }, expect: { error: 'Failed to execute tool' } },
+      { type: 'expectPhase', phase: AppPhase.VERIFY },
+      { type: 'tool', name: 'createDigilocker', args: { pin: '739154' }, expect: { error: 'OUT_OF_ORDER' } }
+    ]
+  }
+];
@@ -0,0 +1,212 @@
+import { LiveConnectConfig, LiveServerMessage } from '@google/genai';
+import { AppPhase, ConnectionState, LanguageCode, LiveTransportCallbacks, StatefulToolExecutor, StatefulToolName, ToolCallbacks } from '../../types';
+import { MockFixtures, MockVerificationBackend } from '../backend';
+import { GeminiLiveService, LiveLogger } from '../geminiLiveService';
+import { MemoryAudioSink, MemoryAudioSource, MemoryLiveConnection, MemoryLiveTransport } from './memory';
+
+// A stand-in for the Gemini Live server that replays a scripted
+// conversation against GeminiLiveService and checks what it sends back.
+// Scenarios live in ./scenarios; `npm run live-scenarios` runs them.
+
+export type ScenarioStep =
+  // The model calls a tool; the response must contain every value in `expect`
+  | { type: 'tool'; name: string; args?: Record<string, unknown>; expect?: Record<string, unknown> }
+  | { type: 'modelAudio'; ms: number }
+  | { type: 'userAudio'; ms: number }
+  | { type: 'transcript'; role: 'user' | 'assistant'; text: string }
+  | { type: 'interrupt' }
+  // The socket drops; the service must reconnect, by resumption handle or with a briefing
+  | { type: 'disconnect'; reason?: string; expectResumed: boolean }
+  | { type: 'expectPhase'; phase: AppPhase }
+  // The last client turn the service sent (typed text, notices) contains this text
+  | { type: 'expectClientContent'; includes: string };
+
+export interface Scenario {
+  name: string;
+  description: string;
+  language?: LanguageCode;
+  fixtures?: Partial<MockFixtures>;
+  resumable?: boolean; // The server hands out session resumption handles
+  // Run the stateful tools on a session server (server/liveScenarios.ts starts
+  // one). With `tamper`, that tool's signed results are altered in transit.
+  sessionServer?: { tamper?: { tool: StatefulToolName; response: Record<string, unknown> } };
+  steps: ScenarioStep[];
+}
+
+export interface ScenarioOptions {
+  executor?: StatefulToolExecutor; // Required for a scenario with a sessionServer
+  logger?: LiveLogger;
+}
+
+export interface ScenarioResult {
+  name: string;
+  passed: boolean;
+  failures: string[];
+  stepsRun: number;
+}
+
+const RECONNECT_TIMEOUT_MS = 15000;
+const STEP_TIMEOUT_MS = RECONNECT_TIMEOUT_MS + 5000;
+const MODEL_SAMPLES_PER_MS = 24;
+const CAPTURE_FRAME_MS = 40;
+const CAPTURE_FRAME_SAMPLES = 640;
+
+// Live transport that can also issue resumption handles like the real server
+export class ScriptedLiveServer extends MemoryLiveTransport {
+  private handles = 0;
+
+  constructor(private resumable = false) {
+    super();
+  }
+
+  async connect(model: string, config: LiveConnectConfig, callbacks: LiveTransportCallbacks): Promise<MemoryLiveConnection> {
+    const connection = await super.connect(model, config, callbacks);
+    if (this.resumable) {
+      const update = { sessionResumptionUpdate: { resumable: true, newHandle: `handle-${++this.handles}` } } as LiveServerMessage;
+      queueMicrotask(() => connection.receive(update));
+    }
+    return connection;
+  }
+}
+
+// Where `actual` differs from the expected subset, or null if it contains it
+const findMismatch = (actual: unknown, expected: unknown, path = 'response'): string | null => {
+  if (expected !== null && typeof expected === 'object') {
+    if (actual === null || typeof actual !== 'object') return `${path} is ${JSON.stringify(actual)}, expected an object`;
+    if (Array.isArray(expected) && (!Array.isArray(actual) || actual.length !== expected.length)) {
+      return `${path} is ${JSON.stringify(actual)}, expected ${JSON.stringify(expected)}`;
+    }
+    for (const [key, value] of Object.entries(expected)) {
+      const mismatch = findMismatch((actual as Record<string, unknown>)[key], value, `${path}.${key}`);
+      if (mismatch) return mismatch;
+    }
+    return null;
+  }
+  return actual === expected ? null : `${path} is ${JSON.stringify(actual)}, expected ${JSON.stringify(expected)}`;
+};
+
+const waitFor = async (condition: () => boolean, timeoutMs: number): Promise<boolean> => {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) return false;
+    await new Promise(resolve => setTimeout(resolve, 20));
+  }
+  return true;
+};
+
+// Rejects when a step hangs, e.g. a tool call the service never answers
+const withTimeout = <T>(promise: Promise<T>, ms: number, label: string): Promise<T> => {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`${label} did not finish within ${ms / 1000}s`)), ms);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+};
+
+const stepLabel = (step: ScenarioStep) => `${step.type}${step.type === 'tool' ? ` ${step.name}` : ''}`;
+
+export const runScenario = async (scenario: Scenario, options: ScenarioOptions = {}): Promise<ScenarioResult> => {
+  if (scenario.sessionServer && !options.executor) {
+    return { name: scenario.name, passed: false, failures: ['Needs the executor of a session server'], stepsRun: 0 };
+  }
+  const server = new ScriptedLiveServer(scenario.resumable);
+  const audioSource = new MemoryAudioSource();
+  const audioSink = new MemoryAudioSink();
+  let phase = AppPhase.IDLE;
+  const noop = () => {};
+  const callbacks: ToolCallbacks = {
+    onConsent: noop,
+    onPendingDocument: noop,
+    onSaveAadhar: noop,
+    onAadhaarOtpChange: noop,
+    onSavePan: noop,
+    onVerifyDetails: noop,
+    onCreateDigilocker: noop,
+    onReenterDocument: noop,
+    onDocumentUpdated: noop,
+    onPhaseChange: next => { phase = next; }
+  };
+  const service = new GeminiLiveService(
+    callbacks,
+    new MockVerificationBackend({ ...scenario.fixtures, latencyMs: 0 }),
+    scenario.language,
+    { transport: server, audioSource, audioSink, executor: options.executor, logger: options.logger }
+  );
+  let interruptions = 0;
+  service.events.on('interrupted', () => interruptions++);
+
+  const runStep = async (step: ScenarioStep): Promise<string | null> => {
+    const connection = server.current!;
+    switch (step.type) {
+      case 'tool': {
+        const { response } = await connection.callTool(step.name, step.args);
+        return step.expect ? findMismatch(response, step.expect) : null;
+      }
+      case 'modelAudio': {
+        const before = audioSink.chunks.length;
+        connection.speak(new Int16Array(step.ms * MODEL_SAMPLES_PER_MS));
+        return audioSink.chunks.length > before ? null : 'the model audio was not played';
+      }
+      case 'userAudio': {
+        const sent = () => connection.sent.filter(m => m.kind === 'realtimeInput').length;
+        const before = sent();
+        const frames = Math.ceil(step.ms / CAPTURE_FRAME_MS);
+        for (let i = 0; i < frames; i++) audioSource.push(new Int16Array(CAPTURE_FRAME_SAMPLES));
+        return sent() - before === frames ? null : `${sent() - before} of ${frames} microphone frames were streamed`;
+      }
+      case 'transcript':
+        connection.transcribe(step.role, step.text);
+        return null;
+      case 'interrupt': {
+        const before = interruptions;
+        connection.interrupt();
+        return interruptions > before ? null : 'the interruption was not handled';
+      }
+      case 'disconnect': {
+        const before = server.connections.length;
+        connection.drop(step.reason);
+        const reconnected = await waitFor(
+          () => server.connections.length > before && service.currentConnectionState === ConnectionState.OPEN,
+          RECONNECT_TIMEOUT_MS
+        );
+        if (!reconnected) return `the service did not reconnect within ${RECONNECT_TIMEOUT_MS / 1000}s`;
+        const config = server.current!.config;
+        const resumed = !!config.sessionResumption?.handle;
+        if (resumed !== step.expectResumed) {
+          return step.expectResumed ? 'the service did not resume with its handle' : 'the service resumed although no handle was issued';
+        }
+        if (!resumed && !String(config.systemInstruction ?? '').includes('SESSION RESUMED')) {
+          return 'the replacement session was not briefed';
+        }
+        return null;
+      }
+      case 'expectPhase':
+        return phase === step.phase ? null : `phase is ${phase}, expected ${step.phase}`;
+      case 'expectClientContent': {
+        const last = [...connection.sent].reverse().find(m => m.kind === 'clientContent');
+        const text = JSON.stringify(last?.kind === 'clientContent' ? last.params.turns : null);
+        return text.includes(step.includes) ? null : `the last client turn was ${text}, expected it to include "${step.includes}"`;
+      }
+    }
+  };
+
+  const failures: string[] = [];
+  let stepsRun = 0;
+  try {
+    await service.connect('voice');
+    for (const step of scenario.steps) {
+      stepsRun++;
+      const failure = await withTimeout(runStep(step), STEP_TIMEOUT_MS, `Step ${stepsRun} (${stepLabel(step)})`);
+      if (failure) {
+        // Later steps depend on this one, so stop here
+        failures.push(`Step ${stepsRun} (${stepLabel(step)}): ${failure}`);
+        break;
+      }
+    }
+  } catch (e) {
+    failures.push(`Step ${stepsRun} threw: ${(e as Error)?.message || e}`);
+  } finally {
+    service.disconnect();
+  }
+  return { name: scenario.name, passed: failures.length === 0, failures, stepsRun };
+};
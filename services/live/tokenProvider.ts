@@ -0,0 +1,30 @@
+import { LiveToken, LiveTokenProvider } from '../../types';
+
+export class TokenError extends Error {
+  constructor(public status: number, message: string, public retryAfterSeconds: number | null = null) {
+    super(message);
+    this.name = 'TokenError';
+  }
+}
+
+// Fetches a fresh single-use token from the API server for every connection,
+// including reconnects
+export class HttpTokenProvider implements LiveTokenProvider {
+  constructor(private baseUrl: string) {}
+
+  async getToken(): Promise<LiveToken> {
+    let res: Response;
+    try {
+      res = await fetch(`${this.baseUrl.replace(/\/$/, '')}/live/token`, { method: 'POST' });
+    } catch (e) {
+      throw new TokenError(0, `Token server unreachable: ${(e as Error).message}`);
+    }
+
+    if (!res.ok) {
+      const detail = await res.json().catch(() => null);
+      const retryAfter = Number(res.headers.get('Retry-After'));
+      throw new TokenError(res.status, detail?.error || `Token server returned ${res.status}`, retryAfter > 0 ? retryAfter : null);
+    }
+    return res.json() as Promise<LiveToken>;
+  }
+}
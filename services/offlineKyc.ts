@@ -0,0 +1,45 @@
+import { DocumentScan } from '../types';
+import { parseReferenceId } from '../utils/aadhaarQr';
+import { readZip } from '../utils/zipCrypto';
+import { verifyXmlSignature, withSignature } from './uidaiSignature';
+
+const childElement = (parent: Element | null, name: string): Element | null =>
+  Array.from(parent?.childNodes ?? []).find((node): node is Element => node.nodeType === node.ELEMENT_NODE && (node as Element).tagName === name) ?? null;
+
+// Reads the Aadhaar Paperless Offline e-KYC download: a ZIP protected with the
+// 4-character share code chosen at download, holding one signed XML file.
+// Like the Secure QR, it carries only the last 4 digits of the number.
+export const readOfflineKyc = async (zip: Blob, shareCode: string): Promise<DocumentScan> => {
+  const entries = await readZip(new Uint8Array(await zip.arrayBuffer()), shareCode);
+  const entry = entries.find(e => e.name.toLowerCase().endsWith('.xml'));
+  if (!entry) throw new Error('The ZIP file does not contain an offline e-KYC XML file.');
+
+  const xml = new DOMParser().parseFromString(new TextDecoder().decode(entry.data), 'application/xml');
+  const root = xml.documentElement;
+  // Only the Poi at its fixed place is covered by the signature's digest; a
+  // second one anywhere else (e.g. inside the Signature) may be forged
+  const poi = childElement(childElement(root, 'UidData'), 'Poi');
+  const referenceId = root.getAttribute('referenceId');
+  if (root.getElementsByTagName('parsererror').length || !poi || !referenceId) {
+    throw new Error('The file is not an Aadhaar offline e-KYC XML.');
+  }
+  if (root.getElementsByTagName('Poi').length !== 1) {
+    throw new Error('The offline e-KYC XML has unexpected identity data outside its signed part.');
+  }
+
+  const signature = await verifyXmlSignature(xml);
+  if (signature.status === 'INVALID') throw new Error(signature.detail);
+
+  const { last4, generatedAt } = parseReferenceId(referenceId);
+  const scan: DocumentScan = {
+    document: 'AADHAR',
+    source: 'OFFLINE_XML',
+    fields: {
+      fullName: poi.getAttribute('name') ?? undefined,
+      dob: poi.getAttribute('dob')?.replace(/-/g, '/')
+    },
+    numberLast4: last4,
+    warnings: []
+  };
+  return withSignature(scan, signature, generatedAt);
+};
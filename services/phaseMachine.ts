@@ -0,0 +1,85 @@
+import { AppPhase } from '../types';
+import { TOOL_DEFINITIONS, TOOL_NAMES, ToolName } from './tools/definitions';
+
+// Every legal phase change. Nothing is collected until the user has given
+// consent. The backward edges let the user re-enter a document (e.g. Aadhar
+// after a MISMATCH) or fix a saved field without restarting the session; a
+// new Aadhar number goes back through the OTP step.
+export const PHASE_TRANSITIONS: Record<AppPhase, AppPhase[]> = {
+  [AppPhase.IDLE]: [AppPhase.CONSENT],
+  [AppPhase.CONSENT]: [AppPhase.AADHAR, AppPhase.IDLE],
+  [AppPhase.AADHAR]: [AppPhase.AADHAR_OTP, AppPhase.IDLE],
+  [AppPhase.AADHAR_OTP]: [AppPhase.PAN, AppPhase.VERIFY, AppPhase.AADHAR, AppPhase.IDLE],
+  [AppPhase.PAN]: [AppPhase.VERIFY, AppPhase.AADHAR, AppPhase.AADHAR_OTP, AppPhase.IDLE],
+  [AppPhase.VERIFY]: [AppPhase.DIGILOCKER, AppPhase.AADHAR, AppPhase.AADHAR_OTP, AppPhase.PAN, AppPhase.IDLE],
+  [AppPhase.DIGILOCKER]: [AppPhase.COMPLETE, AppPhase.VERIFY, AppPhase.AADHAR_OTP, AppPhase.IDLE],
+  [AppPhase.COMPLETE]: [AppPhase.IDLE]
+};
+
+// Backward edges reachable through 'reenterDocument'. The OTP step can only
+// go back to Aadhar so that re-entering PAN never skips OTP verification.
+export const REENTRY_TARGETS: Partial<Record<AppPhase, AppPhase[]>> = {
+  [AppPhase.AADHAR_OTP]: [AppPhase.AADHAR],
+  [AppPhase.PAN]: [AppPhase.AADHAR],
+  [AppPhase.VERIFY]: [AppPhase.AADHAR, AppPhase.PAN]
+};
+
+export class PhaseTransitionError extends Error {
+  constructor(public from: AppPhase, public to: AppPhase) {
+    super(`Illegal phase transition ${from} -> ${to}`);
+    this.name = 'PhaseTransitionError';
+  }
+}
+
+export class PhaseMachine {
+  private phase: AppPhase = AppPhase.IDLE;
+
+  constructor(private onChange?: (phase: AppPhase) => void) {}
+
+  get current(): AppPhase {
+    return this.phase;
+  }
+
+  canTransition(to: AppPhase): boolean {
+    return to === this.phase || PHASE_TRANSITIONS[this.phase].includes(to);
+  }
+
+  transition(to: AppPhase) {
+    if (to === this.phase) return;
+    if (!this.canTransition(to)) {
+      throw new PhaseTransitionError(this.phase, to);
+    }
+    this.phase = to;
+    this.onChange?.(to);
+  }
+
+  // Jumps straight to a checkpointed phase when resuming a saved session
+  restore(phase: AppPhase) {
+    this.phase = phase;
+    this.onChange?.(phase);
+  }
+
+  canReenter(to: AppPhase): boolean {
+    return REENTRY_TARGETS[this.phase]?.includes(to) ?? false;
+  }
+
+  isToolAllowed(tool: ToolName): boolean {
+    return TOOL_DEFINITIONS[tool]?.phases.includes(this.phase) ?? false;
+  }
+
+  allowedTools(): ToolName[] {
+    return TOOL_NAMES.filter(tool => this.isToolAllowed(tool));
+  }
+
+  // Structured rejection the model can recover from
+  rejection(tool: string) {
+    const allowed = this.allowedTools();
+    return {
+      error: 'OUT_OF_ORDER',
+      currentPhase: this.phase,
+      allowedTools: allowed,
+      instruction: `'${tool}' cannot be called during the ${this.phase} phase. ` +
+        (allowed.length ? `Continue the current step and use one of: ${allowed.join(', ')}.` : 'No tools are available in this phase.')
+    };
+  }
+}
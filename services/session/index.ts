@@ -0,0 +1,15 @@
+import { StatefulToolExecutor, VerificationBackend } from '../../types';
+import { LocalToolExecutor } from './localExecutor';
+import { RemoteToolExecutor } from './remoteExecutor';
+
+export { LocalToolExecutor } from './localExecutor';
+export { RemoteToolExecutor, ResultSignatureError, SessionExpiredError } from './remoteExecutor';
+export { canonicalJson, signObject, signingKeyId, verifyObject, SIGNING_ALGORITHM } from './signing';
+export { VerificationSession } from './verificationSession';
+export type { VerificationSessionOptions } from './verificationSession';
+
+// Run the stateful tools on the API server when one is configured, otherwise in the browser
+export const createToolExecutor = (backend: VerificationBackend): StatefulToolExecutor => {
+  const url = process.env.SESSION_API_URL;
+  return url ? new RemoteToolExecutor(url, process.env.SESSION_SIGNING_KEY_ID || undefined) : new LocalToolExecutor(backend);
+};
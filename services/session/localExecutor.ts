@@ -0,0 +1,31 @@
+import {
+  LanguageCode,
+  SessionSnapshot,
+  SessionStateEnvelope,
+  StatefulToolCall,
+  StatefulToolExecutor,
+  StatefulToolResult,
+  VerificationBackend
+} from '../../types';
+import { VerificationSession } from './verificationSession';
+
+// Runs the stateful tools in the browser. Results are unsigned, so reports
+// built from them carry no server attestation.
+export class LocalToolExecutor implements StatefulToolExecutor {
+  public readonly sessionId: string | null = null;
+  public readonly sessionToken: string | null = null;
+  private session: VerificationSession | null = null;
+
+  constructor(private backend: VerificationBackend) {}
+
+  async open(language: LanguageCode, resume?: SessionSnapshot): Promise<SessionStateEnvelope> {
+    this.session = new VerificationSession(this.backend, language);
+    if (resume) this.session.restore(resume);
+    return this.session.envelope();
+  }
+
+  execute(call: StatefulToolCall): Promise<StatefulToolResult> {
+    if (!this.session) return Promise.reject(new Error('The verification session is not open.'));
+    return this.session.execute(call);
+  }
+}
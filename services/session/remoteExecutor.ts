@@ -0,0 +1,113 @@
+import {
+  LanguageCode,
+  SessionSnapshot,
+  SessionStateEnvelope,
+  StatefulToolCall,
+  StatefulToolExecutor,
+  StatefulToolResult
+} from '../../types';
+import { BackendError } from '../backend';
+import { signingKeyId, verifyObject } from './signing';
+
+export class ResultSignatureError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ResultSignatureError';
+  }
+}
+
+// The server no longer holds the session a checkpoint refers to: it was
+// dropped after going idle, or the server restarted
+export class SessionExpiredError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SessionExpiredError';
+  }
+}
+
+interface OpenedSession {
+  publicKey: JsonWebKey;
+  envelope: SessionStateEnvelope;
+  token?: string; // Only when the session is created
+}
+
+// Runs the stateful tools on the API server (see server/sessionRoutes.ts).
+// Every result must carry a valid signature for this session and a newer
+// sequence number; anything else is rejected before the UI sees it.
+export class RemoteToolExecutor implements StatefulToolExecutor {
+  public sessionId: string | null = null;
+  public sessionToken: string | null = null;
+  private publicKey: JsonWebKey | null = null;
+  private lastSeq = -1;
+
+  // Pass the expected key id to refuse any other signing key
+  constructor(private baseUrl: string, private pinnedKeyId?: string) {}
+
+  private async request<T>(method: 'GET' | 'POST', path: string, body?: unknown): Promise<T> {
+    let res: Response;
+    try {
+      res = await fetch(`${this.baseUrl.replace(/\/$/, '')}${path}`, {
+        method,
+        headers: {
+          ...(body === undefined ? {} : { 'Content-Type': 'application/json' }),
+          ...(this.sessionToken ? { Authorization: `Bearer ${this.sessionToken}` } : {})
+        },
+        body: body === undefined ? undefined : JSON.stringify(body)
+      });
+    } catch (e) {
+      throw new BackendError(0, `Session server unreachable: ${(e as Error).message}`);
+    }
+
+    if (!res.ok) {
+      const detail = await res.json().catch(() => null);
+      throw new BackendError(res.status, detail?.error || `Session server returned ${res.status}`);
+    }
+    return res.json() as Promise<T>;
+  }
+
+  // A reload continues the server's copy of the session; the snapshot's own
+  // state is not sent. Throws SessionExpiredError when that copy is gone.
+  async open(language: LanguageCode, resume?: SessionSnapshot): Promise<SessionStateEnvelope> {
+    let opened: OpenedSession;
+    if (resume?.serverSessionId) {
+      this.sessionToken = resume.serverSessionToken ?? null;
+      opened = await this.request<OpenedSession>('GET', `/sessions/${encodeURIComponent(resume.serverSessionId)}`).catch(e => {
+        if (e instanceof BackendError && (e.status === 404 || e.status === 401)) {
+          throw new SessionExpiredError('The saved verification has expired on the server.');
+        }
+        throw e;
+      });
+    } else {
+      this.sessionToken = null;
+      opened = await this.request<OpenedSession>('POST', '/sessions', { language });
+      this.sessionToken = opened.token ?? null;
+    }
+
+    if (this.pinnedKeyId && await signingKeyId(opened.publicKey) !== this.pinnedKeyId) {
+      throw new ResultSignatureError('The session server signed with an unexpected key.');
+    }
+    this.publicKey = opened.publicKey;
+    this.sessionId = opened.envelope.sessionId;
+    this.lastSeq = -1;
+    await this.check(opened.envelope);
+    return opened.envelope;
+  }
+
+  async execute(call: StatefulToolCall): Promise<StatefulToolResult> {
+    if (!this.sessionId) throw new Error('The verification session is not open.');
+    const result = await this.request<StatefulToolResult>('POST', `/sessions/${encodeURIComponent(this.sessionId)}/tools`, call);
+    await this.check(result);
+    if (result.tool !== call.tool) throw new ResultSignatureError(`Expected a ${call.tool} result, got ${result.tool}.`);
+    if (result.attestation && !await verifyObject(result.attestation, this.publicKey!)) {
+      throw new ResultSignatureError('The attestation signature did not verify.');
+    }
+    return result;
+  }
+
+  private async check(envelope: SessionStateEnvelope) {
+    if (envelope.sessionId !== this.sessionId) throw new ResultSignatureError('The result is for a different session.');
+    if (envelope.seq <= this.lastSeq) throw new ResultSignatureError(`Stale result #${envelope.seq}; already saw #${this.lastSeq}.`);
+    if (!await verifyObject(envelope, this.publicKey!)) throw new ResultSignatureError('The result signature did not verify.');
+    this.lastSeq = envelope.seq;
+  }
+}
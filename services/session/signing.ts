@@ -0,0 +1,48 @@
+import { ResultSignature } from '../../types';
+import { arrayBufferToBase64, base64ToArrayBuffer } from '../../utils/audioUtils';
+
+// Signatures on results issued by the API server. The browser checks them
+// before showing anything; the back office checks the attestation in the report.
+
+export const SIGNING_ALGORITHM = { name: 'ECDSA', namedCurve: 'P-256' };
+const SIGNATURE_PARAMS = { name: 'ECDSA', hash: 'SHA-256' };
+
+// JSON with sorted keys and no undefined values, so both sides sign the same bytes
+export const canonicalJson = (value: unknown): string => {
+  if (value === null || typeof value !== 'object') return JSON.stringify(value) ?? 'null';
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`;
+  const entries = Object.entries(value as Record<string, unknown>)
+    .filter(([, v]) => v !== undefined)
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(',')}}`;
+};
+
+const signedBytes = (signed: object): Uint8Array => {
+  const { signature: _, ...rest } = signed as { signature?: unknown };
+  return new TextEncoder().encode(canonicalJson(rest));
+};
+
+// First 16 hex characters of the SHA-256 of the public key's coordinates
+export const signingKeyId = async (publicKey: JsonWebKey): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(canonicalJson({ crv: publicKey.crv, kty: publicKey.kty, x: publicKey.x, y: publicKey.y })));
+  return Array.from(new Uint8Array(digest).slice(0, 8), b => b.toString(16).padStart(2, '0')).join('');
+};
+
+export const signObject = async <T extends { signature: ResultSignature | null }>(
+  unsigned: Omit<T, 'signature'>,
+  privateKey: CryptoKey,
+  keyId: string
+): Promise<T> => {
+  const value = await crypto.subtle.sign(SIGNATURE_PARAMS, privateKey, signedBytes(unsigned));
+  return { ...unsigned, signature: { algorithm: 'ECDSA-P256-SHA256', keyId, value: arrayBufferToBase64(value) } } as T;
+};
+
+export const verifyObject = async (signed: { signature: ResultSignature | null }, publicKey: JsonWebKey): Promise<boolean> => {
+  if (!signed.signature || signed.signature.keyId !== await signingKeyId(publicKey)) return false;
+  try {
+    const key = await crypto.subtle.importKey('jwk', publicKey, SIGNING_ALGORITHM, false, ['verify']);
+    return await crypto.subtle.verify(SIGNATURE_PARAMS, key, new Uint8Array(base64ToArrayBuffer(signed.signature.value)), signedBytes(signed));
+  } catch {
+    return false;
+  }
+};
@@ -0,0 +1,389 @@
+import {
+  AadhaarOtpState,
+  AppPhase,
+  ConsentRecord,
+  DocumentType,
+  IdentityDoc,
+  IdentityField,
+  LanguageCode,
+  PanStatus,
+  SessionSnapshot,
+  SessionStateEnvelope,
+  StatefulToolCall,
+  StatefulToolName,
+  StatefulToolResult,
+  VerificationAttestation,
+  VerificationBackend,
+  VerificationResult,
+  VerificationState,
+  VerificationStatus
+} from '../../types';
+import { CONSENT_STATEMENT_VERSION, LANGUAGES } from '../../i18n/languages';
+import { matchIdentityDocs, parseDob } from '../../utils/identityMatch';
+import { readBackDoc, validateAadhaar, validatePan } from '../../utils/documentValidation';
+import { checkPinStrength, hashPin } from '../../utils/pinSecurity';
+import { AadhaarOtpFlow, INITIAL_OTP_STATE, otpLockedResponse } from '../aadhaarOtp';
+import { PhaseMachine } from '../phaseMachine';
+import { reportDocument } from '../verificationReport';
+import { TOOL_DEFINITIONS, ToolArgs, ToolResponse, invalidArgumentsResponse, parseArgs } from '../tools';
+
+// The saved side of a verification: consent, confirmed documents, the OTP
+// challenge, the cross-check and the DigiLocker account. The same code runs
+// in the browser and on the API server; whichever runs it holds the
+// authoritative copy, and the live service only mirrors the state it returns.
+
+export const CORRECTABLE_FIELDS: IdentityField[] = ['fullName', 'dob', 'number'];
+export const FIELD_LABELS: Record<IdentityField, string> = { fullName: 'name', dob: 'DOB', number: 'number' };
+
+// The document being collected in a phase, if any
+export const documentForPhase = (phase: AppPhase): DocumentType | null => {
+  if (phase === AppPhase.AADHAR) return 'AADHAR';
+  if (phase === AppPhase.PAN) return 'PAN';
+  return null;
+};
+
+export const wrongDocumentResponse = (document: DocumentType, phase: AppPhase) => ({
+  error: "WRONG_DOCUMENT",
+  currentPhase: phase,
+  instruction: `The ${document} details are not being collected right now. Only the ${documentForPhase(phase)} details can be confirmed or corrected in this step.`
+});
+
+type StatefulHandlers = {
+  [N in StatefulToolName]: (args: ToolArgs<N>, call: StatefulToolCall) => ToolResponse | Promise<ToolResponse>;
+};
+
+export interface VerificationSessionOptions {
+  sessionId?: string;
+  // UIDAI attestations on documents are checked in the browser; the server
+  // cannot re-check them, so it drops them
+  trustAttestations?: boolean;
+}
+
+export class VerificationSession {
+  public readonly sessionId: string;
+  private trustAttestations: boolean;
+  private phases = new PhaseMachine();
+  private consent: ConsentRecord | null = null;
+  private aadhar: IdentityDoc | null = null;
+  private pan: IdentityDoc | null = null;
+  private otp: AadhaarOtpFlow | null = null;
+  // OTP counters per Aadhaar number, so re-entering a number cannot reset them
+  private otpHistory = new Map<string, AadhaarOtpState>();
+  private verificationResult: VerificationResult | null = null;
+  private digilockerAccountId: string | null = null;
+  private seq = 0;
+  // Calls are applied one at a time, in the order they arrive
+  private tail: Promise<unknown> = Promise.resolve();
+  private validations: Record<string, unknown>[] = [];
+  private handlers: StatefulHandlers;
+
+  constructor(private backend: VerificationBackend, private language: LanguageCode, options: VerificationSessionOptions = {}) {
+    this.sessionId = options.sessionId ?? crypto.randomUUID();
+    this.trustAttestations = options.trustAttestations ?? true;
+    // A session starts once the assistant is about to ask for consent
+    this.phases.transition(AppPhase.CONSENT);
+    this.handlers = {
+      recordConsent: (args, call) => this.recordConsent(args.agreed, call.consentMethod ?? 'VOICE'),
+      confirmDocument: (args, call) => this.confirmDocument(args.document, call.pending),
+      requestAadhaarOtp: async () => (await this.otp!.request()).response,
+      submitAadhaarOtp: args => this.submitAadhaarOtp(args.otp),
+      updateDocumentField: args => this.updateDocumentField(args.document, args.field, args.value),
+      verifyDetails: () => this.verifyDetails(),
+      reenterDocument: args => this.reenterDocument(args.document),
+      createDigilocker: args => this.createDigilocker(args.pin)
+    };
+  }
+
+  get state(): VerificationState {
+    return {
+      phase: this.phases.current,
+      consent: this.consent,
+      aadhar: this.aadhar ? { ...this.aadhar } : null,
+      aadhaarOtp: this.otp ? { ...this.otp.current } : { ...INITIAL_OTP_STATE },
+      pan: this.pan ? { ...this.pan } : null,
+      verificationResult: this.verificationResult,
+      digilockerAccountId: this.digilockerAccountId
+    };
+  }
+
+  // The current state, unsigned
+  envelope(): SessionStateEnvelope {
+    return { sessionId: this.sessionId, seq: this.seq, state: this.state, issuedAt: new Date().toISOString(), signature: null };
+  }
+
+  // Re-applies checkpointed progress after a page reload
+  restore(saved: VerificationState | SessionSnapshot) {
+    this.consent = saved.consent ?? null;
+    this.aadhar = saved.aadhar ? { ...saved.aadhar } : null;
+    this.pan = saved.pan ? { ...saved.pan } : null;
+    this.verificationResult = saved.verificationResult;
+    this.digilockerAccountId = saved.digilockerAccountId;
+    this.otp = null;
+    if (this.aadhar) {
+      this.otp = this.newOtpFlow(this.aadhar.number);
+      this.otp.restore(saved.aadhaarOtp);
+    }
+    this.phases.restore(saved.phase);
+  }
+
+  // Summary of a COMPLETE verification, for the server to sign
+  attestationBody(): Omit<VerificationAttestation, 'signature'> | null {
+    if (this.phases.current !== AppPhase.COMPLETE) return null;
+    const consent = this.consent;
+    const result = this.verificationResult;
+    return {
+      format: 'digiverifier-attestation/1',
+      sessionId: this.sessionId,
+      issuedAt: new Date().toISOString(),
+      consent: consent && {
+        agreed: consent.agreed,
+        method: consent.method,
+        language: consent.language,
+        statementVersion: consent.statementVersion,
+        recordedAt: consent.recordedAt
+      },
+      aadhar: reportDocument('AADHAR', this.aadhar),
+      aadhaarOtpVerified: this.otp?.current.status === 'VERIFIED',
+      pan: reportDocument('PAN', this.pan),
+      verification: result && { status: result.status, score: result.score, confidence: result.confidence, checkedAt: result.checkedAt },
+      digilockerAccountId: this.digilockerAccountId
+    };
+  }
+
+  async execute(call: StatefulToolCall): Promise<StatefulToolResult> {
+    const run = this.tail.then(() => this.apply(call));
+    this.tail = run.catch(() => undefined);
+    return run;
+  }
+
+  private async apply(call: StatefulToolCall): Promise<StatefulToolResult> {
+    this.validations = [];
+    let response: ToolResponse;
+    if (!TOOL_DEFINITIONS[call.tool] || !this.handlers[call.tool]) {
+      response = { error: 'UNKNOWN_TOOL', instruction: `'${call.tool}' does not change saved details.` };
+    } else if (!this.phases.isToolAllowed(call.tool)) {
+      response = this.phases.rejection(call.tool);
+    } else {
+      const parsed = parseArgs(TOOL_DEFINITIONS[call.tool].parameters, call.args);
+      response = parsed.valid ? await this.run(call.tool, parsed.value, call) : invalidArgumentsResponse(call.tool, parsed.errors);
+    }
+
+    this.seq++;
+    return { ...this.envelope(), tool: call.tool, response, validations: this.validations, attestation: null };
+  }
+
+  private run<N extends StatefulToolName>(tool: N, args: ToolArgs<N>, call: StatefulToolCall) {
+    return this.handlers[tool](args, call);
+  }
+
+  // Picks up where this number's last challenge left off; a number verified
+  // earlier is challenged again, but its attempts and sends still count
+  private newOtpFlow(aadhaarNumber: string): AadhaarOtpFlow {
+    const flow = new AadhaarOtpFlow(this.backend, aadhaarNumber, state => this.otpHistory.set(aadhaarNumber, state));
+    const previous = this.otpHistory.get(aadhaarNumber);
+    if (previous) {
+      flow.restore(previous.status === 'VERIFIED'
+        ? { ...INITIAL_OTP_STATE, attemptsRemaining: previous.attemptsRemaining, requestsUsed: previous.requestsUsed }
+        : previous);
+    }
+    return flow;
+  }
+
+  private get otpLocked(): boolean {
+    return this.otp?.current.status === 'LOCKED';
+  }
+
+  // Nothing is collected until the user agrees; after declining they can still change their mind
+  private recordConsent(agreed: boolean, method: ConsentRecord['method']): ToolResponse {
+    const language = LANGUAGES[this.language];
+    this.consent = {
+      agreed,
+      method,
+      language: language.code,
+      statementVersion: CONSENT_STATEMENT_VERSION,
+      statement: language.consentStatement,
+      recordedAt: new Date().toISOString()
+    };
+
+    if (!agreed) {
+      return {
+        status: "CONSENT_DECLINED",
+        instruction: "Tell the user that verification cannot continue without their consent and that nothing has been collected. They can end the session, or agree if they change their mind."
+      };
+    }
+    this.phases.transition(AppPhase.AADHAR);
+    return { status: "CONSENT_RECORDED", instruction: "Thank the user, then ask for their full name as on their Aadhar card." };
+  }
+
+  private async confirmDocument(document: DocumentType, pending?: IdentityDoc): Promise<ToolResponse> {
+    if (document !== documentForPhase(this.phases.current)) return wrongDocumentResponse(document, this.phases.current);
+    if (!pending) {
+      return { error: "NOTHING_TO_CONFIRM", instruction: `No ${document} details are waiting for confirmation. Collect them and call ${document === 'AADHAR' ? 'proposeAadhar' : 'proposePan'}.` };
+    }
+
+    // The proposal was checked when it was made, but may come from an untrusted client
+    const doc = this.checkedProposal(document, pending);
+    if ('error' in doc) return doc;
+
+    if (document === 'AADHAR') {
+      if (this.otpHistory.get(doc.number)?.status === 'LOCKED') return otpLockedResponse();
+      this.aadhar = doc;
+      this.otp = this.newOtpFlow(doc.number);
+      this.phases.transition(AppPhase.AADHAR_OTP);
+      return { status: "Aadhar Saved. Call requestAadhaarOtp to verify it." };
+    }
+
+    const panCheck = await this.backend.verifyPan(doc.number, doc.fullName, doc.dob, this.aadhar?.number);
+    this.validations.push({ check: 'PAN_RECORDS', status: panCheck.status, message: panCheck.message });
+    if (panCheck.status !== PanStatus.VALID) {
+      return {
+        error: `PAN_${panCheck.status}`,
+        reasons: [panCheck.message],
+        instruction: "The PAN was not accepted by the tax department records. Explain the reason to the user and ask them to check their PAN, then call correctField with the corrected value."
+      };
+    }
+    this.pan = doc;
+    this.phases.transition(AppPhase.VERIFY);
+    return { status: "PAN Saved. Proceed to Verify." };
+  }
+
+  private checkedProposal(document: DocumentType, pending: IdentityDoc): IdentityDoc | { error: string; reasons: string[]; instruction: string } {
+    const fullName = String(pending.fullName ?? '').trim();
+    const dob = String(pending.dob ?? '').trim();
+    const validation = document === 'AADHAR' ? validateAadhaar(String(pending.number ?? '')) : validatePan(String(pending.number ?? ''), fullName);
+    const reasons = [
+      ...(fullName ? [] : ['The name is empty.']),
+      ...(parseDob(dob) ? [] : ['The date of birth could not be understood; use DD/MM/YYYY.']),
+      ...validation.errors
+    ];
+    if (reasons.length) {
+      return { error: `INVALID_${document}_DETAILS`, reasons, instruction: `The ${document} details were not saved. Explain why and collect them again.` };
+    }
+    const doc: IdentityDoc = { fullName, dob, number: validation.value };
+    return this.trustAttestations && pending.attestation ? { ...doc, attestation: pending.attestation } : doc;
+  }
+
+  private async submitAadhaarOtp(otp: string): Promise<ToolResponse> {
+    const step = await this.otp!.submit(otp);
+    if (!step.verified) return step.response;
+
+    // Re-entry after a MISMATCH goes straight back to verification
+    this.phases.transition(this.pan ? AppPhase.VERIFY : AppPhase.PAN);
+    return { ...step.response, status: `OTP verified. Proceed to ${this.phases.current}.` };
+  }
+
+  // Changes one field of a saved document: re-validates it, drops the last
+  // verification result, and repeats the OTP step for a new Aadhar number
+  private async updateDocumentField(document: DocumentType, field: IdentityField, rawValue: string): Promise<ToolResponse> {
+    const rejected = (error: string, reasons: string[]) => ({
+      error,
+      reasons,
+      instruction: "The change was not applied. Explain why to the user and ask for the value again."
+    });
+
+    if (document === 'AADHAR' && this.otpLocked) return otpLockedResponse();
+    const current = document === 'AADHAR' ? this.aadhar : this.pan;
+    if (!current) return rejected("NOT_SAVED", [`The ${document} details have not been saved yet.`]);
+
+    const value = rawValue.trim();
+    if (!value) return rejected("EMPTY_VALUE", [`The new ${FIELD_LABELS[field]} is empty.`]);
+    if (field === 'dob' && !parseDob(value)) return rejected("INVALID_DOB", ["The date of birth could not be understood; use DD/MM/YYYY."]);
+
+    const next: IdentityDoc = { ...current, [field]: value };
+    if (document === 'AADHAR') {
+      const validation = validateAadhaar(next.number);
+      if (!validation.valid) return rejected("INVALID_AADHAR_NUMBER", validation.errors);
+      next.number = validation.value;
+    } else {
+      // The PAN letters depend on the name, so every PAN field is re-checked
+      const validation = validatePan(next.number, next.fullName);
+      if (!validation.valid) return rejected("INVALID_PAN_NUMBER", validation.errors);
+      next.number = validation.value;
+    }
+    if (next[field] === current[field]) {
+      return { status: "UNCHANGED", instruction: "The value is the same as the saved one." };
+    }
+    if (document === 'PAN') {
+      const panCheck = await this.backend.verifyPan(next.number, next.fullName, next.dob, this.aadhar?.number);
+      if (panCheck.status !== PanStatus.VALID) return rejected(`PAN_${panCheck.status}`, [panCheck.message]);
+    }
+
+    // A changed field is no longer the one UIDAI signed
+    const signedFields = next.attestation?.fields.filter(signed => signed !== field) ?? [];
+    const { attestation, ...fields } = next;
+    const updated: IdentityDoc = attestation && signedFields.length ? { ...fields, attestation: { ...attestation, fields: signedFields } } : fields;
+    if (document === 'AADHAR') {
+      this.aadhar = updated;
+    } else {
+      this.pan = updated;
+    }
+    this.verificationResult = null;
+
+    let nextStep = "Continue the current step.";
+    if (document === 'AADHAR' && field === 'number') {
+      this.otp = this.newOtpFlow(updated.number);
+      this.phases.transition(AppPhase.AADHAR_OTP);
+      nextStep = "The Aadhar number changed, so it must be verified again: call requestAadhaarOtp.";
+    } else if (this.phases.current === AppPhase.VERIFY || this.phases.current === AppPhase.DIGILOCKER) {
+      this.phases.transition(AppPhase.VERIFY);
+      nextStep = "The details changed, so call verifyDetails again.";
+    }
+
+    return {
+      status: "UPDATED",
+      document,
+      field,
+      readBack: readBackDoc(document, updated),
+      instruction: `Read the new ${FIELD_LABELS[field]} back to the user. ${nextStep}`
+    };
+  }
+
+  private verifyDetails(): ToolResponse {
+    const result = matchIdentityDocs(this.aadhar, this.pan);
+    this.validations.push({ check: 'CROSS_MATCH', status: result.status, score: result.score, confidence: result.confidence, reasons: result.reasons });
+    this.verificationResult = result;
+    if (result.status === VerificationStatus.MATCH) {
+      this.phases.transition(AppPhase.DIGILOCKER);
+    }
+    return {
+      status: result.status,
+      score: result.score,
+      confidence: result.confidence,
+      fields: result.fields,
+      reasons: result.reasons
+    };
+  }
+
+  private reenterDocument(document: DocumentType): ToolResponse {
+    // A locked number stays locked; re-entering it must not start a fresh challenge
+    if (this.otpLocked) return otpLockedResponse();
+    const target = document === 'PAN' ? AppPhase.PAN : AppPhase.AADHAR;
+    if (!this.phases.canReenter(target)) return this.phases.rejection('reenterDocument');
+
+    if (target === AppPhase.AADHAR) this.otp = null;
+    this.verificationResult = null;
+    this.phases.transition(target);
+    return { status: `Collect the ${document} details again.` };
+  }
+
+  private async createDigilocker(pin: string): Promise<ToolResponse> {
+    const strength = checkPinStrength(pin, this.aadhar?.dob);
+    if (!strength.valid) {
+      return {
+        error: "WEAK_PIN",
+        reasons: strength.errors,
+        instruction: "The PIN was not accepted. Explain why without repeating the PIN and ask the user for a stronger 6-digit PIN."
+      };
+    }
+
+    const pinHash = await hashPin(strength.value);
+    const account = await this.backend.createDigilockerAccount({
+      aadhaarNumber: this.aadhar!.number,
+      panNumber: this.pan!.number,
+      pinHash
+    });
+    this.digilockerAccountId = account.accountId;
+    this.phases.transition(AppPhase.COMPLETE);
+    return { status: "Account Created.", accountId: account.accountId };
+  }
+}
@@ -0,0 +1,52 @@
+import { AppPhase, DocumentType, IdentityDoc, SessionSnapshot } from '../types';
+import { maskDocumentNumber } from '../utils/redaction';
+
+// What the assistant should do next in each phase
+const NEXT_STEP: Record<AppPhase, string> = {
+  [AppPhase.IDLE]: "Greet the user and ask for their consent.",
+  [AppPhase.CONSENT]: "Read the consent statement to the user again and call recordConsent with their answer.",
+  [AppPhase.AADHAR]: "Collect the remaining Aadhar details (name, DOB, number), call proposeAadhar, read them back and call confirmDocument once the user agrees. If Aadhar details are already awaiting confirmation, read those back instead.",
+  [AppPhase.AADHAR_OTP]: "Continue the Aadhar OTP step: call requestAadhaarOtp if no OTP was sent yet, otherwise ask for the OTP.",
+  [AppPhase.PAN]: "Collect the PAN details (name, DOB, number), call proposePan, read them back and call confirmDocument once the user agrees. If PAN details are already awaiting confirmation, read those back instead.",
+  [AppPhase.VERIFY]: "Call verifyDetails and explain the outcome.",
+  [AppPhase.DIGILOCKER]: "Ask the user for a secure 6-digit DigiLocker PIN and call createDigilocker.",
+  [AppPhase.COMPLETE]: "The process is complete. Confirm success and say goodbye."
+};
+
+// Only the last four characters are shared; the service already holds the full number
+const describeFields = (document: DocumentType, doc: IdentityDoc): string =>
+  `name "${doc.fullName}", DOB ${doc.dob}, number ${maskDocumentNumber(document, doc.number)}` +
+  (doc.attestation ? `; ${doc.attestation.fields.join(' and ')} signed by UIDAI` : '');
+
+const describeDoc = (document: DocumentType, doc: IdentityDoc | null, pending?: IdentityDoc): string => {
+  const label = document === 'AADHAR' ? 'Aadhar' : 'PAN';
+  if (pending) return `- ${label}: proposed but NOT yet confirmed by the user (${describeFields(document, pending)}).`;
+  return doc ? `- ${label}: saved (${describeFields(document, doc)}).` : `- ${label}: not collected yet.`;
+};
+
+// Context for a replacement session, so the assistant picks up where the
+// dropped one stopped instead of starting over
+export const buildResumeBriefing = (snapshot: SessionSnapshot, cause = 'a connection drop'): string => {
+  const lines = [
+    `SESSION RESUMED AFTER ${cause.toUpperCase()}.`,
+    "The user has already been greeted. Do NOT greet them again or restart the process.",
+    "Briefly tell the user you are picking up where they left off, then continue from the current step.",
+    "",
+    "Progress so far:",
+    `- Consent: ${snapshot.consent ? `${snapshot.consent.agreed ? 'given' : 'declined'} (${snapshot.consent.method.toLowerCase()})` : 'not recorded yet'}.`,
+    describeDoc('AADHAR', snapshot.aadhar, snapshot.pending?.AADHAR),
+    `- Aadhar OTP: ${snapshot.aadhaarOtp.status}.`,
+    describeDoc('PAN', snapshot.pan, snapshot.pending?.PAN)
+  ];
+
+  if (snapshot.verificationResult) {
+    const { status, score, reasons } = snapshot.verificationResult;
+    lines.push(`- Verification: ${status} (score ${score.toFixed(2)})${reasons.length ? `: ${reasons.join('; ')}` : ''}.`);
+  }
+  if (snapshot.digilockerAccountId) {
+    lines.push(`- DigiLocker account created: ${snapshot.digilockerAccountId}.`);
+  }
+
+  lines.push("", `Current step: ${snapshot.phase}. ${NEXT_STEP[snapshot.phase]}`);
+  return lines.join('\n');
+};
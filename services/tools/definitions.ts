@@ -0,0 +1,120 @@
+import { FunctionDeclaration } from '@google/genai';
+import { AppPhase } from '../../types';
+import { Infer, ObjectSchema, t, toGeminiSchema } from './schema';
+
+// Every tool the model can call, declared once: what the model is told, the
+// arguments it must send, and the phases in which the call is accepted.
+// Handlers are supplied by GeminiLiveService (see ToolRegistry).
+
+export interface ToolDefinition<P extends ObjectSchema = ObjectSchema> {
+  description: string;
+  parameters: P;
+  phases: AppPhase[];
+}
+
+const DOCUMENT = ['AADHAR', 'PAN'] as const;
+const FIELD = ['fullName', 'dob', 'number'] as const;
+
+const defineTool = <const P extends ObjectSchema>(definition: ToolDefinition<P>) => definition;
+
+// In the order they are declared to the model
+export const TOOL_DEFINITIONS = {
+  recordConsent: defineTool({
+    description: "Record the user's answer to the consent statement. Call it only after reading the statement and hearing a clear yes or no.",
+    parameters: t.object({
+      agreed: t.boolean('true if the user clearly agreed, false if they declined')
+    }),
+    phases: [AppPhase.CONSENT]
+  }),
+  proposeAadhar: defineTool({
+    description: 'Propose the Aadhar card details once the user has given their Name, Aadhar Number and Date of Birth. They stay unconfirmed until read back and confirmed with confirmDocument.',
+    parameters: t.object({
+      fullName: t.string('Full Name on Aadhar'),
+      number: t.string('12-digit Aadhar Number'),
+      dob: t.string('Date of Birth (DD-MM-YYYY)')
+    }),
+    phases: [AppPhase.AADHAR]
+  }),
+  proposePan: defineTool({
+    description: 'Propose the PAN card details once the user has given their Name, PAN Number and Date of Birth. They stay unconfirmed until read back and confirmed with confirmDocument.',
+    parameters: t.object({
+      fullName: t.string('Full Name on PAN'),
+      number: t.string('10-character PAN Number'),
+      dob: t.string('Date of Birth')
+    }),
+    phases: [AppPhase.PAN]
+  }),
+  confirmDocument: defineTool({
+    description: 'Save the proposed document after the user confirmed the read-back is correct.',
+    parameters: t.object({
+      document: t.enum(DOCUMENT, 'Which proposed document to confirm')
+    }),
+    phases: [AppPhase.AADHAR, AppPhase.PAN]
+  }),
+  correctField: defineTool({
+    description: 'Fix a single field of the proposed document that the user said was read back wrong. The other fields are kept.',
+    parameters: t.object({
+      document: t.enum(DOCUMENT, 'Which proposed document to correct'),
+      field: t.enum(FIELD, 'The field to replace'),
+      value: t.string('The corrected value')
+    }),
+    phases: [AppPhase.AADHAR, AppPhase.PAN]
+  }),
+  requestAadhaarOtp: defineTool({
+    description: 'Send a one-time password to the mobile number registered with the saved Aadhar. Call again to resend.',
+    parameters: t.object({}),
+    phases: [AppPhase.AADHAR_OTP]
+  }),
+  submitAadhaarOtp: defineTool({
+    description: 'Submit the 6-digit OTP the user read out from their phone.',
+    parameters: t.object({
+      otp: t.string('6-digit OTP')
+    }),
+    phases: [AppPhase.AADHAR_OTP]
+  }),
+  verifyDetails: defineTool({
+    description: 'Verify if Aadhar and PAN details match. Returns MATCH or MISMATCH with a score and the reasons for each field that disagrees.',
+    parameters: t.object({
+      action: t.string('Action description, e.g., "compare"')
+    }),
+    phases: [AppPhase.VERIFY]
+  }),
+  updateDocumentField: defineTool({
+    description: 'Change one field of an already saved Aadhar or PAN, e.g. to fix a single wrong digit after a MISMATCH. Resets the verification result.',
+    parameters: t.object({
+      document: t.enum(DOCUMENT, 'Which saved document to change'),
+      field: t.enum(FIELD, 'The field to change'),
+      value: t.string('The new value')
+    }),
+    phases: [AppPhase.AADHAR_OTP, AppPhase.PAN, AppPhase.VERIFY, AppPhase.DIGILOCKER]
+  }),
+  reenterDocument: defineTool({
+    description: 'Go back to collect the Aadhar or PAN details again, e.g. after a MISMATCH.',
+    parameters: t.object({
+      document: t.enum(DOCUMENT, 'Which document to collect again')
+    }),
+    phases: [AppPhase.AADHAR_OTP, AppPhase.PAN, AppPhase.VERIFY]
+  }),
+  createDigilocker: defineTool({
+    description: 'Create the DigiLocker account using a 6-digit PIN provided by the user.',
+    parameters: t.object({
+      pin: t.string('6-digit Security PIN')
+    }),
+    phases: [AppPhase.DIGILOCKER]
+  })
+};
+
+export type ToolName = keyof typeof TOOL_DEFINITIONS;
+
+export type ToolArgs<N extends ToolName> = Infer<(typeof TOOL_DEFINITIONS)[N]['parameters']>;
+
+export const TOOL_NAMES = Object.keys(TOOL_DEFINITIONS) as ToolName[];
+
+export const isToolName = (name: string | undefined): name is ToolName =>
+  name !== undefined && Object.prototype.hasOwnProperty.call(TOOL_DEFINITIONS, name);
+
+export const TOOL_DECLARATIONS: FunctionDeclaration[] = TOOL_NAMES.map(name => ({
+  name,
+  description: TOOL_DEFINITIONS[name].description,
+  parameters: toGeminiSchema(TOOL_DEFINITIONS[name].parameters)
+}));
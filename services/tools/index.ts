@@ -0,0 +1,6 @@
+export { TOOL_DECLARATIONS, TOOL_DEFINITIONS, TOOL_NAMES, isToolName } from './definitions';
+export type { ToolArgs, ToolDefinition, ToolName } from './definitions';
+export { ToolRegistry, invalidArgumentsResponse } from './registry';
+export type { ToolHandlers, ToolResponse } from './registry';
+export { parseArgs, t, toGeminiSchema } from './schema';
+export type { Infer, ObjectSchema, ParsedArgs } from './schema';
@@ -0,0 +1,45 @@
+import { PhaseMachine } from '../phaseMachine';
+import { TOOL_DEFINITIONS, TOOL_NAMES, ToolArgs, ToolName, isToolName } from './definitions';
+import { parseArgs } from './schema';
+
+export type ToolResponse = Record<string, unknown>;
+
+// One handler per tool, receiving arguments that already passed the schema
+export type ToolHandlers = {
+  [N in ToolName]: (args: ToolArgs<N>) => ToolResponse | Promise<ToolResponse>;
+};
+
+export const invalidArgumentsResponse = (name: ToolName, errors: string[]): ToolResponse => ({
+  error: 'INVALID_ARGUMENTS',
+  reasons: errors,
+  instruction: `'${name}' was not run. Ask the user for anything missing, then call it again with every argument filled in.`
+});
+
+// Dispatches tool calls from the model. A call reaches its handler only if
+// the tool exists, is allowed in the current phase and has valid arguments;
+// otherwise the model gets a structured error it can recover from.
+export class ToolRegistry {
+  constructor(private handlers: ToolHandlers, private phases: PhaseMachine) {}
+
+  async execute(name: string | undefined, args: Record<string, unknown>): Promise<ToolResponse> {
+    if (!isToolName(name)) {
+      return {
+        error: 'UNKNOWN_TOOL',
+        instruction: `There is no tool called '${name ?? ''}'. Use one of: ${TOOL_NAMES.join(', ')}.`
+      };
+    }
+    if (!this.phases.isToolAllowed(name)) {
+      return this.phases.rejection(name);
+    }
+
+    const parsed = parseArgs(TOOL_DEFINITIONS[name].parameters, args);
+    if (!parsed.valid) {
+      return invalidArgumentsResponse(name, parsed.errors);
+    }
+    return this.run(name, parsed.value);
+  }
+
+  private run<N extends ToolName>(name: N, args: ToolArgs<N>) {
+    return this.handlers[name](args);
+  }
+}
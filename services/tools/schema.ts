@@ -0,0 +1,86 @@
+import { Schema as GeminiSchema, Type } from '@google/genai';
+
+// A small schema language for tool arguments. One schema gives the Gemini
+// declaration (toGeminiSchema), the TypeScript type (Infer) and the runtime
+// check of what the model actually sent (parseArgs).
+
+export interface StringSchema<T extends string = string> {
+  kind: 'string';
+  description: string;
+  enum?: readonly T[];
+}
+
+export interface BooleanSchema {
+  kind: 'boolean';
+  description: string;
+}
+
+export type ValueSchema = StringSchema | BooleanSchema;
+
+// Every property is required: the model is asked to call a tool only once it has all of them
+export interface ObjectSchema<P extends Record<string, ValueSchema> = Record<string, ValueSchema>> {
+  kind: 'object';
+  properties: P;
+}
+
+type InferValue<S> =
+  S extends StringSchema<infer T> ? T :
+  S extends BooleanSchema ? boolean :
+  never;
+
+export type Infer<S extends ObjectSchema> = { [K in keyof S['properties']]: InferValue<S['properties'][K]> };
+
+export const t = {
+  string: (description: string): StringSchema => ({ kind: 'string', description }),
+  enum: <const T extends string>(values: readonly T[], description: string): StringSchema<T> => ({ kind: 'string', description, enum: values }),
+  boolean: (description: string): BooleanSchema => ({ kind: 'boolean', description }),
+  object: <const P extends Record<string, ValueSchema>>(properties: P): ObjectSchema<P> => ({ kind: 'object', properties })
+};
+
+// The OpenAPI-style schema used in Gemini function declarations
+export const toGeminiSchema = (schema: ObjectSchema): GeminiSchema => {
+  const properties = Object.fromEntries(Object.entries(schema.properties).map(([key, value]): [string, GeminiSchema] => [
+    key,
+    value.kind === 'boolean'
+      ? { type: Type.BOOLEAN, description: value.description }
+      : { type: Type.STRING, description: value.description, ...(value.enum ? { enum: [...value.enum] } : {}) }
+  ]));
+  const required = Object.keys(properties);
+  return { type: Type.OBJECT, properties, ...(required.length ? { required } : {}) };
+};
+
+// Like ValidationResult: `value` is only complete when `valid` is true
+export interface ParsedArgs<T> {
+  valid: boolean;
+  value: T;
+  errors: string[];
+}
+
+// Checks arguments from the model against the schema. Unknown properties are
+// dropped, strings are trimmed, and every problem is reported, not just the
+// first. Values are never echoed back, since they may be a PIN or an OTP.
+export const parseArgs = <S extends ObjectSchema>(schema: S, args: unknown): ParsedArgs<Infer<S>> => {
+  if (args === null || typeof args !== 'object' || Array.isArray(args)) {
+    return { valid: false, value: {} as Infer<S>, errors: ['Arguments must be an object.'] };
+  }
+
+  const input = args as Record<string, unknown>;
+  const value: Record<string, unknown> = {};
+  const errors: string[] = [];
+  for (const [key, property] of Object.entries(schema.properties)) {
+    const raw = input[key];
+    if (raw === undefined || raw === null || raw === '') {
+      errors.push(`'${key}' is required (${property.description}).`);
+    } else if (property.kind === 'boolean') {
+      if (typeof raw === 'boolean') value[key] = raw;
+      else errors.push(`'${key}' must be true or false, got a ${typeof raw}.`);
+    } else if (typeof raw !== 'string') {
+      errors.push(`'${key}' must be a string, got a ${typeof raw}.`);
+    } else if (property.enum && !property.enum.includes(raw.trim())) {
+      errors.push(`'${key}' must be one of ${property.enum.join(', ')}.`);
+    } else {
+      value[key] = raw.trim();
+    }
+  }
+  return { valid: errors.length === 0, value: value as Infer<S>, errors };
+};
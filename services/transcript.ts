@@ -0,0 +1,113 @@
+import { CapturedField, TranscriptEntry, TranscriptRole } from '../types';
+
+const digitsOf = (text: string): string => text.replace(/\D/g, '');
+
+// True when a transcript turn plausibly contains the captured value
+const turnMentions = (entry: TranscriptEntry, field: CapturedField): boolean => {
+  const digits = digitsOf(field.value);
+  if (digits.length >= 4) {
+    return digitsOf(entry.text).includes(digits.slice(-4));
+  }
+  const words = field.value.toLowerCase().split(/\s+/).filter(w => w.length > 1);
+  const text = entry.text.toLowerCase();
+  return words.length > 0 && words.some(w => text.includes(w));
+};
+
+// Assembles streamed input/output transcription chunks into conversation turns
+export class TranscriptBuilder {
+  private entries: TranscriptEntry[] = [];
+  private open: Partial<Record<TranscriptRole, TranscriptEntry>> = {};
+  private raw: Partial<Record<TranscriptRole, string>> = {}; // Unredacted text of open turns
+  private counter = 0;
+
+  constructor(
+    private onUpdate: (entry: TranscriptEntry) => void,
+    private redact: (role: TranscriptRole, text: string) => string = (_role, text) => text
+  ) {}
+
+  get all(): TranscriptEntry[] {
+    return this.entries;
+  }
+
+  append(role: TranscriptRole, text: string, finished = false) {
+    if (!text && (!finished || !this.open[role])) return;
+
+    // A new speaker closes the other speaker's open turn
+    const other: TranscriptRole = role === 'user' ? 'assistant' : 'user';
+    if (this.open[other]) this.finalise(other);
+
+    let entry = this.open[role];
+    if (!entry) {
+      entry = {
+        id: `${role}-${++this.counter}`,
+        role,
+        text: '',
+        final: false,
+        timestamp: new Date().toISOString(),
+        capturedFields: []
+      };
+      this.entries.push(entry);
+      this.open[role] = entry;
+      this.raw[role] = '';
+    }
+
+    // Secrets such as the DigiLocker PIN or an Aadhar number are masked before
+    // they are stored. The whole turn is redacted again on every chunk, since a
+    // number is usually split across chunks.
+    this.raw[role] += text;
+    entry.text = this.redact(role, this.raw[role]!);
+    this.onUpdate({ ...entry });
+    if (finished) this.finalise(role);
+  }
+
+  // Closes every open turn (server signalled turnComplete)
+  completeTurn() {
+    this.finalise('user');
+    this.finalise('assistant');
+  }
+
+  // Marks the assistant turn being spoken as cut off; returns its id
+  interrupt(): string | null {
+    const entry = this.open.assistant ?? [...this.entries].reverse().find(e => e.role === 'assistant');
+    if (!entry) return null;
+    entry.interrupted = true;
+    if (this.open.assistant === entry) {
+      this.finalise('assistant');
+    } else {
+      this.onUpdate({ ...entry });
+    }
+    return entry.id;
+  }
+
+  private finalise(role: TranscriptRole) {
+    const entry = this.open[role];
+    if (!entry) return;
+    entry.final = true;
+    entry.text = entry.text.trim();
+    delete this.open[role];
+    delete this.raw[role];
+    this.onUpdate({ ...entry });
+  }
+
+  // Highlight the user turn in which each saved field was spoken
+  markCaptured(fields: CapturedField[]) {
+    const userTurns = this.entries.filter(e => e.role === 'user');
+    if (!userTurns.length) return;
+
+    const touched = new Set<TranscriptEntry>();
+    for (const field of fields) {
+      const entry = [...userTurns].reverse().find(e => turnMentions(e, field)) ?? userTurns[userTurns.length - 1];
+      if (!entry.capturedFields.includes(field.label)) {
+        entry.capturedFields = [...entry.capturedFields, field.label];
+        touched.add(entry);
+      }
+    }
+    touched.forEach(entry => this.onUpdate({ ...entry }));
+  }
+
+  clear() {
+    this.entries = [];
+    this.open = {};
+    this.raw = {};
+  }
+}
@@ -0,0 +1,149 @@
+import { DocumentScan, SignatureCheck } from '../types';
+import { SecureQrData } from '../utils/aadhaarQr';
+import { arrayBufferToBase64, base64ToArrayBuffer } from '../utils/audioUtils';
+import { canonicalize } from '../utils/xmlCanonical';
+
+// UIDAI signing certificates, bundled at build time from certs/ (see
+// vite.config.ts). Base64 DER or PEM; several may be present across key rotations.
+const CERTIFICATES: string[] = JSON.parse(process.env.UIDAI_CERTIFICATES || '[]');
+
+const SECURE_QR_SIGNATURE_LENGTH = 256; // RSA-2048
+
+const XMLDSIG = 'http://www.w3.org/2000/09/xmldsig#';
+const C14N = 'http://www.w3.org/TR/2001/REC-xml-c14n-20010315';
+const ENVELOPED = 'http://www.w3.org/2000/09/xmldsig#enveloped-signature';
+
+const SIGNATURE_HASHES: Record<string, 'SHA-1' | 'SHA-256'> = {
+  'http://www.w3.org/2000/09/xmldsig#rsa-sha1': 'SHA-1',
+  'http://www.w3.org/2001/04/xmldsig-more#rsa-sha256': 'SHA-256'
+};
+
+const DIGEST_HASHES: Record<string, 'SHA-1' | 'SHA-256'> = {
+  'http://www.w3.org/2000/09/xmldsig#sha1': 'SHA-1',
+  'http://www.w3.org/2001/04/xmlenc#sha256': 'SHA-256'
+};
+
+const base64ToBytes = (value: string): Uint8Array => new Uint8Array(base64ToArrayBuffer(value.replace(/\s+/g, '')));
+
+// DER tag-length-value header at pos
+const readTlv = (der: Uint8Array, pos: number) => {
+  let length = der[pos + 1];
+  let header = 2;
+  if (length & 0x80) {
+    const count = length & 0x7f;
+    length = 0;
+    for (let i = 0; i < count; i++) length = length * 256 + der[pos + 2 + i];
+    header += count;
+  }
+  return { tag: der[pos], start: pos + header, end: pos + header + length };
+};
+
+// SubjectPublicKeyInfo of an X.509 certificate: tbsCertificate's 7th field,
+// or its 6th when the optional version tag is absent
+const certificateSpki = (der: Uint8Array): Uint8Array => {
+  const tbs = readTlv(der, readTlv(der, 0).start);
+  const children: { start: number; end: number; tag: number; pos: number }[] = [];
+  for (let pos = tbs.start; pos < tbs.end;) {
+    const child = readTlv(der, pos);
+    children.push({ ...child, pos });
+    pos = child.end;
+  }
+  const spki = children[children[0]?.tag === 0xa0 ? 6 : 5];
+  if (!spki) throw new Error('Unreadable certificate.');
+  return der.subarray(spki.pos, spki.end);
+};
+
+const spkiFromBundled = (value: string): Uint8Array => {
+  const der = base64ToBytes(value.replace(/-----(BEGIN|END) [A-Z ]+-----/g, ''));
+  return value.includes('BEGIN PUBLIC KEY') ? der : certificateSpki(der);
+};
+
+const keyCache = new Map<string, Promise<CryptoKey[]>>();
+
+const uidaiKeys = (hash: 'SHA-1' | 'SHA-256'): Promise<CryptoKey[]> => {
+  let keys = keyCache.get(hash);
+  if (!keys) {
+    keys = Promise.all(CERTIFICATES.map(cert =>
+      crypto.subtle.importKey('spki', spkiFromBundled(cert), { name: 'RSASSA-PKCS1-v1_5', hash }, false, ['verify'])
+    ));
+    keyCache.set(hash, keys);
+  }
+  return keys;
+};
+
+const verifyWithUidai = async (hash: 'SHA-1' | 'SHA-256', signature: Uint8Array, data: Uint8Array): Promise<SignatureCheck> => {
+  if (CERTIFICATES.length === 0) {
+    return { status: 'NO_CERTIFICATE', detail: 'No UIDAI certificate is bundled, so the signature could not be checked.' };
+  }
+  for (const key of await uidaiKeys(hash)) {
+    if (await crypto.subtle.verify('RSASSA-PKCS1-v1_5', key, signature, data)) {
+      return { status: 'VERIFIED', detail: 'Signed by UIDAI.' };
+    }
+  }
+  return { status: 'INVALID', detail: 'The UIDAI signature does not match; the data may have been altered.' };
+};
+
+// Secure QR: RSA-SHA256 over everything before the trailing 256-byte signature
+export const verifySecureQr = (qr: SecureQrData): Promise<SignatureCheck> => {
+  const split = qr.payload.length - SECURE_QR_SIGNATURE_LENGTH;
+  return verifyWithUidai('SHA-256', qr.payload.subarray(split), qr.payload.subarray(0, split));
+};
+
+// Direct XML-DSig children only. Searching deeper would accept elements moved
+// into unsigned parts of the document, e.g. a Signature wrapped in another
+// element next to forged data.
+const dsigChildren = (parent: Element, name: string): Element[] =>
+  Array.from(parent.childNodes).filter((node): node is Element =>
+    node.nodeType === node.ELEMENT_NODE && (node as Element).namespaceURI === XMLDSIG && (node as Element).localName === name);
+
+const dsigChild = (parent: Element, name: string): Element | null => dsigChildren(parent, name)[0] ?? null;
+
+// The enveloped Signature of a document: exactly one, directly under the root
+const xmlSignatureElement = (xml: Document): Element | null => {
+  const signatures = dsigChildren(xml.documentElement, 'Signature');
+  return signatures.length === 1 ? signatures[0] : null;
+};
+
+// Enveloped XML signature over the whole document, as in the offline e-KYC XML
+export const verifyXmlSignature = async (xml: Document): Promise<SignatureCheck> => {
+  const signature = xmlSignatureElement(xml);
+  const signedInfo = signature && dsigChild(signature, 'SignedInfo');
+  const reference = signedInfo && dsigChild(signedInfo, 'Reference');
+  if (!signature || !signedInfo || !reference) {
+    return { status: 'INVALID', detail: 'The XML is not signed, or its signature is not where UIDAI puts it.' };
+  }
+
+  const algorithm = (name: string, parent: Element = signedInfo) => dsigChild(parent, name)?.getAttribute('Algorithm') ?? '';
+  const signatureHash = SIGNATURE_HASHES[algorithm('SignatureMethod')];
+  const digestHash = DIGEST_HASHES[algorithm('DigestMethod', reference)];
+  const transforms = Array.from(dsigChild(reference, 'Transforms')?.childNodes ?? [])
+    .filter(node => node.nodeType === node.ELEMENT_NODE)
+    .map(t => (t as Element).getAttribute('Algorithm'));
+  if (!signatureHash || !digestHash || algorithm('CanonicalizationMethod') !== C14N
+      || reference.getAttribute('URI') !== '' || transforms.some(t => t !== ENVELOPED && t !== C14N)) {
+    return { status: 'INVALID', detail: 'The XML signature uses an unsupported form.' };
+  }
+
+  const encoder = new TextEncoder();
+  const content = canonicalize(xml.documentElement, el => el === signature);
+  const digest = await crypto.subtle.digest(digestHash, encoder.encode(content));
+  if (arrayBufferToBase64(digest) !== (dsigChild(reference, 'DigestValue')?.textContent ?? '').replace(/\s+/g, '')) {
+    return { status: 'INVALID', detail: 'The XML content does not match its signed digest; it may have been altered.' };
+  }
+
+  const signatureValue = base64ToBytes(dsigChild(signature, 'SignatureValue')?.textContent ?? '');
+  return verifyWithUidai(signatureHash, signatureValue, encoder.encode(canonicalize(signedInfo)));
+};
+
+// Marks the signed fields of a scan once its signature has been checked
+export const withSignature = (scan: DocumentScan, signature: SignatureCheck, signedAt: string | null): DocumentScan => {
+  if (signature.status !== 'VERIFIED' || !scan.numberLast4) {
+    return { ...scan, signature, warnings: [...scan.warnings, signature.detail] };
+  }
+  const fields = (['fullName', 'dob'] as const).filter(field => scan.fields[field]);
+  return {
+    ...scan,
+    signature,
+    attestation: { source: scan.source === 'OFFLINE_XML' ? 'OFFLINE_XML' : 'SECURE_QR', fields: [...fields], numberLast4: scan.numberLast4, signedAt }
+  };
+};
@@ -0,0 +1,123 @@
+import { AuditEntry, DocumentType, IdentityDoc, SessionSnapshot, VerificationReport, VerificationResult } from '../types';
+import { buildTextPdf, PdfLine } from '../utils/pdf';
+import { maskDocumentNumber, redactDeep } from '../utils/redaction';
+
+// Reports are built on the device from a COMPLETE snapshot. They hold the
+// masked documents only; timestamps come from the audit trail.
+
+const FIELD_NAMES = { fullName: 'Name', dob: 'Date of birth', number: 'Number' } as const;
+
+// Masked document, as reports and server attestations show it
+export const reportDocument = (document: DocumentType, doc: IdentityDoc | null) =>
+  doc && {
+    fullName: doc.fullName,
+    dob: doc.dob,
+    number: maskDocumentNumber(document, doc.number),
+    signedFields: doc.attestation?.fields ?? []
+  };
+
+const lastEntry = (entries: AuditEntry[], matches: (entry: AuditEntry) => boolean): AuditEntry | null =>
+  [...entries].reverse().find(matches) ?? null;
+
+export const buildVerificationReport = (snapshot: SessionSnapshot): VerificationReport => {
+  const entries = snapshot.audit?.entries ?? [];
+  const consentEntry = lastEntry(entries, e => e.type === 'CONSENT');
+  const { consent } = snapshot;
+
+  return {
+    format: 'digiverifier-report/1',
+    reportId: crypto.randomUUID(),
+    sessionId: snapshot.audit?.sessionId ?? '',
+    generatedAt: new Date().toISOString(),
+    startedAt: entries.find(e => e.type === 'SESSION_STARTED')?.at ?? null,
+    completedAt: lastEntry(entries, e => e.type === 'PHASE' && e.data.phase === 'COMPLETE')?.at ?? null,
+    consent: consent && {
+      agreed: consent.agreed,
+      method: consent.method,
+      language: consent.language,
+      statementVersion: consent.statementVersion,
+      recordedAt: consent.recordedAt,
+      auditSeq: consentEntry?.seq ?? null,
+      auditHash: consentEntry?.hash ?? null
+    },
+    aadhar: reportDocument('AADHAR', snapshot.aadhar),
+    aadhaarOtpVerified: snapshot.aadhaarOtp.status === 'VERIFIED',
+    pan: reportDocument('PAN', snapshot.pan),
+    // Reasons quote the compared values; mask any Aadhar number in them
+    verification: snapshot.verificationResult && redactDeep(snapshot.verificationResult) as VerificationResult,
+    digilockerAccountId: snapshot.digilockerAccountId,
+    audit: { entries: entries.length, headHash: entries[entries.length - 1]?.hash ?? null },
+    attestation: snapshot.attestation ?? null
+  };
+};
+
+const formatTime = (iso: string | null): string => (iso ? new Date(iso).toUTCString() : 'not recorded');
+
+const documentLines = (title: string, doc: VerificationReport['aadhar'], extra: string[] = []): PdfLine[] => {
+  const heading: PdfLine = { text: title, size: 13, bold: true, gapBefore: 12 };
+  if (!doc) return [heading, { text: 'Not collected.' }];
+  const signed = (field: keyof typeof FIELD_NAMES) => (doc.signedFields.includes(field) ? ' (signed by UIDAI)' : '');
+  return [
+    heading,
+    { text: `Name: ${doc.fullName}${signed('fullName')}` },
+    { text: `Date of birth: ${doc.dob}${signed('dob')}` },
+    { text: `Number: ${doc.number}` },
+    ...extra.map(text => ({ text }))
+  ];
+};
+
+// Printable version of the report, same content as the JSON
+export const renderReportPdf = (report: VerificationReport): Blob => {
+  const { consent, verification } = report;
+  const lines: PdfLine[] = [
+    { text: 'DigiVerifier Verification Report', size: 18, bold: true },
+    { text: `Report ID: ${report.reportId}`, gapBefore: 8 },
+    { text: `Session ID: ${report.sessionId}` },
+    { text: `Generated: ${formatTime(report.generatedAt)}` },
+    { text: `Session started: ${formatTime(report.startedAt)}` },
+    { text: `Completed: ${formatTime(report.completedAt)}` },
+
+    { text: 'Consent', size: 13, bold: true, gapBefore: 12 },
+    ...(consent
+      ? [
+          { text: `${consent.agreed ? 'Given' : 'Declined'} by ${consent.method === 'VOICE' ? 'voice' : 'on-screen click'} at ${formatTime(consent.recordedAt)}` },
+          { text: `Statement version ${consent.statementVersion}, language ${consent.language}` },
+          { text: `Audit entry #${consent.auditSeq ?? '-'}, hash ${consent.auditHash ?? '-'}` }
+        ]
+      : [{ text: 'Not recorded.' }]),
+
+    ...documentLines('Aadhar', report.aadhar, [`OTP verification: ${report.aadhaarOtpVerified ? 'verified' : 'not verified'}`]),
+    ...documentLines('PAN', report.pan),
+
+    { text: 'Cross-Verification', size: 13, bold: true, gapBefore: 12 },
+    ...(verification
+      ? [
+          { text: `Result: ${verification.status}, score ${Math.round(verification.score * 100)}%, confidence ${verification.confidence}` },
+          { text: `Checked: ${formatTime(verification.checkedAt)}` },
+          ...verification.fields.map(field => ({
+            text: `${FIELD_NAMES[field.field]}: ${Math.round(field.score * 100)}% ${field.matched ? 'match' : 'mismatch'}` +
+              `${field.attested ? ', UIDAI-signed' : ''}${field.reasons.length ? ` - ${field.reasons.join('; ')}` : ''}`
+          })),
+          ...verification.reasons.map(reason => ({ text: `Reason: ${reason}` }))
+        ]
+      : [{ text: 'Not run.' }]),
+
+    { text: 'DigiLocker', size: 13, bold: true, gapBefore: 12 },
+    { text: report.digilockerAccountId ? `Account ID: ${report.digilockerAccountId}` : 'No account created.' },
+
+    { text: 'Audit Trail', size: 13, bold: true, gapBefore: 12 },
+    { text: `${report.audit.entries} entries, head hash ${report.audit.headHash ?? '-'}` },
+
+    { text: 'Server Attestation', size: 13, bold: true, gapBefore: 12 },
+    ...(report.attestation
+      ? [
+          { text: `Issued by the API server at ${formatTime(report.attestation.issuedAt)} for session ${report.attestation.sessionId}` },
+          { text: `${report.attestation.signature.algorithm} signature, key ${report.attestation.signature.keyId}` },
+          { text: 'The signed attestation is in the JSON report.' }
+        ]
+      : [{ text: 'None. The results were computed on this device.' }]),
+
+    { text: 'Generated on this device. Aadhar and PAN numbers are masked.', size: 8, gapBefore: 20 }
+  ];
+  return buildTextPdf(lines, `DigiVerifier report ${report.reportId}`);
+};
@@ -0,0 +1,32 @@
+import { PERSON, REFERENCE_ID, SECURE_QR_FIELDS, secureQrText } from './uidaiFixtures';
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { decodeSecureQr, isSecureQr, parseReferenceId, secureQrScan } from '../utils/aadhaarQr';
+
+describe('decodeSecureQr', () => {
+  it('splits out the version and text fields', async () => {
+    const qr = await decodeSecureQr(secureQrText());
+    assert.equal(qr.version, 'V2');
+    assert.equal(qr.fields.referenceId, REFERENCE_ID);
+    assert.equal(qr.fields.name, PERSON.name);
+    assert.equal(qr.fields.vtc, 'Pune');
+    assert.deepEqual(secureQrScan(qr).fields, { fullName: PERSON.name, dob: '12/03/1990' });
+    assert.equal(secureQrScan(qr).numberLast4, '5248');
+  });
+
+  it('rejects a payload with fields missing', async () => {
+    await assert.rejects(decodeSecureQr(secureQrText(SECURE_QR_FIELDS.slice(0, 10))), /truncated/);
+  });
+
+  it('rejects text cut off mid-scan', async () => {
+    const text = secureQrText();
+    assert.ok(isSecureQr(text.slice(0, text.length / 2)));
+    await assert.rejects(decodeSecureQr(text.slice(0, text.length / 2)));
+  });
+});
+
+describe('parseReferenceId', () => {
+  it('reads the last 4 digits and the generation time', () => {
+    assert.deepEqual(parseReferenceId(REFERENCE_ID), { last4: '5248', generatedAt: '2019-03-08T15:04:15.123+05:30' });
+  });
+});
@@ -0,0 +1,40 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { ToolCallbacks } from '../types';
+import { GeminiLiveService } from '../services/geminiLiveService';
+import { MockVerificationBackend } from '../services/backend/mockBackend';
+import { MemoryAudioSink, MemoryAudioSource, MemoryLiveTransport } from '../services/live/memory';
+
+const noop = () => {};
+const callbacks: ToolCallbacks = {
+  onConsent: noop,
+  onPendingDocument: noop,
+  onSaveAadhar: noop,
+  onAadhaarOtpChange: noop,
+  onSavePan: noop,
+  onVerifyDetails: noop,
+  onCreateDigilocker: noop,
+  onReenterDocument: noop,
+  onDocumentUpdated: noop,
+  onPhaseChange: noop
+};
+
+describe('GeminiLiveService.connect', () => {
+  it('closes the audio it opened when the live session cannot connect', async () => {
+    const transport = new MemoryLiveTransport();
+    const audioSource = new MemoryAudioSource();
+    const audioSink = new MemoryAudioSink();
+    const service = new GeminiLiveService(callbacks, new MockVerificationBackend({ latencyMs: 0 }), 'en', { transport, audioSource, audioSink });
+    transport.failConnects = 1;
+
+    await assert.rejects(service.connect('voice'), /Connection refused/);
+    assert.equal(audioSource.opened, false);
+    assert.equal(audioSink.opened, false);
+
+    await service.connect('voice');
+    assert.equal(audioSource.opened, true);
+    assert.equal(audioSource.capturing, true);
+    service.disconnect();
+    assert.equal(audioSink.opened, false);
+  });
+});
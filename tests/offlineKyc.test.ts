@@ -0,0 +1,42 @@
+import { PERSON, REFERENCE_ID, offlineKycZip, signedKycXml } from './uidaiFixtures';
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { readOfflineKyc } from '../services/offlineKyc';
+import { ZipPasswordError } from '../utils/zipCrypto';
+
+const SHARE_CODE = 'Ab12';
+
+const read = (xml: string, shareCode = SHARE_CODE) => readOfflineKyc(new Blob([offlineKycZip(xml, shareCode)]), SHARE_CODE);
+
+describe('readOfflineKyc', () => {
+  it('reads the name and DOB of a UIDAI-signed file as signed', async () => {
+    const scan = await read(signedKycXml().xml);
+    assert.equal(scan.signature?.status, 'VERIFIED');
+    assert.deepEqual(scan.fields, { fullName: PERSON.name, dob: '12/03/1990' });
+    assert.deepEqual(scan.attestation?.fields, ['fullName', 'dob']);
+    assert.equal(scan.numberLast4, REFERENCE_ID.slice(0, 4));
+  });
+
+  it('rejects a file whose name was altered after signing', async () => {
+    await assert.rejects(read(signedKycXml().xml.replace(PERSON.name, 'Suresh Kumar Sharma')), /altered/);
+  });
+
+  it('rejects a wrong share code', async () => {
+    await assert.rejects(read(signedKycXml().xml, 'Zz99'), ZipPasswordError);
+  });
+
+  it('rejects a forged Poi hidden in the Signature ahead of the signed data', async () => {
+    // Signature wrapping: the digest leaves the Signature out, so whatever is
+    // inside it is unsigned, and it now comes first in document order
+    const { signature, uidData } = signedKycXml();
+    const forged = signature.replace('</Signature>', '<Object><Poi dob="01-01-1980" name="Forged Name"></Poi></Object></Signature>');
+    const xml = `<OfflinePaperlessKyc referenceId="${REFERENCE_ID}">${forged}${uidData}</OfflinePaperlessKyc>`;
+    await assert.rejects(read(xml), /outside its signed part/);
+  });
+
+  it('rejects a Signature that is not directly under the root', async () => {
+    const { signature, uidData } = signedKycXml();
+    const xml = `<OfflinePaperlessKyc referenceId="${REFERENCE_ID}">${uidData}<Extra>${signature}</Extra></OfflinePaperlessKyc>`;
+    await assert.rejects(read(xml), /not signed/);
+  });
+});
@@ -0,0 +1,123 @@
+import { DOMParser, Node } from '@xmldom/xmldom';
+import { createHash, generateKeyPairSync, sign } from 'node:crypto';
+import { crc32, deflateRawSync, gzipSync } from 'node:zlib';
+
+// Test stand-ins for what UIDAI and the browser provide: a DOM, a signing key
+// trusted in place of the UIDAI certificate, and builders for signed offline
+// e-KYC ZIPs and Secure QR codes. Import this before any module that reads UIDAI_CERTIFICATES.
+
+Object.assign(globalThis, { DOMParser, Node });
+
+const { privateKey, publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+process.env.UIDAI_CERTIFICATES = JSON.stringify([publicKey.export({ type: 'spki', format: 'pem' })]);
+
+export const uidaiSign = (data: Uint8Array | string): Buffer => sign('sha256', Buffer.from(data), privateKey);
+
+export interface KycPerson {
+  name: string;
+  dob: string; // DD-MM-YYYY, as UIDAI writes it
+}
+
+export const REFERENCE_ID = '524820190308150415123';
+export const PERSON: KycPerson = { name: 'Ramesh Kumar Sharma', dob: '12-03-1990' };
+
+const uidData = ({ name, dob }: KycPerson) => `<UidData><Poi dob="${dob}" gender="M" name="${name}"></Poi></UidData>`;
+
+// Written in canonical form, so the digest and signature are computed over
+// exactly these bytes without going through the canonicalizer under test
+export const signedKycXml = (person: KycPerson = PERSON): { xml: string; signature: string; uidData: string } => {
+  const data = uidData(person);
+  const digest = createHash('sha256').update(`<OfflinePaperlessKyc referenceId="${REFERENCE_ID}">${data}</OfflinePaperlessKyc>`).digest('base64');
+  const signedInfo = '<SignedInfo>'
+    + '<CanonicalizationMethod Algorithm="http://www.w3.org/TR/2001/REC-xml-c14n-20010315"></CanonicalizationMethod>'
+    + '<SignatureMethod Algorithm="http://www.w3.org/2001/04/xmldsig-more#rsa-sha256"></SignatureMethod>'
+    + '<Reference URI=""><Transforms><Transform Algorithm="http://www.w3.org/2000/09/xmldsig#enveloped-signature"></Transform></Transforms>'
+    + `<DigestMethod Algorithm="http://www.w3.org/2001/04/xmlenc#sha256"></DigestMethod><DigestValue>${digest}</DigestValue></Reference>`
+    + '</SignedInfo>';
+  const signatureValue = uidaiSign(signedInfo.replace('<SignedInfo>', '<SignedInfo xmlns="http://www.w3.org/2000/09/xmldsig#">')).toString('base64');
+  const signature = `<Signature xmlns="http://www.w3.org/2000/09/xmldsig#">${signedInfo}<SignatureValue>${signatureValue}</SignatureValue></Signature>`;
+  return {
+    xml: `<?xml version="1.0" encoding="UTF-8"?><OfflinePaperlessKyc referenceId="${REFERENCE_ID}">${data}${signature}</OfflinePaperlessKyc>`,
+    signature,
+    uidData: data
+  };
+};
+
+export const parseXml = (xml: string): Document => new DOMParser().parseFromString(xml, 'application/xml') as unknown as Document;
+
+// PKWARE traditional encryption, the inverse of utils/zipCrypto.ts
+const zipCryptoEncrypt = (data: Uint8Array, password: string, checkByte: number): Uint8Array => {
+  // One raw CRC-32 step: zlib pre- and post-inverts, so invert around it
+  const crcByte = (crc: number, byte: number) => ~crc32(Buffer.from([byte]), ~crc >>> 0) >>> 0;
+  const update = (keys: number[], byte: number) => {
+    keys[0] = crcByte(keys[0], byte);
+    keys[1] = (Math.imul((keys[1] + (keys[0] & 0xff)) >>> 0, 134775813) + 1) >>> 0;
+    keys[2] = crcByte(keys[2], keys[1] >>> 24);
+  };
+  const keys = [0x12345678, 0x23456789, 0x34567890];
+  Buffer.from(password).forEach(byte => update(keys, byte));
+
+  // A fixed header keeps a wrong share code failing the same way on every run
+  const plain = Buffer.concat([Buffer.alloc(11, 0x5a), Buffer.from([checkByte]), data]);
+  return plain.map(byte => {
+    const temp = (keys[2] | 2) & 0xffff;
+    const encrypted = byte ^ ((Math.imul(temp, temp ^ 1) >>> 8) & 0xff);
+    update(keys, byte);
+    return encrypted;
+  });
+};
+
+// A one-file ZIP encrypted with the share code, like the UIDAI download
+export const offlineKycZip = (xml: string, shareCode: string, name = 'offlineaadhaar20190308150415123.xml'): Uint8Array => {
+  const content = Buffer.from(xml);
+  const crc = crc32(content);
+  const data = zipCryptoEncrypt(deflateRawSync(content), shareCode, crc >>> 24);
+  const fileName = Buffer.from(name);
+
+  const local = Buffer.alloc(30);
+  local.writeUInt32LE(0x04034b50, 0);
+  local.writeUInt16LE(20, 4);
+  local.writeUInt16LE(1, 6); // Encrypted
+  local.writeUInt16LE(8, 8); // Deflated
+  local.writeUInt32LE(crc, 14);
+  local.writeUInt32LE(data.length, 18);
+  local.writeUInt32LE(content.length, 22);
+  local.writeUInt16LE(fileName.length, 26);
+
+  const central = Buffer.alloc(46);
+  central.writeUInt32LE(0x02014b50, 0);
+  central.writeUInt16LE(20, 4);
+  central.writeUInt16LE(20, 6);
+  central.writeUInt16LE(1, 8);
+  central.writeUInt16LE(8, 10);
+  central.writeUInt32LE(crc, 16);
+  central.writeUInt32LE(data.length, 20);
+  central.writeUInt32LE(content.length, 24);
+  central.writeUInt16LE(fileName.length, 28);
+
+  const directoryOffset = local.length + fileName.length + data.length;
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(1, 8);
+  end.writeUInt16LE(1, 10);
+  end.writeUInt32LE(central.length + fileName.length, 12);
+  end.writeUInt32LE(directoryOffset, 16);
+
+  return new Uint8Array(Buffer.concat([local, fileName, data, central, fileName, end]));
+};
+
+export const SECURE_QR_FIELDS = [
+  '3', REFERENCE_ID, PERSON.name, PERSON.dob, 'M', 'S/O Suresh Sharma', 'Pune', 'Near Temple',
+  '12', 'Kothrud', '411038', 'Kothrud', 'Maharashtra', 'Paud Road', 'Haveli', 'Pune'
+];
+
+// A V2 Secure QR as the decimal text the scanner reads. `alter` changes the
+// signed bytes after signing, like a forger editing the QR.
+export const secureQrText = (fields = SECURE_QR_FIELDS, alter?: (body: Buffer) => Buffer): string => {
+  const delimiter = Buffer.from([255]);
+  const photo = Buffer.from([0xff, 0xd8, 0xff, 0xe0, 0x00, 0x10, 0x4a, 0x46, 0x49, 0x46]);
+  const body = Buffer.concat([...['V2', ...fields].flatMap(field => [Buffer.from(field, 'latin1'), delimiter]), photo]);
+  const signature = uidaiSign(body);
+  const payload = Buffer.concat([alter ? alter(body) : body, signature]);
+  return BigInt(`0x${gzipSync(payload).toString('hex')}`).toString(10);
+};
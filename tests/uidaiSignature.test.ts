@@ -0,0 +1,68 @@
+import { PERSON, REFERENCE_ID, parseXml, secureQrText, signedKycXml } from './uidaiFixtures';
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { decodeSecureQr } from '../utils/aadhaarQr';
+import { verifySecureQr, verifyXmlSignature } from '../services/uidaiSignature';
+
+const verify = (xml: string) => verifyXmlSignature(parseXml(xml));
+
+describe('verifyXmlSignature', () => {
+  it('verifies a document signed with a bundled key', async () => {
+    assert.equal((await verify(signedKycXml().xml)).status, 'VERIFIED');
+  });
+
+  it('ignores formatting outside the canonical form', async () => {
+    // Single quotes, reordered attributes and a comment do not change the canonical bytes
+    const xml = signedKycXml().xml.replace(
+      `<Poi dob="${PERSON.dob}" gender="M" name="${PERSON.name}"></Poi>`,
+      `<Poi name='${PERSON.name}' gender='M' dob='${PERSON.dob}'/><!-- printed copy -->`
+    );
+    assert.equal((await verify(xml)).status, 'VERIFIED');
+  });
+
+  it('rejects a tampered attribute', async () => {
+    const result = await verify(signedKycXml().xml.replace(PERSON.name, 'Suresh Kumar Sharma'));
+    assert.equal(result.status, 'INVALID');
+    assert.match(result.detail, /signed digest/);
+  });
+
+  it('rejects content re-digested without a new signature', async () => {
+    // The forger updates DigestValue to match, but cannot sign the new SignedInfo
+    const forged = signedKycXml({ name: 'Suresh Kumar Sharma', dob: PERSON.dob });
+    const original = signedKycXml();
+    const digestOf = (xml: string) => /<DigestValue>(.*)<\/DigestValue>/.exec(xml)![1];
+    const signatureOf = (xml: string) => /<SignatureValue>(.*)<\/SignatureValue>/.exec(xml)![1];
+    const xml = forged.xml.replace(signatureOf(forged.xml), signatureOf(original.xml));
+    assert.notEqual(digestOf(forged.xml), digestOf(original.xml));
+    assert.equal((await verify(xml)).status, 'INVALID');
+  });
+
+  it('rejects a Signature moved into another element', async () => {
+    const { signature, uidData } = signedKycXml();
+    const xml = `<OfflinePaperlessKyc referenceId="${REFERENCE_ID}">${uidData}<Wrapper>${signature}</Wrapper></OfflinePaperlessKyc>`;
+    assert.equal((await verify(xml)).status, 'INVALID');
+  });
+
+  it('rejects a second Signature next to the real one', async () => {
+    const { xml, signature } = signedKycXml();
+    assert.equal((await verify(xml.replace('</OfflinePaperlessKyc>', `${signature}</OfflinePaperlessKyc>`))).status, 'INVALID');
+  });
+
+  it('rejects an unsigned document', async () => {
+    const { xml, signature } = signedKycXml();
+    assert.equal((await verify(xml.replace(signature, ''))).status, 'INVALID');
+  });
+});
+
+describe('verifySecureQr', () => {
+  it('verifies a Secure QR signed with a bundled key', async () => {
+    assert.equal((await verifySecureQr(await decodeSecureQr(secureQrText()))).status, 'VERIFIED');
+  });
+
+  it('rejects a Secure QR whose fields were altered after signing', async () => {
+    const text = secureQrText(undefined, body => Buffer.from(body.toString('latin1').replace('Ramesh', 'Suresh'), 'latin1'));
+    const qr = await decodeSecureQr(text);
+    assert.equal(qr.fields.name, 'Suresh Kumar Sharma');
+    assert.equal((await verifySecureQr(qr)).status, 'INVALID');
+  });
+});
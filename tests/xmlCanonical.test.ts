@@ -0,0 +1,38 @@
+import { parseXml } from './uidaiFixtures';
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { canonicalize } from '../utils/xmlCanonical';
+
+const c14n = (xml: string, skip?: (el: Element) => boolean) => canonicalize(parseXml(xml).documentElement, skip);
+
+describe('canonicalize', () => {
+  it('sorts attributes, expands empty elements and drops comments', () => {
+    assert.equal(
+      c14n('<?xml version="1.0"?><a z=\'2\' b="1"><!-- note --><b/></a>'),
+      '<a b="1" z="2"><b></b></a>'
+    );
+  });
+
+  it('escapes text and attribute values', () => {
+    assert.equal(
+      c14n('<a v="&lt;&amp;&quot;&#9;&#10;">x &amp; &lt;y&gt;</a>'),
+      '<a v="&lt;&amp;&quot;&#x9;&#xA;">x &amp; &lt;y&gt;</a>'
+    );
+  });
+
+  it('renders namespace declarations once, where they first take effect', () => {
+    assert.equal(
+      c14n('<a xmlns="urn:a" xmlns:p="urn:p"><p:b p:k="v"><c xmlns="urn:a"/></p:b></a>'),
+      '<a xmlns="urn:a" xmlns:p="urn:p"><p:b p:k="v"><c></c></p:b></a>'
+    );
+  });
+
+  it('carries inherited namespaces onto a canonicalized subtree', () => {
+    const doc = parseXml('<a xmlns="urn:a" xmlns:p="urn:p"><b x="1"/></a>');
+    assert.equal(canonicalize(doc.getElementsByTagName('b')[0]), '<b xmlns="urn:a" xmlns:p="urn:p" x="1"></b>');
+  });
+
+  it('leaves out skipped elements', () => {
+    assert.equal(c14n('<a><keep/><Signature><x/></Signature></a>', el => el.tagName === 'Signature'), '<a><keep></keep></a>');
+  });
+});
@@ -0,0 +1,30 @@
+import { offlineKycZip } from './uidaiFixtures';
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { ZipPasswordError, crc32, readZip } from '../utils/zipCrypto';
+
+const XML = '<OfflinePaperlessKyc referenceId="5248"><UidData></UidData></OfflinePaperlessKyc>';
+
+describe('readZip', () => {
+  it('decrypts and inflates an entry with the right password', async () => {
+    const [entry, ...rest] = await readZip(offlineKycZip(XML, 'Ab12', 'kyc.xml'), 'Ab12');
+    assert.equal(rest.length, 0);
+    assert.equal(entry.name, 'kyc.xml');
+    assert.equal(new TextDecoder().decode(entry.data), XML);
+  });
+
+  it('rejects a wrong password', async () => {
+    const zip = offlineKycZip(XML, 'Ab12');
+    for (const password of ['ab12', 'Ab13', '', 'Ab12 ']) {
+      await assert.rejects(readZip(zip, password), ZipPasswordError, password);
+    }
+  });
+
+  it('rejects data that is not a ZIP', async () => {
+    await assert.rejects(readZip(new TextEncoder().encode(XML.repeat(2)), 'Ab12'), /Not a ZIP file/);
+  });
+
+  it('computes the standard CRC-32', () => {
+    assert.equal(crc32(new TextEncoder().encode('123456789')), 0xcbf43926);
+  });
+});
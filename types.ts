@@ -1,21 +1,95 @@
+import type { LiveConnectConfig, LiveServerMessage, Session } from '@google/genai';
+import type { ToolArgs, ToolName } from './services/tools/definitions';
+
 export enum AppPhase {
   IDLE = 'IDLE',
+  CONSENT = 'CONSENT',
   AADHAR = 'AADHAR',
+  AADHAR_OTP = 'AADHAR_OTP',
   PAN = 'PAN',
   VERIFY = 'VERIFY',
   DIGILOCKER = 'DIGILOCKER',
   COMPLETE = 'COMPLETE'
 }
 
+export type DocumentType = 'AADHAR' | 'PAN';
+
+// Conversation and UI language
+export type LanguageCode = 'en' | 'hi' | 'ta' | 'bn' | 'mr';
+
 export interface IdentityDoc {
   fullName: string;
   number: string;
   dob: string;
+  attestation?: DocumentAttestation; // Set when fields came from UIDAI-signed data
+}
+
+// The details a user gives for a document
+export type IdentityField = 'fullName' | 'number' | 'dob';
+
+// UIDAI-signed sources of Aadhar details
+export type AttestationSource = 'SECURE_QR' | 'OFFLINE_XML';
+
+// Fields of a document that are backed by a verified UIDAI signature
+export interface DocumentAttestation {
+  source: AttestationSource;
+  fields: (IdentityField)[];
+  numberLast4: string; // Signed data carries only the last 4 Aadhar digits
+  signedAt: string | null;
+}
+
+// Result of checking a UIDAI signature
+export interface SignatureCheck {
+  status: 'VERIFIED' | 'INVALID' | 'NO_CERTIFICATE';
+  detail: string;
+}
+
+// Where prefilled details were read from
+export type ScanSource = 'QR' | 'OCR' | AttestationSource;
+
+// Details read from a photo of a card, before the user confirms them
+export interface DocumentScan {
+  document: DocumentType;
+  source: ScanSource;
+  fields: Partial<IdentityDoc>;
+  numberLast4?: string; // Secure QR carries only the last 4 Aadhar digits
+  signature?: SignatureCheck; // Only for signed sources
+  attestation?: DocumentAttestation; // Present when the signature verified
+  warnings: string[];
+}
+
+// Outcome of feeding a scan into the conversation
+export interface ScanProposal {
+  proposed: boolean; // False when fields were missing and the rest must be spoken
+  errors: string[];
+}
+
+export interface ValidationResult {
+  valid: boolean;
+  value: string; // Normalised input (spaces removed, upper-cased, ...)
+  errors: string[];
+  warnings: string[];
 }
 
 export interface DigiLockerState {
   isCreated: boolean;
-  pin: string | null;
+  accountId: string | null;
+  pinAlgorithm: string | null; // KDF protecting the PIN; the PIN itself is never stored
+}
+
+export interface PinHash {
+  algorithm: 'PBKDF2-SHA256';
+  iterations: number;
+  salt: string; // base64
+  hash: string; // base64
+}
+
+export interface AadhaarOtpState {
+  status: 'NOT_SENT' | 'SENT' | 'VERIFIED' | 'LOCKED';
+  maskedMobile: string | null;
+  expiresAt: string | null;
+  attemptsRemaining: number;
+  requestsUsed: number; // OTPs sent, including resends
 }
 
 export enum VerificationStatus {
@@ -24,41 +98,420 @@ export enum VerificationStatus {
   MISMATCH = 'MISMATCH'
 }
 
+export interface FieldMatch {
+  field: IdentityField;
+  score: number; // 0..1
+  matched: boolean;
+  reasons: string[];
+  attested?: boolean; // The Aadhar value is UIDAI-signed
+}
+
+// HIGH when every compared Aadhar field is UIDAI-signed
+export type VerificationConfidence = 'STANDARD' | 'HIGH';
+
+export interface VerificationResult {
+  status: VerificationStatus;
+  score: number; // 0..1, mean of field scores
+  confidence: VerificationConfidence;
+  fields: FieldMatch[];
+  reasons: string[]; // Why the result is not a MATCH (empty on MATCH)
+  checkedAt: string;
+}
+
+// How the user answered the consent statement
+export type ConsentMethod = 'VOICE' | 'CLICK';
+
+export interface ConsentRecord {
+  agreed: boolean;
+  method: ConsentMethod;
+  language: LanguageCode;
+  statementVersion: number;
+  statement: string; // Exact text the user was shown and read
+  recordedAt: string;
+}
+
 export interface AppState {
   phase: AppPhase;
+  consent: ConsentRecord | null;
   aadhar: IdentityDoc | null;
+  aadhaarOtp: AadhaarOtpState;
   pan: IdentityDoc | null;
+  pending: Partial<Record<DocumentType, IdentityDoc>>; // Proposed but not yet confirmed
   verification: VerificationStatus;
+  verificationResult: VerificationResult | null;
   digilocker: DigiLockerState;
   isConnected: boolean;
   isAudioPlaying: boolean;
 }
 
-// Tool Arguments Interfaces
-export interface SaveAadharArgs {
-  fullName: string;
-  number: string;
-  dob: string;
+// Verification Backend (UIDAI / NSDL / DigiLocker)
+export enum PanStatus {
+  VALID = 'VALID',
+  INVALID = 'INVALID',
+  DECEASED = 'DECEASED',
+  INOPERATIVE = 'INOPERATIVE',
+  NOT_LINKED = 'NOT_LINKED'
 }
 
-export interface SavePanArgs {
-  fullName: string;
-  number: string;
-  dob: string;
+export interface PanVerificationResult {
+  status: PanStatus;
+  message: string;
+  nameOnRecord?: string;
+}
+
+export enum AadhaarOtpRequestStatus {
+  SENT = 'SENT',
+  INVALID_AADHAAR = 'INVALID_AADHAAR',
+  DECEASED = 'DECEASED',
+  NO_MOBILE = 'NO_MOBILE'
+}
+
+export interface AadhaarOtpRequest {
+  status: AadhaarOtpRequestStatus;
+  message: string;
+  txnId?: string;
+  maskedMobile?: string;
+  expiresAt?: string;
 }
 
-export interface VerifyDetailsArgs {
-  action: string;
+export enum OtpVerificationStatus {
+  VERIFIED = 'VERIFIED',
+  INVALID = 'INVALID',
+  EXPIRED = 'EXPIRED',
+  LOCKED = 'LOCKED'
 }
 
-export interface CreateDigilockerArgs {
-  pin: string;
+export interface AadhaarOtpResult {
+  status: OtpVerificationStatus;
+  message: string;
+  attemptsRemaining: number;
+  kyc?: IdentityDoc; // e-KYC demographics on success
+}
+
+export interface DigilockerAccountRequest {
+  aadhaarNumber: string;
+  panNumber: string;
+  pinHash: PinHash;
+}
+
+export interface DigilockerAccountResult {
+  accountId: string;
+  createdAt: string;
+}
+
+export interface VerificationBackend {
+  requestAadhaarOtp(aadhaarNumber: string): Promise<AadhaarOtpRequest>;
+  verifyAadhaarOtp(txnId: string, otp: string): Promise<AadhaarOtpResult>;
+  verifyPan(panNumber: string, fullName: string, dob: string, aadhaarNumber?: string): Promise<PanVerificationResult>;
+  createDigilockerAccount(request: DigilockerAccountRequest): Promise<DigilockerAccountResult>;
+}
+
+// Tool arguments, derived from the schemas in services/tools/definitions.ts
+export type { ToolArgs, ToolName } from './services/tools/definitions';
+
+export type RecordConsentArgs = ToolArgs<'recordConsent'>;
+export type ProposeAadharArgs = ToolArgs<'proposeAadhar'>;
+export type ProposePanArgs = ToolArgs<'proposePan'>;
+export type ConfirmDocumentArgs = ToolArgs<'confirmDocument'>;
+export type CorrectFieldArgs = ToolArgs<'correctField'>;
+export type UpdateDocumentFieldArgs = ToolArgs<'updateDocumentField'>;
+export type VerifyDetailsArgs = ToolArgs<'verifyDetails'>;
+export type CreateDigilockerArgs = ToolArgs<'createDigilocker'>;
+export type SubmitAadhaarOtpArgs = ToolArgs<'submitAadhaarOtp'>;
+export type ReenterDocumentArgs = ToolArgs<'reenterDocument'>;
+
+// Outcome of editing a saved field from the UI
+export interface DocumentFieldUpdate {
+  updated: boolean;
+  errors: string[];
 }
 
 // Callback Types
 export type ToolCallbacks = {
-  onSaveAadhar: (args: SaveAadharArgs) => void;
-  onSavePan: (args: SavePanArgs) => void;
-  onVerifyDetails: (args: VerifyDetailsArgs) => Promise<string>;
-  onCreateDigilocker: (args: CreateDigilockerArgs) => void;
+  onConsent: (record: ConsentRecord) => void;
+  onPendingDocument: (document: DocumentType, doc: IdentityDoc | null) => void; // Proposed, awaiting read-back confirmation
+  onSaveAadhar: (doc: IdentityDoc) => void;
+  onAadhaarOtpChange: (state: AadhaarOtpState) => void;
+  onSavePan: (doc: IdentityDoc) => void;
+  onVerifyDetails: (result: VerificationResult) => void;
+  onCreateDigilocker: (accountId: string, pinAlgorithm: PinHash['algorithm']) => void;
+  onReenterDocument: (args: ReenterDocumentArgs) => void;
+  onDocumentUpdated: (document: DocumentType, doc: IdentityDoc) => void; // A saved field changed; verification is stale
+  onPhaseChange: (phase: AppPhase) => void;
 };
+
+// Live Transcript
+export type TranscriptRole = 'user' | 'assistant';
+
+export interface TranscriptEntry {
+  id: string;
+  role: TranscriptRole;
+  text: string;
+  final: boolean; // False while the turn is still streaming
+  timestamp: string;
+  capturedFields: string[]; // Labels of fields saved from this turn
+  interrupted?: boolean; // Assistant turn cut off by the user barging in
+}
+
+export interface InterruptionEvent {
+  timestamp: string;
+  transcriptEntryId: string | null; // The assistant turn that was cut off
+  droppedSeconds: number; // Queued audio that was discarded
+}
+
+export interface CapturedField {
+  label: string;
+  value: string;
+}
+
+// How the user talks to the assistant
+export type InputMode = 'voice' | 'text';
+
+export interface InputModeChange {
+  mode: InputMode;
+  reason?: string; // Set when the service fell back on its own (e.g. no microphone)
+}
+
+// Live connection lifecycle
+export enum ConnectionState {
+  CONNECTING = 'CONNECTING',
+  OPEN = 'OPEN',
+  RECONNECTING = 'RECONNECTING',
+  CLOSED = 'CLOSED',
+  FAILED = 'FAILED'
+}
+
+export interface ConnectionStateChange {
+  state: ConnectionState;
+  attempt?: number;      // Set while RECONNECTING
+  maxAttempts?: number;
+  resumed?: boolean;     // OPEN after a drop: true if the server resumed the old session
+  reason?: string;
+}
+
+// Progress captured by the service, used to brief a fresh session after a drop
+export interface SessionSnapshot {
+  phase: AppPhase;
+  consent: ConsentRecord | null;
+  aadhar: IdentityDoc | null;
+  aadhaarOtp: AadhaarOtpState;
+  pan: IdentityDoc | null;
+  pending: Partial<Record<DocumentType, IdentityDoc>>;
+  verificationResult: VerificationResult | null;
+  digilockerAccountId: string | null;
+  serverSessionId: string | null; // Set when the stateful tools run on the API server
+  serverSessionToken: string | null; // Bearer token for that server session
+  attestation: VerificationAttestation | null;
+  audit: AuditTrail;
+}
+
+// A snapshot persisted for resuming after a page reload
+export interface SavedCheckpoint {
+  snapshot: SessionSnapshot;
+  savedAt: string;
+  expiresAt: string;
+}
+
+// Events emitted by GeminiLiveService.events
+// A document as it appears in a verification report: number masked
+export interface ReportDocument {
+  fullName: string;
+  dob: string;
+  number: string;
+  signedFields: IdentityField[]; // UIDAI-signed, from a scan
+}
+
+// Client-side record of a completed verification, for onboarding files
+export interface VerificationReport {
+  format: 'digiverifier-report/1';
+  reportId: string;
+  sessionId: string; // Same as the audit trail's
+  generatedAt: string;
+  startedAt: string | null;
+  completedAt: string | null;
+  consent: {
+    agreed: boolean;
+    method: ConsentMethod;
+    language: LanguageCode;
+    statementVersion: number;
+    recordedAt: string;
+    auditSeq: number | null; // Audit entry that recorded the consent
+    auditHash: string | null;
+  } | null;
+  aadhar: ReportDocument | null;
+  aadhaarOtpVerified: boolean;
+  pan: ReportDocument | null;
+  verification: VerificationResult | null;
+  digilockerAccountId: string | null;
+  audit: { entries: number; headHash: string | null };
+  attestation: VerificationAttestation | null; // Present when the results came from the API server
+}
+
+// Tools that change what has been saved. Proposals and read-back corrections
+// stay in the browser; these can run on the API server instead, which then
+// holds the authoritative copy of the verification (see services/session).
+export type StatefulToolName = Exclude<ToolName, 'proposeAadhar' | 'proposePan' | 'correctField'>;
+
+// What has been saved so far, as held by whoever runs the stateful tools
+export interface VerificationState {
+  phase: AppPhase;
+  consent: ConsentRecord | null;
+  aadhar: IdentityDoc | null;
+  aadhaarOtp: AadhaarOtpState;
+  pan: IdentityDoc | null;
+  verificationResult: VerificationResult | null;
+  digilockerAccountId: string | null;
+}
+
+// A stateful tool call, with what the executor needs beyond the model's arguments
+export interface StatefulToolCall {
+  tool: StatefulToolName;
+  args: Record<string, unknown>;
+  pending?: IdentityDoc; // confirmDocument: the proposal the user confirmed
+  consentMethod?: ConsentMethod; // recordConsent
+}
+
+export interface ResultSignature {
+  algorithm: 'ECDSA-P256-SHA256';
+  keyId: string; // Thumbprint of the server's public key
+  value: string; // base64, over the canonical JSON of every other field
+}
+
+// The state of a verification after a call, as issued by its executor
+export interface SessionStateEnvelope {
+  sessionId: string;
+  seq: number; // Increases with every call, so stale results are rejected
+  state: VerificationState;
+  issuedAt: string;
+  signature: ResultSignature | null; // Null when the tools run on this device
+}
+
+export interface StatefulToolResult extends SessionStateEnvelope {
+  tool: StatefulToolName;
+  response: Record<string, unknown>; // What the model is told
+  validations: Record<string, unknown>[]; // Checks made, for the audit log
+  attestation: VerificationAttestation | null; // Issued once the verification is COMPLETE
+}
+
+// Runs the stateful tools: on this device, or on the API server
+export interface StatefulToolExecutor {
+  readonly sessionId: string | null;
+  readonly sessionToken: string | null;
+  open(language: LanguageCode, resume?: SessionSnapshot): Promise<SessionStateEnvelope>;
+  execute(call: StatefulToolCall): Promise<StatefulToolResult>;
+}
+
+// Server-signed summary of a completed verification, for the back office.
+// Numbers are masked, like the rest of the report.
+export interface VerificationAttestation {
+  format: 'digiverifier-attestation/1';
+  sessionId: string;
+  issuedAt: string;
+  consent: Pick<ConsentRecord, 'agreed' | 'method' | 'language' | 'statementVersion' | 'recordedAt'> | null;
+  aadhar: ReportDocument | null;
+  aadhaarOtpVerified: boolean;
+  pan: ReportDocument | null;
+  verification: Pick<VerificationResult, 'status' | 'score' | 'confidence' | 'checkedAt'> | null;
+  digilockerAccountId: string | null;
+  signature: ResultSignature;
+}
+
+// Audit trail: an append-only log in which every entry hashes the previous one
+export type AuditEventType =
+  | 'SESSION_STARTED'
+  | 'SESSION_RESUMED'
+  | 'SESSION_ENDED'
+  | 'CONNECTION'
+  | 'PHASE'
+  | 'CONSENT'
+  | 'TOOL_CALL'
+  | 'TOOL_RESULT'
+  | 'VALIDATION'
+  | 'USER_ACTION';
+
+export interface AuditEntry {
+  seq: number;
+  at: string;
+  type: AuditEventType;
+  data: Record<string, unknown>; // Redacted: Aadhar masked, PIN and OTP removed
+  prevHash: string;
+  hash: string; // SHA-256 (hex) of prevHash and this entry
+}
+
+export interface AuditTrail {
+  sessionId: string;
+  entries: AuditEntry[];
+}
+
+// Audit trail as exported for compliance review
+export interface SignedAuditExport {
+  format: 'digiverifier-audit/1';
+  sessionId: string;
+  exportedAt: string;
+  entries: AuditEntry[];
+  headHash: string;
+  signature: {
+    algorithm: 'ECDSA-P256-SHA256';
+    publicKey: JsonWebKey;
+    value: string; // base64, over the JSON of every other field
+  };
+}
+
+export type LiveServiceEvents = {
+  transcript: TranscriptEntry;
+  inputMode: InputModeChange;
+  interrupted: InterruptionEvent;
+  connection: ConnectionStateChange;
+  checkpoint: SessionSnapshot; // After every tool call
+  resumeExpired: { reason: string }; // The saved verification is gone; it starts over
+};
+
+// Environment of the live service. The browser implementations use Web Audio,
+// the microphone and the Gemini Live API; in-memory ones let the service run
+// headless (see services/live).
+
+// The part of a live session the service uses
+export type LiveConnection = Pick<Session, 'sendClientContent' | 'sendToolResponse' | 'sendRealtimeInput' | 'close'>;
+
+export interface LiveTransportCallbacks {
+  onopen: () => void;
+  onmessage: (message: LiveServerMessage) => void;
+  onclose: (event: { code?: number; reason?: string }) => void;
+  onerror: (event: { message?: string }) => void;
+}
+
+export interface LiveTransport {
+  connect(model: string, config: LiveConnectConfig, callbacks: LiveTransportCallbacks): Promise<LiveConnection>;
+}
+
+// Short-lived credential for the live API, minted by the API server so the
+// Gemini API key never reaches the browser (see server/apiServer.ts)
+export interface LiveToken {
+  token: string;
+  expiresAt: string; // The session is closed after this
+  newSessionExpiresAt: string; // A session must be opened with it before this
+}
+
+export interface LiveTokenProvider {
+  getToken(): Promise<LiveToken>;
+}
+
+// Producer of 16 kHz mono Int16 PCM frames, e.g. the microphone
+export interface AudioSource {
+  readonly analyser: AnalyserNode | null; // For the level meter, if any
+  open(): Promise<void>; // In browsers, called inside the user gesture
+  start(onFrame: (frame: ArrayBuffer) => void): Promise<void>; // Throws if capture is unavailable
+  stop(): void;
+  setMuted(muted: boolean): void;
+  close(): void;
+}
+
+// Consumer of the model's 24 kHz mono Int16 PCM, e.g. the speakers
+export interface AudioSink {
+  readonly analyser: AnalyserNode | null;
+  open(): Promise<void>;
+  play(pcm: Int16Array): Promise<void>; // Queued after whatever is still playing
+  interrupt(): number; // Drops the queue; returns the seconds dropped
+  setPaused(paused: boolean): Promise<void>;
+  close(): void;
+}
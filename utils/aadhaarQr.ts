@@ -0,0 +1,100 @@
+import { DocumentScan } from '../types';
+
+// Field order of the Secure QR text block (after the optional "V2" version
+// marker). The photo and signature follow as binary data.
+const SECURE_QR_FIELDS = [
+  'emailMobileIndicator', 'referenceId', 'name', 'dob', 'gender', 'careOf', 'district', 'landmark',
+  'house', 'location', 'pincode', 'postOffice', 'state', 'street', 'subDistrict', 'vtc'
+] as const;
+
+const FIELD_DELIMITER = 255;
+
+export type SecureQrField = typeof SECURE_QR_FIELDS[number];
+
+export interface SecureQrData {
+  version: string; // 'V1' for the original format, otherwise the marker in the payload
+  fields: Record<SecureQrField, string>;
+  payload: Uint8Array; // Decompressed bytes, including photo and signature
+}
+
+// The Secure QR is a base-10 integer wrapping gzip-compressed bytes
+const decimalToBytes = (text: string): Uint8Array => {
+  let hex = BigInt(text).toString(16);
+  if (hex.length % 2) hex = `0${hex}`;
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+};
+
+const gunzip = async (bytes: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream('gzip'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+// "12-03-1990" -> "12/03/1990", matching what the user would say
+const slashDate = (value: string): string => value.replace(/-/g, '/');
+
+// Decodes a Secure QR (2018 onwards) without checking its signature
+export const decodeSecureQr = async (text: string): Promise<SecureQrData> => {
+  const payload = await gunzip(decimalToBytes(text.trim()));
+  const latin1 = new TextDecoder('latin1');
+
+  // Only the leading text fields are split out; the binary tail may contain 255 too
+  const parts: string[] = [];
+  let start = 0;
+  for (let i = 0; i < payload.length && parts.length <= SECURE_QR_FIELDS.length; i++) {
+    if (payload[i] === FIELD_DELIMITER) {
+      parts.push(latin1.decode(payload.subarray(start, i)));
+      start = i + 1;
+    }
+  }
+
+  const version = /^V\d+$/.test(parts[0] ?? '') ? parts.shift()! : 'V1';
+  if (parts.length < SECURE_QR_FIELDS.length) {
+    throw new Error('Secure QR payload is truncated.');
+  }
+
+  const fields = Object.fromEntries(SECURE_QR_FIELDS.map((name, i) => [name, parts[i]])) as Record<SecureQrField, string>;
+  return { version, fields, payload };
+};
+
+// Attribute value from the older XML QR, e.g. uid="499118665248"
+const xmlAttribute = (xml: string, name: string): string | undefined =>
+  xml.match(new RegExp(`\\b${name}="([^"]*)"`))?.[1];
+
+// The older, unsigned QR: plain XML with the full number
+export const parsePrintLetterQr = (text: string): DocumentScan | null => {
+  if (!text.includes('<PrintLetterBarcodeData')) return null;
+  const dob = xmlAttribute(text, 'dob');
+  return {
+    document: 'AADHAR',
+    source: 'QR',
+    fields: {
+      fullName: xmlAttribute(text, 'name'),
+      number: xmlAttribute(text, 'uid'),
+      dob: dob && /^\d{4}-\d{2}-\d{2}$/.test(dob) ? dob.split('-').reverse().join('/') : dob && slashDate(dob)
+    },
+    warnings: dob ? [] : ['The QR only has the year of birth; ask for the full date.']
+  };
+};
+
+export const isSecureQr = (text: string): boolean => /^\d{100,}$/.test(text.trim());
+
+// Reference ids are the last 4 Aadhar digits followed by the generation
+// time, YYYYMMDDHHMMSSsss
+export const parseReferenceId = (referenceId: string): { last4: string; generatedAt: string | null } => {
+  const time = referenceId.slice(4).match(/^(\d{4})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})(\d{3})/);
+  const generatedAt = time ? `${time[1]}-${time[2]}-${time[3]}T${time[4]}:${time[5]}:${time[6]}.${time[7]}+05:30` : null;
+  return { last4: referenceId.slice(0, 4), generatedAt };
+};
+
+// Demographic fields of a decoded Secure QR, which has no full number
+export const secureQrScan = (qr: SecureQrData): DocumentScan => ({
+  document: 'AADHAR',
+  source: 'SECURE_QR',
+  fields: { fullName: qr.fields.name, dob: slashDate(qr.fields.dob) },
+  numberLast4: parseReferenceId(qr.fields.referenceId).last4,
+  warnings: []
+});
@@ -40,24 +40,6 @@ export const base64ToArrayBuffer = (base64: string): ArrayBuffer => {
   return bytes.buffer;
 };
 
-// Simple Linear Interpolation Downsampler
-export const downsampleTo16000 = (buffer: Float32Array, sampleRate: number): Float32Array => {
-  if (sampleRate === 16000) return buffer;
-  const ratio = sampleRate / 16000;
-  const newLength = Math.ceil(buffer.length / ratio);
-  const result = new Float32Array(newLength);
-  
-  for (let i = 0; i < newLength; i++) {
-    const offset = i * ratio;
-    const index = Math.floor(offset);
-    const nextIndex = Math.min(index + 1, buffer.length - 1);
-    const fraction = offset - index;
-    
-    result[i] = buffer[index] * (1 - fraction) + buffer[nextIndex] * fraction;
-  }
-  return result;
-};
-
 // Create AudioBuffer from Int16 PCM Data
 export const createAudioBufferFromPCM = (
   pcmData: Int16Array,
@@ -0,0 +1,110 @@
+// AudioWorklet that turns microphone audio into 16 kHz Int16 PCM frames off
+// the main thread. It low-pass filters (windowed-sinc FIR) before resampling
+// so that content above 8 kHz does not alias into the speech band.
+
+export const CAPTURE_PROCESSOR_NAME = 'pcm16-capture-processor';
+export const CAPTURE_SAMPLE_RATE = 16000;
+export const CAPTURE_FRAME_SIZE = 640; // 40 ms at 16 kHz
+
+// Kept as plain JS: worklet modules run in AudioWorkletGlobalScope and are
+// loaded from a Blob URL, so they cannot import from the app bundle.
+const CAPTURE_PROCESSOR_SOURCE = `
+const designLowPass = (cutoff, rate, numTaps) => {
+  const taps = new Float32Array(numTaps);
+  const fc = cutoff / rate;
+  const mid = (numTaps - 1) / 2;
+  let sum = 0;
+  for (let n = 0; n < numTaps; n++) {
+    const x = n - mid;
+    const sinc = x === 0 ? 2 * fc : Math.sin(2 * Math.PI * fc * x) / (Math.PI * x);
+    const blackman = 0.42 - 0.5 * Math.cos((2 * Math.PI * n) / (numTaps - 1)) + 0.08 * Math.cos((4 * Math.PI * n) / (numTaps - 1));
+    taps[n] = sinc * blackman;
+    sum += taps[n];
+  }
+  for (let n = 0; n < numTaps; n++) taps[n] /= sum;
+  return taps;
+};
+
+class Pcm16CaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    const opts = (options && options.processorOptions) || {};
+    this.targetRate = opts.targetRate || ${CAPTURE_SAMPLE_RATE};
+    this.frameSize = opts.frameSize || ${CAPTURE_FRAME_SIZE};
+    this.ratio = sampleRate / this.targetRate;
+
+    // Cut off a little below the target Nyquist frequency
+    this.taps = this.ratio > 1 ? designLowPass(0.45 * this.targetRate, sampleRate, 63) : new Float32Array([1]);
+    this.history = new Float32Array(this.taps.length);
+    this.historyIndex = 0;
+
+    this.position = 0; // Next output position, in input samples after 'previous'
+    this.previous = 0;
+
+    this.frame = new Int16Array(this.frameSize);
+    this.frameIndex = 0;
+  }
+
+  filter(sample) {
+    const taps = this.taps;
+    const history = this.history;
+    const length = taps.length;
+    history[this.historyIndex] = sample;
+    let acc = 0;
+    let index = this.historyIndex;
+    for (let k = 0; k < length; k++) {
+      acc += taps[k] * history[index];
+      index = index === 0 ? length - 1 : index - 1;
+    }
+    this.historyIndex = (this.historyIndex + 1) % length;
+    return acc;
+  }
+
+  push(sample) {
+    const s = Math.max(-1, Math.min(1, sample));
+    this.frame[this.frameIndex++] = s < 0 ? s * 0x8000 : s * 0x7fff;
+    if (this.frameIndex === this.frameSize) {
+      const buffer = this.frame.buffer;
+      this.port.postMessage(buffer, [buffer]);
+      this.frame = new Int16Array(this.frameSize);
+      this.frameIndex = 0;
+    }
+  }
+
+  process(inputs) {
+    const channel = inputs[0] && inputs[0][0];
+    if (!channel) return true;
+
+    for (let i = 0; i < channel.length; i++) {
+      const current = this.filter(channel[i]);
+      while (this.position < 1) {
+        this.push(this.previous + (current - this.previous) * this.position);
+        this.position += this.ratio;
+      }
+      this.position -= 1;
+      this.previous = current;
+    }
+    return true;
+  }
+}
+
+registerProcessor('${CAPTURE_PROCESSOR_NAME}', Pcm16CaptureProcessor);
+`;
+
+const loadedContexts = new WeakSet<BaseAudioContext>();
+
+// Registers the capture processor on the context (once per context)
+export const loadCaptureWorklet = async (context: BaseAudioContext): Promise<void> => {
+  if (loadedContexts.has(context)) return;
+  if (!context.audioWorklet) {
+    throw new Error("AudioWorklet is not supported in this browser.");
+  }
+
+  const url = URL.createObjectURL(new Blob([CAPTURE_PROCESSOR_SOURCE], { type: 'application/javascript' }));
+  try {
+    await context.audioWorklet.addModule(url);
+    loadedContexts.add(context);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
@@ -0,0 +1,76 @@
+import { DocumentScan, DocumentType, IdentityDoc, IdentityField } from '../types';
+import { normalisePanNumber, validateAadhaar } from './documentValidation';
+
+// Card furniture that is never the holder's name
+const HEADER_WORDS = /government|india|income|tax|department|permanent|account|number|card|signature|father|unique|identification|authority|enrolment/i;
+
+const DATE = /(\d{2})[/.-](\d{2})[/.-](\d{4})/;
+
+// Aadhar numbers are printed as three groups of four; a 16-digit VID must not match
+const AADHAR_CANDIDATE = /(?<!\d ?)[2-9]\d{3} ?\d{4} ?\d{4}(?! ?\d)/g;
+
+// Characters OCR commonly swaps between letters and digits
+const AS_LETTER: Record<string, string> = { '0': 'O', '1': 'I', '2': 'Z', '5': 'S', '8': 'B' };
+const AS_DIGIT: Record<string, string> = { O: '0', D: '0', I: '1', L: '1', Z: '2', S: '5', B: '8' };
+
+const PAN_SHAPE = /^[A-Z]{5}\d{4}[A-Z]$/;
+
+// A name line: Latin letters, spaces and dots only
+const isNameLine = (line: string): boolean =>
+  /^[A-Za-z][A-Za-z .']{2,}$/.test(line) && !HEADER_WORDS.test(line);
+
+const findDob = (lines: string[]): { dob?: string; line: number } => {
+  const line = lines.findIndex(l => DATE.test(l));
+  if (line < 0) return { line };
+  const [, d, m, y] = lines[line].match(DATE)!;
+  return { dob: `${d}/${m}/${y}`, line };
+};
+
+// Prefers a candidate that passes the Verhoeff checksum
+const findAadharNumber = (text: string): string | undefined => {
+  const candidates = [...text.matchAll(AADHAR_CANDIDATE)].map(m => m[0].replace(/ /g, ''));
+  return candidates.find(c => validateAadhaar(c).valid) ?? candidates[0];
+};
+
+// Fixes letter/digit swaps by position: AAAAA9999A
+const findPanNumber = (lines: string[]): string | undefined => {
+  for (const line of lines) {
+    for (const word of line.split(/\s+/)) {
+      if (word.length !== 10 || !/^[A-Za-z0-9]+$/.test(word)) continue;
+      const fixed = normalisePanNumber(word).split('').map((ch, i) => (i >= 5 && i < 9 ? AS_DIGIT[ch] ?? ch : AS_LETTER[ch] ?? ch)).join('');
+      if (PAN_SHAPE.test(fixed)) return fixed;
+    }
+  }
+  return undefined;
+};
+
+const aadharName = (lines: string[], dobLine: number): string | undefined => {
+  // The English name sits just above the DOB line (below the regional-script name)
+  for (let i = (dobLine < 0 ? lines.length : dobLine) - 1; i >= 0; i--) {
+    if (isNameLine(lines[i])) return lines[i];
+  }
+  return undefined;
+};
+
+const panName = (lines: string[]): string | undefined => {
+  // Newer cards label it "Name / नाम"; older ones put it first, above the father's name
+  const label = lines.findIndex(l => /\bname\b/i.test(l) && !/father/i.test(l));
+  if (label >= 0 && lines[label + 1] && isNameLine(lines[label + 1])) return lines[label + 1];
+  return lines.find(isNameLine);
+};
+
+// Picks name, number and DOB out of OCR text from the front of a card
+export const extractCardFields = (document: DocumentType, text: string): DocumentScan => {
+  const lines = text.split('\n').map(l => l.replace(/\s+/g, ' ').trim()).filter(Boolean);
+  const { dob, line: dobLine } = findDob(lines);
+
+  const fields: Partial<IdentityDoc> = document === 'AADHAR'
+    ? { fullName: aadharName(lines, dobLine), number: findAadharNumber(text), dob }
+    : { fullName: panName(lines), number: findPanNumber(lines), dob };
+
+  const warnings = (Object.keys(fields) as (IdentityField)[])
+    .filter(field => !fields[field])
+    .map(field => `Could not read the ${field === 'fullName' ? 'name' : field === 'dob' ? 'date of birth' : 'number'} from the photo.`);
+
+  return { document, source: 'OCR', fields, warnings };
+};
@@ -0,0 +1,130 @@
+import { DocumentType, IdentityDoc, ValidationResult } from '../types';
+import { normaliseName, parseDob } from './identityMatch';
+import { maskAadhaar } from './redaction';
+
+// Verhoeff multiplication table (dihedral group D5)
+const VERHOEFF_D = [
+  [0, 1, 2, 3, 4, 5, 6, 7, 8, 9],
+  [1, 2, 3, 4, 0, 6, 7, 8, 9, 5],
+  [2, 3, 4, 0, 1, 7, 8, 9, 5, 6],
+  [3, 4, 0, 1, 2, 8, 9, 5, 6, 7],
+  [4, 0, 1, 2, 3, 9, 5, 6, 7, 8],
+  [5, 9, 8, 7, 6, 0, 4, 3, 2, 1],
+  [6, 5, 9, 8, 7, 1, 0, 4, 3, 2],
+  [7, 6, 5, 9, 8, 2, 1, 0, 4, 3],
+  [8, 7, 6, 5, 9, 3, 2, 1, 0, 4],
+  [9, 8, 7, 6, 5, 4, 3, 2, 1, 0]
+];
+
+// Verhoeff permutation table
+const VERHOEFF_P = [
+  [0, 1, 2, 3, 4, 5, 6, 7, 8, 9],
+  [1, 5, 7, 6, 2, 8, 3, 0, 9, 4],
+  [5, 8, 0, 3, 7, 9, 6, 1, 4, 2],
+  [8, 9, 1, 6, 0, 4, 3, 5, 2, 7],
+  [9, 4, 5, 3, 1, 2, 6, 8, 7, 0],
+  [4, 2, 8, 6, 5, 7, 3, 9, 0, 1],
+  [2, 7, 9, 3, 8, 0, 1, 6, 4, 5],
+  [7, 0, 4, 6, 9, 1, 3, 2, 5, 8]
+];
+
+// PAN 4th character: category of the holder
+export const PAN_HOLDER_TYPES: Record<string, string> = {
+  P: 'Individual',
+  C: 'Company',
+  H: 'Hindu Undivided Family',
+  F: 'Firm',
+  A: 'Association of Persons',
+  T: 'Trust',
+  B: 'Body of Individuals',
+  L: 'Local Authority',
+  J: 'Artificial Juridical Person',
+  G: 'Government'
+};
+
+const PAN_PATTERN = /^[A-Z]{5}[0-9]{4}[A-Z]$/;
+
+// True when the digit string (including its trailing check digit) passes Verhoeff
+export const verhoeffCheck = (digits: string): boolean => {
+  let c = 0;
+  const reversed = digits.split('').reverse();
+  for (let i = 0; i < reversed.length; i++) {
+    c = VERHOEFF_D[c][VERHOEFF_P[i % 8][Number(reversed[i])]];
+  }
+  return c === 0;
+};
+
+// Strip the spaces and hyphens people use when grouping the digits
+export const normaliseAadhaarNumber = (input: string): string => input.replace(/[\s-]/g, '');
+
+export const normalisePanNumber = (input: string): string => input.replace(/[\s-]/g, '').toUpperCase();
+
+export const validateAadhaar = (input: string): ValidationResult => {
+  const value = normaliseAadhaarNumber(input);
+  const errors: string[] = [];
+
+  if (!/^\d{12}$/.test(value)) {
+    errors.push(`Aadhar number must be exactly 12 digits; received ${value.replace(/\D/g, '').length} digit(s).`);
+  } else if (value[0] === '0' || value[0] === '1') {
+    errors.push('Aadhar number cannot start with 0 or 1.');
+  } else if (!verhoeffCheck(value)) {
+    errors.push('Aadhar number failed the checksum, so at least one digit was probably misheard.');
+  }
+
+  return { valid: errors.length === 0, value, errors, warnings: [] };
+};
+
+export const validatePan = (input: string, fullName: string): ValidationResult => {
+  const value = normalisePanNumber(input);
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  if (!PAN_PATTERN.test(value)) {
+    errors.push('PAN must be 5 letters, then 4 digits, then 1 letter (e.g. ABCPE1234F).');
+    return { valid: false, value, errors, warnings };
+  }
+
+  const holderType = value[3];
+  if (!PAN_HOLDER_TYPES[holderType]) {
+    errors.push(`4th character "${holderType}" is not a valid PAN holder type.`);
+    return { valid: false, value, errors, warnings };
+  }
+  if (holderType !== 'P') {
+    warnings.push(`PAN belongs to a ${PAN_HOLDER_TYPES[holderType]}, not an individual.`);
+  }
+
+  // For individuals the 5th character is the surname initial; for other
+  // holders it is the first letter of the entity name.
+  const tokens = normaliseName(fullName);
+  const initial = value[4].toLowerCase();
+  if (tokens.length) {
+    const expected = holderType === 'P' ? tokens[tokens.length - 1] : tokens[0];
+    if (expected[0] !== initial) {
+      if (holderType === 'P' && tokens.some(t => t[0] === initial)) {
+        warnings.push(`5th character "${value[4]}" matches a name part other than the surname "${expected}".`);
+      } else {
+        errors.push(`5th character "${value[4]}" does not match the initial of "${expected}".`);
+      }
+    }
+  }
+
+  return { valid: errors.length === 0, value, errors, warnings };
+};
+
+// Groups the assistant reads back: "4991 1866 5248", "ABCPS 1234 F"
+export const groupForReadBack = (document: DocumentType, value: string): string =>
+  document === 'AADHAR'
+    ? value.replace(/(\d{4})(?=\d)/g, '$1 ')
+    : value.replace(/^(.{5})(.{4})(.)$/, '$1 $2 $3');
+
+// Values to read back to the user before a document is confirmed. These go to
+// the model, so the Aadhar number is masked to its last four digits.
+export const readBackDoc = (document: DocumentType, doc: IdentityDoc): IdentityDoc => {
+  const dob = parseDob(doc.dob);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return {
+    fullName: doc.fullName,
+    dob: dob?.day && dob.month ? `${pad(dob.day)}/${pad(dob.month)}/${dob.year}` : doc.dob,
+    number: document === 'AADHAR' ? maskAadhaar(doc.number) : groupForReadBack(document, doc.number)
+  };
+};
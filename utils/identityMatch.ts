@@ -0,0 +1,294 @@
+import { FieldMatch, IdentityDoc, VerificationResult, VerificationStatus } from '../types';
+
+// Minimum similarity for the name to be treated as the same person
+export const NAME_MATCH_THRESHOLD = 0.8;
+
+// Minimum Jaro-Winkler for two differently spelled name parts to pair up.
+// Different names often share most letters ("Rajesh"/"Ramesh" is 0.91,
+// "Priya"/"Supriya" 0.91), so anything looser pairs different people.
+export const TOKEN_MATCH_THRESHOLD = 0.92;
+
+// Titles that commonly prefix Indian names on identity documents
+const HONORIFICS = new Set([
+  'mr', 'mrs', 'ms', 'miss', 'dr', 'shri', 'sri', 'shree', 'smt', 'shrimati',
+  'kumari', 'km', 'kum', 'late', 'md', 'mohd', 'prof', 'thiru', 'thirumathi', 'selvi'
+]);
+
+const MONTHS: Record<string, number> = {
+  jan: 1, feb: 2, mar: 3, apr: 4, may: 5, jun: 6,
+  jul: 7, aug: 8, sep: 9, oct: 10, nov: 11, dec: 12
+};
+
+// Ordered spelling folds so that common transliteration variants share a key
+// (e.g. "Lakshmi"/"Laxmi", "Shreya"/"Sreya", "Mohammed"/"Muhammad", "Ahmed"/"Ahmad").
+const TRANSLITERATION_FOLDS: [RegExp, string][] = [
+  [/^muh/g, 'moh'],
+  [/([^aeiou])ed$/g, '$1ad'],
+  [/x/g, 'ks'],
+  [/ksh/g, 'ks'],
+  [/q/g, 'k'],
+  [/ph/g, 'f'],
+  [/w/g, 'v'],
+  [/z/g, 'j'],
+  [/([bdgjkpt])h/g, '$1'],
+  [/sh/g, 's'],
+  [/ch/g, 'c'],
+  [/ck/g, 'k'],
+  [/ee|ea|ie|ii/g, 'i'],
+  [/oo|ou|uu/g, 'u'],
+  [/aa/g, 'a'],
+  [/y$/g, 'i'],
+  [/(.)\1+/g, '$1']
+];
+
+// Lowercase, strip diacritics/punctuation and drop honorifics
+export const normaliseName = (name: string): string[] => {
+  return name
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z\s]/g, ' ')
+    .split(/\s+/)
+    .filter(token => token.length > 0 && !HONORIFICS.has(token));
+};
+
+// Phonetic key used to compare transliteration variants
+export const phoneticKey = (token: string): string => {
+  return TRANSLITERATION_FOLDS.reduce((acc, [pattern, replacement]) => acc.replace(pattern, replacement), token);
+};
+
+// Jaro-Winkler similarity in the range 0..1
+export const jaroWinkler = (a: string, b: string): number => {
+  if (a === b) return 1;
+  if (!a.length || !b.length) return 0;
+
+  const window = Math.max(0, Math.floor(Math.max(a.length, b.length) / 2) - 1);
+  const aMatches = new Array<boolean>(a.length).fill(false);
+  const bMatches = new Array<boolean>(b.length).fill(false);
+
+  let matches = 0;
+  for (let i = 0; i < a.length; i++) {
+    const start = Math.max(0, i - window);
+    const end = Math.min(i + window + 1, b.length);
+    for (let j = start; j < end; j++) {
+      if (bMatches[j] || a[i] !== b[j]) continue;
+      aMatches[i] = true;
+      bMatches[j] = true;
+      matches++;
+      break;
+    }
+  }
+  if (matches === 0) return 0;
+
+  let transpositions = 0;
+  let k = 0;
+  for (let i = 0; i < a.length; i++) {
+    if (!aMatches[i]) continue;
+    while (!bMatches[k]) k++;
+    if (a[i] !== b[k]) transpositions++;
+    k++;
+  }
+
+  const jaro = (matches / a.length + matches / b.length + (matches - transpositions / 2) / matches) / 3;
+
+  let prefix = 0;
+  while (prefix < Math.min(4, a.length, b.length) && a[prefix] === b[prefix]) prefix++;
+
+  return jaro + prefix * 0.1 * (1 - jaro);
+};
+
+// Similarity of two name tokens, treating single letters as initials. Tokens
+// only pair when they are equal, an initial, the same phonetic key, or nearly
+// identical spellings; anything else scores 0 and stays unmatched. A name that
+// extends another ("Amit"/"Amita", "Jay"/"Jaya") is often a different name,
+// frequently across genders, so it is never a spelling variant.
+const tokenSimilarity = (a: string, b: string): { score: number; note?: string } => {
+  if (a === b) return { score: 1 };
+  if (a.length === 1 || b.length === 1) {
+    const [initial, full] = a.length === 1 ? [a, b] : [b, a];
+    return full[0] === initial
+      ? { score: 0.9, note: `"${initial.toUpperCase()}" treated as initial of "${full}"` }
+      : { score: 0 };
+  }
+  const keyA = phoneticKey(a);
+  const keyB = phoneticKey(b);
+  if (keyA === keyB) return { score: 0.95, note: `"${a}" and "${b}" treated as spelling variants` };
+  if (a.startsWith(b) || b.startsWith(a)) return { score: 0 };
+  const score = jaroWinkler(a, b);
+  return score >= TOKEN_MATCH_THRESHOLD ? { score, note: `"${a}" and "${b}" treated as spelling variants` } : { score: 0 };
+};
+
+export const compareNames = (aadharName: string, panName: string): FieldMatch => {
+  const left = normaliseName(aadharName);
+  const right = normaliseName(panName);
+  const reasons: string[] = [];
+
+  if (!left.length || !right.length) {
+    return { field: 'fullName', score: 0, matched: false, reasons: ['Name is missing on one of the documents.'] };
+  }
+
+  // Greedy best pairing so the comparison is independent of token order
+  const pairs: { i: number; j: number; score: number; note?: string }[] = [];
+  left.forEach((a, i) => right.forEach((b, j) => pairs.push({ i, j, ...tokenSimilarity(a, b) })));
+  pairs.sort((x, y) => y.score - x.score);
+
+  const usedLeft = new Set<number>();
+  const usedRight = new Set<number>();
+  let total = 0;
+  for (const pair of pairs) {
+    if (pair.score === 0 || usedLeft.has(pair.i) || usedRight.has(pair.j)) continue;
+    usedLeft.add(pair.i);
+    usedRight.add(pair.j);
+    total += pair.score;
+    if (pair.note) reasons.push(pair.note);
+  }
+
+  const unmatchedLeft = left.filter((_, i) => !usedLeft.has(i));
+  const unmatchedRight = right.filter((_, j) => !usedRight.has(j));
+  if (unmatchedLeft.length) reasons.push(`Aadhar name has unmatched part(s): ${unmatchedLeft.join(', ')}.`);
+  if (unmatchedRight.length) reasons.push(`PAN name has unmatched part(s): ${unmatchedRight.join(', ')}.`);
+
+  const orderedLeft = left.filter((_, i) => usedLeft.has(i));
+  const pairedOrder = pairs.filter(p => usedLeft.has(p.i) && usedRight.has(p.j) && p.score > 0);
+  const reordered = pairedOrder.some(p => pairedOrder.some(q => p.i < q.i && p.j > q.j));
+  if (reordered && orderedLeft.length > 1) reasons.push('Name parts appear in a different order.');
+
+  const score = (2 * total) / (left.length + right.length);
+  const matched = score >= NAME_MATCH_THRESHOLD;
+  if (!matched) reasons.unshift(`Names differ: "${aadharName}" vs "${panName}".`);
+
+  return { field: 'fullName', score: round(score), matched, reasons };
+};
+
+export interface ParsedDate {
+  year: number;
+  month?: number;
+  day?: number;
+}
+
+const isValidDate = (year: number, month: number, day: number): boolean => {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+};
+
+const expandYear = (year: number): number => {
+  if (year >= 100) return year;
+  const currentTwoDigit = new Date().getFullYear() % 100;
+  return year > currentTwoDigit ? 1900 + year : 2000 + year;
+};
+
+const monthFromWord = (word: string): number | undefined => MONTHS[word.slice(0, 3).toLowerCase()];
+
+// Parse the date formats users speak or documents print, assuming day-first order
+export const parseDob = (input: string): ParsedDate | null => {
+  const text = input
+    .toLowerCase()
+    .replace(/(\d+)(st|nd|rd|th)\b/g, '$1')
+    .replace(/\bof\b|,/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  let m = text.match(/^(\d{4})[-/. ](\d{1,2})[-/. ](\d{1,2})$/);
+  if (m) return checked(+m[1], +m[2], +m[3]);
+
+  m = text.match(/^(\d{1,2})[-/. ](\d{1,2})[-/. ](\d{2}|\d{4})$/);
+  if (m) return checked(expandYear(+m[3]), +m[2], +m[1]);
+
+  m = text.match(/^(\d{2})(\d{2})(\d{4})$/);
+  if (m) return checked(+m[3], +m[2], +m[1]);
+
+  m = text.match(/^(\d{1,2})[\s-]+([a-z]+)[\s-]+(\d{2}|\d{4})$/);
+  if (m && monthFromWord(m[2])) return checked(expandYear(+m[3]), monthFromWord(m[2])!, +m[1]);
+
+  m = text.match(/^([a-z]+)\s+(\d{1,2})\s+(\d{4})$/);
+  if (m && monthFromWord(m[1])) return checked(+m[3], monthFromWord(m[1])!, +m[2]);
+
+  m = text.match(/^(?:yob[:\s]*)?(\d{4})$/);
+  if (m) return { year: +m[1] };
+
+  return null;
+};
+
+const checked = (year: number, month: number, day: number): ParsedDate | null =>
+  isValidDate(year, month, day) ? { year, month, day } : null;
+
+// Render a parsed date as YYYY-MM-DD (or YYYY when only the year is known)
+export const formatDob = (date: ParsedDate): string => {
+  if (date.month === undefined || date.day === undefined) return String(date.year);
+  return `${date.year}-${String(date.month).padStart(2, '0')}-${String(date.day).padStart(2, '0')}`;
+};
+
+export const compareDobs = (aadharDob: string, panDob: string): FieldMatch => {
+  const left = parseDob(aadharDob);
+  const right = parseDob(panDob);
+
+  if (!left || !right) {
+    const which = !left && !right ? 'either document' : !left ? 'the Aadhar record' : 'the PAN record';
+    return { field: 'dob', score: 0, matched: false, reasons: [`Could not read the date of birth on ${which}.`] };
+  }
+
+  if (left.year !== right.year) {
+    return {
+      field: 'dob',
+      score: 0,
+      matched: false,
+      reasons: [`Date of birth differs: ${formatDob(left)} on Aadhar vs ${formatDob(right)} on PAN.`]
+    };
+  }
+
+  if (left.month === undefined || right.month === undefined) {
+    return { field: 'dob', score: 0.8, matched: true, reasons: ['Only the year of birth could be compared.'] };
+  }
+
+  if (left.month === right.month && left.day === right.day) {
+    return { field: 'dob', score: 1, matched: true, reasons: [] };
+  }
+
+  if (left.month === right.day && left.day === right.month) {
+    return {
+      field: 'dob',
+      score: 0.3,
+      matched: false,
+      reasons: [`Day and month appear swapped: ${formatDob(left)} on Aadhar vs ${formatDob(right)} on PAN.`]
+    };
+  }
+
+  return {
+    field: 'dob',
+    score: 0,
+    matched: false,
+    reasons: [`Date of birth differs: ${formatDob(left)} on Aadhar vs ${formatDob(right)} on PAN.`]
+  };
+};
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+// Cross-check the Aadhar and PAN records field by field
+export const matchIdentityDocs = (aadhar: IdentityDoc | null, pan: IdentityDoc | null): VerificationResult => {
+  const checkedAt = new Date().toISOString();
+
+  if (!aadhar || !pan) {
+    return {
+      status: VerificationStatus.MISMATCH,
+      score: 0,
+      confidence: 'STANDARD',
+      fields: [],
+      reasons: [`${!aadhar ? 'Aadhar' : 'PAN'} details have not been saved yet.`],
+      checkedAt
+    };
+  }
+
+  const signed = aadhar.attestation?.fields ?? [];
+  const fields = [compareNames(aadhar.fullName, pan.fullName), compareDobs(aadhar.dob, pan.dob)]
+    .map(f => ({ ...f, attested: signed.includes(f.field) }));
+  const matched = fields.every(f => f.matched);
+
+  return {
+    status: matched ? VerificationStatus.MATCH : VerificationStatus.MISMATCH,
+    score: round(fields.reduce((sum, f) => sum + f.score, 0) / fields.length),
+    confidence: fields.every(f => f.attested) ? 'HIGH' : 'STANDARD',
+    fields,
+    reasons: fields.filter(f => !f.matched).flatMap(f => f.reasons),
+    checkedAt
+  };
+};
@@ -0,0 +1,108 @@
+// Minimal PDF 1.4 writer for plain text documents: A4 pages, the built-in
+// Helvetica fonts (WinAnsi encoding, so Latin text only) and no compression.
+// Enough for a printable report without shipping a PDF library.
+
+export interface PdfLine {
+  text: string;
+  size?: number;   // Points, default 10
+  bold?: boolean;
+  gapBefore?: number; // Extra space above the line, in points
+}
+
+const PAGE_WIDTH = 595;
+const PAGE_HEIGHT = 842;
+const MARGIN = 50;
+const DEFAULT_SIZE = 10;
+const LINE_SPACING = 1.4;
+// Average Helvetica glyph width as a fraction of the font size, for wrapping
+const AVERAGE_GLYPH_WIDTH = 0.5;
+
+// WinAnsi codes for common punctuation outside Latin-1
+const WIN_ANSI_EXTRAS: Record<string, string> = {
+  '\u2013': '\x96', '\u2014': '\x97', '\u2018': '\x91', '\u2019': '\x92',
+  '\u201c': '\x93', '\u201d': '\x94', '\u2022': '\x95', '\u2026': '\x85'
+};
+
+// Other characters cannot be drawn with the standard fonts
+const toLatin1 = (text: string): string =>
+  text.replace(/[^\x20-\x7e\xa0-\xff]/g, c => WIN_ANSI_EXTRAS[c] ?? '?');
+
+const escapeString = (text: string): string => toLatin1(text).replace(/[\\()]/g, c => `\\${c}`);
+
+// Splits on spaces so that no line is wider than the printable area
+const wrap = (text: string, size: number): string[] => {
+  const maxChars = Math.floor((PAGE_WIDTH - 2 * MARGIN) / (size * AVERAGE_GLYPH_WIDTH));
+  const lines: string[] = [];
+  let current = '';
+  for (const word of text.split(' ')) {
+    if (current && current.length + 1 + word.length > maxChars) {
+      lines.push(current);
+      current = '';
+    }
+    current = current ? `${current} ${word}` : word;
+    while (current.length > maxChars) {
+      lines.push(current.slice(0, maxChars));
+      current = current.slice(maxChars);
+    }
+  }
+  lines.push(current);
+  return lines;
+};
+
+// Content streams, one per page
+const layout = (lines: PdfLine[]): string[] => {
+  const pages: string[] = [];
+  let ops: string[] = [];
+  let y = PAGE_HEIGHT - MARGIN;
+
+  for (const line of lines) {
+    const size = line.size ?? DEFAULT_SIZE;
+    const height = size * LINE_SPACING;
+    y -= line.gapBefore ?? 0;
+    for (const text of wrap(line.text, size)) {
+      if (y - height < MARGIN) {
+        pages.push(ops.join('\n'));
+        ops = [];
+        y = PAGE_HEIGHT - MARGIN;
+      }
+      y -= height;
+      ops.push(`BT /${line.bold ? 'F2' : 'F1'} ${size} Tf ${MARGIN} ${y.toFixed(1)} Td (${escapeString(text)}) Tj ET`);
+    }
+  }
+  pages.push(ops.join('\n'));
+  return pages;
+};
+
+export const buildTextPdf = (lines: PdfLine[], title: string): Blob => {
+  const pages = layout(lines);
+  // 1 catalog, 2 page tree, 3-4 fonts, 5 info, then a page and its content per page
+  const pageIds = pages.map((_, i) => 6 + i * 2);
+  const objects: string[] = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>',
+    `<< /Title (${escapeString(title)}) /Producer (DigiVerifier) >>`
+  ];
+  pages.forEach((content, i) => {
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+      `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageIds[i] + 1} 0 R >>`,
+      `<< /Length ${content.length} >>\nstream\n${content}\nendstream`
+    );
+  });
+
+  // Every character is Latin-1, so string offsets are byte offsets
+  let out = '%PDF-1.4\n';
+  const offsets = objects.map((body, i) => {
+    const offset = out.length;
+    out += `${i + 1} 0 obj\n${body}\nendobj\n`;
+    return offset;
+  });
+  const xref = out.length;
+  out += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  out += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  out += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+
+  return new Blob([Uint8Array.from(out, c => c.charCodeAt(0))], { type: 'application/pdf' });
+};
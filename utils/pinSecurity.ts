@@ -0,0 +1,69 @@
+import { PinHash, ValidationResult } from '../types';
+import { arrayBufferToBase64 } from './audioUtils';
+import { parseDob } from './identityMatch';
+
+export const PIN_LENGTH = 6;
+export const PIN_KDF_ITERATIONS = 310000;
+export const PIN_HASH_ALGORITHM: PinHash['algorithm'] = 'PBKDF2-SHA256';
+
+const isSequence = (pin: string, step: number): boolean => {
+  for (let i = 1; i < pin.length; i++) {
+    if ((Number(pin[i - 1]) + step + 10) % 10 !== Number(pin[i])) return false;
+  }
+  return true;
+};
+
+// Date-derived PINs people commonly pick from their date of birth
+const dobPatterns = (dob: string): string[] => {
+  const parsed = parseDob(dob);
+  if (!parsed) return [];
+
+  const yyyy = String(parsed.year);
+  const yy = yyyy.slice(2);
+  if (parsed.month === undefined || parsed.day === undefined) return [yyyy];
+
+  const mm = String(parsed.month).padStart(2, '0');
+  const dd = String(parsed.day).padStart(2, '0');
+  return [dd + mm + yy, yy + mm + dd, mm + dd + yy, dd + mm + yyyy.slice(0, 2), mm + yyyy, yyyy + mm, yyyy, dd + mm + yyyy];
+};
+
+// Reject PINs that are easy to guess, including ones derived from the DOB
+export const checkPinStrength = (rawPin: string, dob?: string): ValidationResult => {
+  const value = rawPin.replace(/\D/g, '');
+  const errors: string[] = [];
+
+  if (value.length !== PIN_LENGTH) {
+    errors.push(`PIN must be exactly ${PIN_LENGTH} digits.`);
+    return { valid: false, value, errors, warnings: [] };
+  }
+
+  if (new Set(value).size <= 2) {
+    errors.push('PIN uses too few distinct digits (e.g. 111111 or 121212).');
+  } else if (/^(\d{2})\1\1$|^(\d{3})\2$/.test(value)) {
+    errors.push('PIN repeats a short pattern (e.g. 123123).');
+  }
+
+  if (isSequence(value, 1) || isSequence(value, -1)) {
+    errors.push('PIN is a simple sequence (e.g. 123456 or 654321).');
+  }
+
+  if (dob && dobPatterns(dob).some(pattern => value.includes(pattern))) {
+    errors.push('PIN is based on the date of birth.');
+  }
+
+  return { valid: errors.length === 0, value, errors, warnings: [] };
+};
+
+// Salted PBKDF2-SHA256 via WebCrypto; the plaintext PIN is not kept anywhere
+export const hashPin = async (pin: string, iterations: number = PIN_KDF_ITERATIONS): Promise<PinHash> => {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const keyMaterial = await crypto.subtle.importKey('raw', new TextEncoder().encode(pin), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt, iterations }, keyMaterial, 256);
+
+  return {
+    algorithm: PIN_HASH_ALGORITHM,
+    iterations,
+    salt: arrayBufferToBase64(salt.buffer),
+    hash: arrayBufferToBase64(bits)
+  };
+};
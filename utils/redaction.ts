@@ -0,0 +1,54 @@
+import { DocumentType, LanguageCode } from '../types';
+import { maskSpokenAadhaar } from './spokenNumbers';
+
+// Aadhar numbers are only ever shown, logged or sent to the model in the
+// masked form XXXX XXXX 1234. PAN numbers are not masked.
+
+// Tool argument keys whose values must never be logged
+const SECRET_ARG_KEYS = new Set(['pin', 'otp']);
+
+// 12 digits, optionally grouped in fours, not part of a longer number
+const AADHAR_IN_TEXT = /(?<![\d-])\d{4}([ -]?)\d{4}\1(\d{4})(?![\d-])/g;
+
+// "499118665248" -> "XXXX XXXX 5248"
+export const maskAadhaar = (number: string): string => {
+  const digits = number.replace(/\D/g, '');
+  return digits.length > 4 ? `XXXX XXXX ${digits.slice(-4)}` : digits;
+};
+
+// Aadhar as XXXX XXXX 1234; other numbers keep their last four characters
+export const maskDocumentNumber = (document: DocumentType, value: string): string =>
+  document === 'AADHAR' ? maskAadhaar(value) : value.length > 4 ? `${'X'.repeat(value.length - 4)}${value.slice(-4)}` : value;
+
+// Document number as displayed; Aadhar stays masked unless revealed
+export const displayNumber = (document: DocumentType, number: string, revealed = false): string =>
+  document === 'AADHAR' && !revealed ? maskAadhaar(number) : number;
+
+// Masks Aadhar numbers in free text, written as digits or (given the
+// conversation language) spoken as digit words
+export const redactText = (text: string, language?: LanguageCode): string => {
+  const masked = text.replace(AADHAR_IN_TEXT, (_match, _sep, last4) => `XXXX XXXX ${last4}`);
+  return language ? maskSpokenAadhaar(masked, language) : masked;
+};
+
+// Deep copy of any JSON-like value that is safe to keep in the audit log
+export const redactDeep = (value: unknown, key?: string): unknown => {
+  if (key && SECRET_ARG_KEYS.has(key)) return '[REDACTED]';
+  if (typeof value === 'string') return redactText(value);
+  if (Array.isArray(value)) return value.map(item => redactDeep(item));
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, redactDeep(v, k)]));
+  }
+  return value;
+};
+
+// Copy of tool arguments that is safe to log: PIN and OTP removed, Aadhar masked
+export const redactToolArgs = (args: Record<string, unknown> | undefined): Record<string, unknown> | undefined => {
+  if (!args) return args;
+  return Object.fromEntries(
+    Object.entries(args).map(([key, value]) => [
+      key,
+      SECRET_ARG_KEYS.has(key) ? '[REDACTED]' : typeof value === 'string' ? redactText(value) : value
+    ])
+  );
+};
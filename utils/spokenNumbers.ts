@@ -0,0 +1,134 @@
+import { LanguageCode } from '../types';
+
+// Numbers are read out digit by digit ("ek do teen char"), so only the words
+// for 0-9 are handled, not compound numbers like "chaudah" (14).
+
+// Digit words per language, in native script and common romanisations
+const DIGIT_WORDS: Record<LanguageCode, string[][]> = {
+  en: [
+    ['zero', 'oh'], ['one'], ['two'], ['three'], ['four'],
+    ['five'], ['six'], ['seven'], ['eight'], ['nine']
+  ],
+  hi: [
+    ['शून्य', 'shunya', 'shoonya', 'sunya'], ['एक', 'ek'], ['दो', 'do'], ['तीन', 'teen', 'tin'], ['चार', 'char', 'chaar'],
+    ['पांच', 'पाँच', 'paanch', 'panch'], ['छह', 'छः', 'छै', 'chhah', 'chhe', 'chah', 'che'], ['सात', 'saat', 'sat'], ['आठ', 'aath', 'ath'], ['नौ', 'nau', 'nao']
+  ],
+  mr: [
+    ['शून्य', 'shunya', 'shoonya'], ['एक', 'ek'], ['दोन', 'don'], ['तीन', 'teen', 'tin'], ['चार', 'char', 'chaar'],
+    ['पाच', 'pach', 'paach'], ['सहा', 'saha'], ['सात', 'saat', 'sat'], ['आठ', 'aath', 'ath'], ['नऊ', 'nau', 'nav']
+  ],
+  ta: [
+    ['பூஜ்யம்', 'சுழியம்', 'poojyam', 'pujyam', 'suzhiyam'], ['ஒன்று', 'ஒண்ணு', 'onru', 'ondru', 'onnu'], ['இரண்டு', 'ரெண்டு', 'irandu', 'rendu'],
+    ['மூன்று', 'மூணு', 'moondru', 'moonu', 'munu'], ['நான்கு', 'நாலு', 'naangu', 'nangu', 'naalu', 'nalu'], ['ஐந்து', 'அஞ்சு', 'ainthu', 'aindhu', 'anju'],
+    ['ஆறு', 'aaru', 'aru'], ['ஏழு', 'ezhu', 'elu'], ['எட்டு', 'ettu'], ['ஒன்பது', 'onbathu', 'onpathu', 'ombadhu', 'ombathu']
+  ],
+  bn: [
+    ['শূন্য', 'shunno', 'shunyo', 'sunno'], ['এক', 'ek'], ['দুই', 'dui'], ['তিন', 'tin', 'teen'], ['চার', 'char', 'chaar'],
+    ['পাঁচ', 'panch', 'paanch'], ['ছয়', 'ছয়', 'chhoy', 'choy', 'chhay'], ['সাত', 'saat', 'shat', 'sat'], ['আট', 'aat', 'aath'], ['নয়', 'নয়', 'noy', 'nou']
+  ]
+};
+
+// Repeats the following digit ("double seven" -> 77)
+const MULTIPLIERS: Record<string, number> = { double: 2, triple: 3, 'डबल': 2, 'ट्रिपल': 3 };
+
+// Zero code points of the native digit blocks: Devanagari, Bengali, Tamil
+const NATIVE_DIGIT_ZEROS = [0x0966, 0x09e6, 0x0be6];
+const NATIVE_DIGIT = /[०-९০-৯௦-௯]/g;
+
+const key = (word: string): string => word.normalize('NFC').toLowerCase();
+
+const lookupCache = new Map<LanguageCode, Map<string, string>>();
+
+// English words are always accepted too: speakers mix them in freely
+const digitLookup = (language: LanguageCode): Map<string, string> => {
+  let lookup = lookupCache.get(language);
+  if (!lookup) {
+    lookup = new Map();
+    for (const table of language === 'en' ? [DIGIT_WORDS.en] : [DIGIT_WORDS.en, DIGIT_WORDS[language]]) {
+      table.forEach((words, digit) => words.forEach(word => lookup!.set(key(word), String(digit))));
+    }
+    lookupCache.set(language, lookup);
+  }
+  return lookup;
+};
+
+// "१२३", "১২৩" or "௧௨௩" -> "123"
+export const nativeDigitsToAscii = (text: string): string =>
+  text.replace(NATIVE_DIGIT, ch => {
+    const code = ch.charCodeAt(0);
+    const zero = NATIVE_DIGIT_ZEROS.find(z => code >= z && code <= z + 9)!;
+    return String(code - zero);
+  });
+
+// Turns a spoken number ("ek do teen", "double seven 4") into digits. With
+// alphanumeric set (PAN), single letters are kept and "oh" is the letter O.
+export const normaliseSpokenNumber = (text: string, language: LanguageCode, alphanumeric = false): string => {
+  const lookup = digitLookup(language);
+  const tokens = text.normalize('NFC').split(/[\s,.\-–—।]+/).filter(Boolean);
+
+  let repeat = 1;
+  let out = '';
+  for (const token of tokens) {
+    const word = key(token);
+    if (MULTIPLIERS[word]) {
+      repeat = MULTIPLIERS[word];
+      continue;
+    }
+    const value = alphanumeric && word === 'oh' ? 'O' : lookup.get(word) ?? nativeDigitsToAscii(token);
+    out += repeat > 1 && value.length > 0 ? value[0].repeat(repeat) + value.slice(1) : value;
+    repeat = 1;
+  }
+  return out;
+};
+
+// Hides digits and digit words (for secrets such as the PIN in transcripts)
+export const maskSpokenDigits = (text: string, language: LanguageCode): string => {
+  const lookup = digitLookup(language);
+  return text.normalize('NFC').replace(/[^\s,.\-–—।]+/g, token =>
+    lookup.has(key(token)) ? '•' : nativeDigitsToAscii(token).replace(/\d/g, '•')
+  );
+};
+
+// Masks spoken digit runs long enough to be an Aadhar number ("four nine nine
+// one ..."), keeping the words for the last four digits
+export const maskSpokenAadhaar = (text: string, language: LanguageCode): string => {
+  const lookup = digitLookup(language);
+  const parts = text.normalize('NFC').split(/([\s,.\-–—।]+)/); // Words at even indices
+
+  // Digits each word stands for; null for words that are not part of a number
+  let repeat = 1;
+  const counts = parts.map((part, i): number | null => {
+    if (i % 2) return 0;
+    const word = key(part);
+    if (MULTIPLIERS[word]) {
+      repeat = MULTIPLIERS[word];
+      return 0;
+    }
+    const digits = lookup.get(word) ?? nativeDigitsToAscii(part);
+    const count = /^\d+$/.test(digits) ? digits.length + repeat - 1 : null;
+    repeat = 1;
+    return count;
+  });
+
+  let run: number[] = [];
+  const flush = () => {
+    if (run.reduce((sum, i) => sum + counts[i]!, 0) >= 12) {
+      let kept = 0;
+      for (const i of [...run].reverse()) {
+        if (kept < 4) {
+          kept += counts[i]!;
+        } else {
+          parts[i] = /^\d+$/.test(parts[i]) ? 'X'.repeat(parts[i].length) : 'X';
+        }
+      }
+    }
+    run = [];
+  };
+  parts.forEach((_, i) => {
+    if (i % 2) return;
+    if (counts[i] === null) flush();
+    else run.push(i);
+  });
+  flush();
+  return parts.join('');
+};
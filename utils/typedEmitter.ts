@@ -0,0 +1,29 @@
+type Listener<T> = (payload: T) => void;
+
+// Minimal strongly-typed event emitter; `on` returns an unsubscribe function
+export class TypedEmitter<Events extends Record<string, unknown>> {
+  private listeners: { [K in keyof Events]?: Set<Listener<Events[K]>> } = {};
+
+  on<K extends keyof Events>(event: K, listener: Listener<Events[K]>): () => void {
+    (this.listeners[event] ??= new Set()).add(listener);
+    return () => this.off(event, listener);
+  }
+
+  off<K extends keyof Events>(event: K, listener: Listener<Events[K]>) {
+    this.listeners[event]?.delete(listener);
+  }
+
+  emit<K extends keyof Events>(event: K, payload: Events[K]) {
+    this.listeners[event]?.forEach(listener => {
+      try {
+        listener(payload);
+      } catch (e) {
+        console.error(`Listener for "${String(event)}" failed`, e);
+      }
+    });
+  }
+
+  removeAllListeners() {
+    this.listeners = {};
+  }
+}
@@ -0,0 +1,81 @@
+// Inclusive Canonical XML 1.0 without comments
+// (http://www.w3.org/TR/2001/REC-xml-c14n-20010315), as used by XML
+// signatures. Works on a parsed DOM, so the XML declaration, DTD and
+// attribute quoting of the source no longer matter.
+
+const XMLNS = 'http://www.w3.org/2000/xmlns/';
+
+const escapeText = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/\r/g, '&#xD;');
+
+const escapeAttribute = (value: string): string =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/"/g, '&quot;')
+    .replace(/\t/g, '&#x9;').replace(/\n/g, '&#xA;').replace(/\r/g, '&#xD;');
+
+// Namespace declarations in scope at an element, keyed by prefix ('' = default)
+const inScopeNamespaces = (element: Element): Map<string, string> => {
+  const chain: Element[] = [];
+  for (let node: Element | null = element; node; node = node.parentElement) chain.unshift(node);
+
+  const namespaces = new Map<string, string>();
+  for (const node of chain) {
+    for (const attr of Array.from(node.attributes)) {
+      if (attr.namespaceURI === XMLNS) namespaces.set(attr.prefix ? attr.localName : '', attr.value);
+    }
+  }
+  return namespaces;
+};
+
+const renderElement = (element: Element, rendered: Map<string, string>, skip?: (el: Element) => boolean): string => {
+  const declared = inScopeNamespaces(element);
+  const namespaceParts: [string, string][] = [];
+  for (const [prefix, uri] of declared) {
+    // Only declarations that differ from what the output ancestor already has
+    const inherited = rendered.get(prefix) ?? '';
+    if (inherited !== uri) namespaceParts.push([prefix, uri]);
+  }
+  namespaceParts.sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+
+  const attributes = Array.from(element.attributes)
+    .filter(attr => attr.namespaceURI !== XMLNS)
+    .sort((a, b) => {
+      const nsA = a.namespaceURI ?? '';
+      const nsB = b.namespaceURI ?? '';
+      if (nsA !== nsB) return nsA < nsB ? -1 : 1;
+      return a.localName < b.localName ? -1 : a.localName > b.localName ? 1 : 0;
+    });
+
+  const scope = new Map(rendered);
+  namespaceParts.forEach(([prefix, uri]) => scope.set(prefix, uri));
+
+  let out = `<${element.tagName}`;
+  for (const [prefix, uri] of namespaceParts) out += ` ${prefix ? `xmlns:${prefix}` : 'xmlns'}="${escapeAttribute(uri)}"`;
+  for (const attr of attributes) out += ` ${attr.name}="${escapeAttribute(attr.value)}"`;
+  out += '>';
+
+  for (const child of Array.from(element.childNodes)) {
+    out += renderNode(child, scope, skip);
+  }
+  return `${out}</${element.tagName}>`;
+};
+
+const renderNode = (node: Node, rendered: Map<string, string>, skip?: (el: Element) => boolean): string => {
+  switch (node.nodeType) {
+    case Node.ELEMENT_NODE:
+      return skip?.(node as Element) ? '' : renderElement(node as Element, rendered, skip);
+    case Node.TEXT_NODE:
+    case Node.CDATA_SECTION_NODE:
+      return escapeText(node.nodeValue ?? '');
+    case Node.PROCESSING_INSTRUCTION_NODE: {
+      const pi = node as ProcessingInstruction;
+      return `<?${pi.target}${pi.data ? ` ${pi.data}` : ''}?>`;
+    }
+    default:
+      return ''; // Comments are dropped
+  }
+};
+
+// Canonical form of an element (with the namespaces it inherits), leaving
+// out any descendants matched by skip - e.g. an enveloped Signature
+export const canonicalize = (element: Element, skip?: (el: Element) => boolean): string =>
+  renderElement(element, new Map([['', '']]), skip);
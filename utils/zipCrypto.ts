@@ -0,0 +1,131 @@
+// Minimal reader for password-protected ZIP files using the traditional
+// PKWARE ("ZipCrypto") scheme, which is what the UIDAI offline e-KYC
+// download uses. Only stored and deflated entries are supported.
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_SIGNATURE = 0x02014b50;
+const LOCAL_SIGNATURE = 0x04034b50;
+const ENCRYPTION_HEADER_SIZE = 12;
+
+export interface ZipEntry {
+  name: string;
+  data: Uint8Array;
+}
+
+export class ZipPasswordError extends Error {
+  constructor() {
+    super('The share code is incorrect.');
+    this.name = 'ZipPasswordError';
+  }
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const crcUpdate = (crc: number, byte: number): number => (CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8)) >>> 0;
+
+export const crc32 = (data: Uint8Array): number => {
+  let crc = 0xffffffff;
+  for (const byte of data) crc = crcUpdate(crc, byte);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+// The three rolling keys of the PKWARE stream cipher
+class ZipCryptoKeys {
+  private keys = [0x12345678, 0x23456789, 0x34567890];
+
+  constructor(password: Uint8Array) {
+    password.forEach(byte => this.update(byte));
+  }
+
+  private update(byte: number) {
+    const [k0, k1, k2] = this.keys;
+    const next0 = crcUpdate(k0, byte);
+    const next1 = (Math.imul((k1 + (next0 & 0xff)) >>> 0, 134775813) + 1) >>> 0;
+    const next2 = crcUpdate(k2, next1 >>> 24);
+    this.keys = [next0, next1, next2];
+  }
+
+  public decrypt(data: Uint8Array): Uint8Array {
+    const out = new Uint8Array(data.length);
+    for (let i = 0; i < data.length; i++) {
+      const temp = (this.keys[2] | 2) & 0xffff;
+      out[i] = data[i] ^ ((Math.imul(temp, temp ^ 1) >>> 8) & 0xff);
+      this.update(out[i]);
+    }
+    return out;
+  }
+}
+
+const inflateRaw = async (data: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+// Reads every file entry, decrypting with the password where needed
+export const readZip = async (zip: Uint8Array, password: string): Promise<ZipEntry[]> => {
+  const view = new DataView(zip.buffer, zip.byteOffset, zip.byteLength);
+
+  let eocd = -1;
+  for (let i = zip.length - 22; i >= Math.max(0, zip.length - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === EOCD_SIGNATURE) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) throw new Error('Not a ZIP file.');
+
+  const entryCount = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+  const names = new TextDecoder();
+  const entries: ZipEntry[] = [];
+
+  for (let n = 0; n < entryCount; n++) {
+    if (view.getUint32(offset, true) !== CENTRAL_SIGNATURE) throw new Error('Corrupt ZIP directory.');
+    const flags = view.getUint16(offset + 8, true);
+    const method = view.getUint16(offset + 10, true);
+    const modTime = view.getUint16(offset + 12, true);
+    const crc = view.getUint32(offset + 16, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = names.decode(zip.subarray(offset + 46, offset + 46 + nameLength));
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith('/')) continue;
+    if (method === 99) throw new Error('AES-encrypted ZIP files are not supported.');
+    if (method !== 0 && method !== 8) throw new Error(`Unsupported ZIP compression method ${method}.`);
+    if (view.getUint32(localOffset, true) !== LOCAL_SIGNATURE) throw new Error('Corrupt ZIP entry.');
+
+    const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    let data = zip.subarray(dataStart, dataStart + compressedSize);
+
+    if (flags & 1) {
+      const decrypted = new ZipCryptoKeys(new TextEncoder().encode(password)).decrypt(data);
+      // The last header byte repeats the CRC (or, with a data descriptor, the time) high byte
+      const check = flags & 8 ? modTime >>> 8 : crc >>> 24;
+      if (decrypted[ENCRYPTION_HEADER_SIZE - 1] !== check) throw new ZipPasswordError();
+      data = decrypted.subarray(ENCRYPTION_HEADER_SIZE);
+    }
+
+    // A wrong password passes the one-byte check 1 time in 256 and then inflates garbage
+    const content = method === 8
+      ? await inflateRaw(data).catch(e => { throw flags & 1 ? new ZipPasswordError() : e; })
+      : data;
+    if (crc32(content) !== crc) {
+      throw flags & 1 ? new ZipPasswordError() : new Error(`ZIP entry ${name} is corrupt.`);
+    }
+    entries.push({ name, data: content });
+  }
+
+  return entries;
+};
@@ -1,18 +1,42 @@
+import fs from 'fs';
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
 
+// UIDAI signing certificates for Secure QR and offline e-KYC checks, as PEM
+// text or base64 DER
+const loadUidaiCertificates = (dir: string): string[] => {
+  if (!fs.existsSync(dir)) return [];
+  return fs.readdirSync(dir)
+    .filter(name => /\.(cer|crt|pem)$/i.test(name))
+    .map(name => {
+      const content = fs.readFileSync(path.join(dir, name));
+      const text = content.toString('latin1');
+      return text.includes('-----BEGIN') ? text : content.toString('base64');
+    });
+};
+
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        // The API server (npm run api-server) mints live tokens; the API key stays there
+        proxy: {
+          '/api': {
+            target: `http://localhost:${env.API_PORT || 8787}`,
+            rewrite: (p: string) => p.replace(/^\/api/, ''),
+          },
+        },
       },
       plugins: [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.API_SERVER_URL': JSON.stringify(env.API_SERVER_URL || ''),
+        'process.env.VERIFICATION_API_URL': JSON.stringify(env.VERIFICATION_API_URL || ''),
+        'process.env.SESSION_API_URL': JSON.stringify(env.SESSION_API_URL || ''),
+        'process.env.SESSION_SIGNING_KEY_ID': JSON.stringify(env.SESSION_SIGNING_KEY_ID || ''),
+        'process.env.UIDAI_CERTIFICATES': JSON.stringify(JSON.stringify(loadUidaiCertificates(path.resolve(__dirname, 'certs'))))
       },
       resolve: {
         alias: {